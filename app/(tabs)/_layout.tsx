@@ -128,6 +128,13 @@ export default function TabLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="availability"
+        options={{
+          href: null,
+        }}
+      />
+
       <Tabs.Screen
         name="profile"
         options={{
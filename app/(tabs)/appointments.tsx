@@ -1,10 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, useWindowDimensions } from 'react-native';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, useWindowDimensions, FlatList, RefreshControl, ActivityIndicator, TextInput } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Calendar, Clock, User, CheckCircle, Phone, Video } from 'lucide-react-native';
+import { ArrowLeft, Calendar, Clock, User, CheckCircle, Phone, Video, XCircle, RefreshCw, UserX, History, Repeat } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  AppointmentCursor,
+  AppointmentListItem,
+  AppointmentSegment,
+  BookingError,
+  cancelAppointment,
+  AppointmentCounterparty,
+  fetchAppointmentCounterparties,
+  fetchAppointmentsPage,
+  recordAppointmentOutcome,
+  fetchCancellationWindows,
+  getAppointmentActions,
+  DEFAULT_CANCELLATION_WINDOW_HOURS,
+} from '@/lib/appointments';
+import { parseDateKey } from '@/lib/availability';
+import { formatInTimeZone, getDeviceTimeZone, getTimeZoneLabel, isSameWallClock } from '@/lib/timezone';
+import { cancelAppointmentSeries } from '@/lib/appointment-series';
+import CancelAppointmentModal, { CancelScope } from '@/components/CancelAppointmentModal';
+import AppointmentTimeline from '@/components/AppointmentTimeline';
+import WaitlistOfferBanner from '@/components/WaitlistOfferBanner';
 
 type TimeSlot = {
   time: string;
@@ -20,19 +40,17 @@ type UserData = {
   phone: string | null;
 };
 
-type Appointment = {
-  id: string;
-  client_id: string;
-  therapist_id: string;
-  scheduled_at: string;
-  duration: number;
-  status: 'booked' | 'completed' | 'cancelled' | 'no_show';
-  notes?: string;
-  meeting_link?: string;
-  created_at: string;
-  updated_at: string;
-  client: UserData;
-  therapist: UserData;
+type Appointment = AppointmentListItem;
+
+type AppointmentCardHandlers = {
+  cancellationWindows: Record<string, number>;
+  // Counterparty timezones, for when their `users` row is not readable directly
+  counterpartTimeZones: Record<string, string>;
+  expandedTimelineId: string | null;
+  onToggleTimeline: (appointment: Appointment) => void;
+  onCancel: (appointment: Appointment) => void;
+  onReschedule: (appointment: Appointment) => void;
+  onRecordOutcome: (appointment: Appointment, status: 'completed' | 'no_show') => void;
 };
 
 type TherapistData = {
@@ -47,19 +65,32 @@ type TherapistData = {
   users: UserData | null;
 };
 
+const SEGMENTS: { value: AppointmentSegment; label: string }[] = [
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'past', label: 'Past' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const SEGMENT_EMPTY_TITLES: Record<AppointmentSegment, string> = {
+  upcoming: 'No upcoming appointments',
+  past: 'No past appointments',
+  cancelled: 'No cancelled appointments',
+};
+
 // Move these helpers to the top-level scope
-const formatAppointmentDate = (dateString: string) => {
+const formatAppointmentDate = (dateString: string, timeZone: string = getDeviceTimeZone()) => {
   const date = new Date(dateString);
   return {
-    date: date.toLocaleDateString('en-US', { 
+    date: formatInTimeZone(date, timeZone, { 
       weekday: 'short', 
       month: 'short', 
       day: 'numeric' 
     }),
-    time: date.toLocaleTimeString('en-US', { 
+    time: formatInTimeZone(date, timeZone, { 
       hour: '2-digit', 
       minute: '2-digit' 
-    })
+    }),
+    zone: getTimeZoneLabel(date, timeZone),
   };
 };
 
@@ -76,73 +107,338 @@ const getStatusColor = (status: Appointment['status']) => {
 export default function AppointmentsScreen() {
   const { userProfile, loading: authLoading } = useAuth();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [nextCursor, setNextCursor] = useState<AppointmentCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [segment, setSegment] = useState<AppointmentSegment>('upcoming');
+  const [fromText, setFromText] = useState('');
+  const [toText, setToText] = useState('');
+  const [counterpartyId, setCounterpartyId] = useState<string | null>(null);
+  const [counterparties, setCounterparties] = useState<AppointmentCounterparty[]>([]);
+  const [cancellationWindows, setCancellationWindows] = useState<Record<string, number>>({});
+  const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [expandedTimelineId, setExpandedTimelineId] = useState<string | null>(null);
+  // Incremented on every fresh load so late responses for an older segment or filter are dropped
+  const requestIdRef = useRef(0);
   const { width } = useWindowDimensions();
 
-  // Don't render until we have user profile
-  if (authLoading || !userProfile) {
-    return (
-      <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Loading...</Text>
-      </View>
-    );
-  }
+  const role: 'client' | 'therapist' = userProfile?.role === 'therapist' ? 'therapist' : 'client';
 
-  useEffect(() => {
-    if (userProfile?.id) {
-      loadAppointments();
+  // Half-typed dates are ignored until they parse; the range end is inclusive of that day
+  const fromDate = useMemo(() => parseDateKey(fromText), [fromText]);
+  const toDate = useMemo(() => {
+    const parsed = parseDateKey(toText);
+    if (!parsed) return null;
+    parsed.setDate(parsed.getDate() + 1);
+    return parsed;
+  }, [toText]);
+  const fromKey = fromDate?.getTime() ?? null;
+  const toKey = toDate?.getTime() ?? null;
+
+  const loadCancellationWindows = async (items: Appointment[]) => {
+    const therapistIds = Array.from(new Set(items.map(appointment => appointment.therapist_id)))
+      .filter(id => !(id in cancellationWindows));
+    if (therapistIds.length === 0) return;
+
+    try {
+      const windows = await fetchCancellationWindows(therapistIds);
+      setCancellationWindows(prev => ({ ...prev, ...windows }));
+    } catch (windowError) {
+      // The trigger still enforces the window; fall back to the default for display
+      console.error('❌ Error loading cancellation windows:', windowError);
     }
-  }, [userProfile]);
+  };
 
-  const loadAppointments = async () => {
+  const loadAppointments = useCallback(async (isRefresh = false) => {
     if (!userProfile?.id) return;
 
+    const requestId = ++requestIdRef.current;
+
     try {
-      console.log('🔍 Loading appointments for user:', userProfile.id);
-      
-      let query = supabase
-        .from('appointments')
-        .select(`
-          *,
-          client:users!client_id(id, name, email, phone, photo_url),
-          therapist:users!therapist_id(id, name, email, phone, photo_url)
-        `)
-        .order('scheduled_at', { ascending: true });
-
-      // Filter based on user role
-      if (userProfile.role === 'client') {
-        query = query.eq('client_id', userProfile.id);
-      } else if (userProfile.role === 'therapist') {
-        query = query.eq('therapist_id', userProfile.id);
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
       }
 
-      const { data, error } = await query;
-
-      if (error) {
-        console.error('❌ Error loading appointments:', error);
-        Alert.alert('Error', 'Failed to load appointments');
-        return;
-      }
+      const page = await fetchAppointmentsPage({
+        userId: userProfile.id,
+        role,
+        segment,
+        from: fromKey !== null ? new Date(fromKey) : null,
+        to: toKey !== null ? new Date(toKey) : null,
+        counterpartyId,
+      });
 
-      console.log('✅ Appointments loaded:', data?.length || 0);
-      setAppointments(data || []);
+      if (requestId !== requestIdRef.current) return;
 
+      setAppointments(page.appointments);
+      setNextCursor(page.nextCursor);
+      loadCancellationWindows(page.appointments);
     } catch (error) {
       console.error('💥 Error loading appointments:', error);
       Alert.alert('Error', 'Failed to load appointments');
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
+  }, [userProfile?.id, role, segment, fromKey, toKey, counterpartyId]);
+
+  const loadMoreAppointments = async () => {
+    if (!userProfile?.id || !nextCursor || loadingMore || loading || refreshing) return;
+
+    const requestId = requestIdRef.current;
+
+    try {
+      setLoadingMore(true);
+
+      const page = await fetchAppointmentsPage({
+        userId: userProfile.id,
+        role,
+        segment,
+        from: fromKey !== null ? new Date(fromKey) : null,
+        to: toKey !== null ? new Date(toKey) : null,
+        counterpartyId,
+        cursor: nextCursor,
+      });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setAppointments(prev => [
+        ...prev,
+        ...page.appointments.filter(appointment => !prev.some(existing => existing.id === appointment.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+      loadCancellationWindows(page.appointments);
+    } catch (error) {
+      console.error('❌ Error loading more appointments:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  // Feeds the therapist's client filter and every card's counterpart timezone
+  useEffect(() => {
+    if (!userProfile?.id) return;
+
+    fetchAppointmentCounterparties()
+      .then(setCounterparties)
+      .catch(error => console.error('❌ Error loading counterparties:', error));
+  }, [userProfile?.id]);
+
+  const counterpartTimeZones = useMemo(() => {
+    const zones: Record<string, string> = {};
+    counterparties.forEach(counterparty => {
+      if (counterparty.timezone) zones[counterparty.id] = counterparty.timezone;
+    });
+    return zones;
+  }, [counterparties]);
+
+  const showActionError = (title: string, error: unknown) => {
+    console.error(`❌ ${title}:`, error);
+    Alert.alert(title, error instanceof BookingError ? error.message : 'An error occurred. Please try again.');
   };
 
-  if (loading) {
+  const handleConfirmCancel = async (reason: string, scope: CancelScope) => {
+    if (!cancelTarget) return;
+
+    setCancelling(true);
+    try {
+      if (scope === 'series') {
+        await cancelAppointmentSeries(cancelTarget.id, reason);
+      } else {
+        await cancelAppointment(cancelTarget.id, reason);
+      }
+      setCancelTarget(null);
+      await loadAppointments();
+    } catch (error) {
+      showActionError('Could Not Cancel', error);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleReschedule = (appointment: Appointment) => {
+    const openBooking = (scope: 'single' | 'series') =>
+      router.push({
+        pathname: '/(tabs)/booking',
+        params: { rescheduleId: appointment.id, rescheduleScope: scope },
+      });
+
+    if (!appointment.series_id) {
+      openBooking('single');
+      return;
+    }
+
+    Alert.alert('Reschedule Series', 'Move just this session, or this and every following session in the series?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'This Session', onPress: () => openBooking('single') },
+      { text: 'This and Following', onPress: () => openBooking('series') },
+    ]);
+  };
+
+  const handleRecordOutcome = (appointment: Appointment, status: 'completed' | 'no_show') => {
+    const label = status === 'completed' ? 'completed' : 'a no-show';
+    Alert.alert(
+      status === 'completed' ? 'Mark Completed' : 'Mark No-show',
+      `Mark this session with ${appointment.client?.name || 'this client'} as ${label}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Confirm',
+          onPress: async () => {
+            try {
+              await recordAppointmentOutcome(appointment.id, status);
+              await loadAppointments();
+            } catch (error) {
+              showActionError('Could Not Update Session', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Don't render until we have user profile
+  if (authLoading || !userProfile) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Loading appointments...</Text>
+        <Text style={styles.loadingText}>Loading...</Text>
       </View>
     );
   }
 
+  const cardHandlers: AppointmentCardHandlers = {
+    cancellationWindows,
+    counterpartTimeZones,
+    expandedTimelineId,
+    onToggleTimeline: appointment => setExpandedTimelineId(current => current === appointment.id ? null : appointment.id),
+    onCancel: setCancelTarget,
+    onReschedule: handleReschedule,
+    onRecordOutcome: handleRecordOutcome,
+  };
+
+  const hasFilters = !!fromText || !!toText || !!counterpartyId;
+
+  const renderEmptyState = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.listIndicator} color="#10B981" />;
+    }
+
+    if (hasFilters) {
+      return (
+        <View style={styles.emptyState}>
+          <Calendar size={Math.max(48, width * 0.16)} color="#CBD5E1" />
+          <Text style={[styles.emptyStateTitle, { fontSize: Math.max(16, width * 0.045) }]}>No matching appointments</Text>
+          <Text style={[styles.emptyStateText, { fontSize: Math.max(13, width * 0.035) }]}>Try widening the dates or clearing the filters</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Calendar size={Math.max(48, width * 0.16)} color="#CBD5E1" />
+        <Text style={[styles.emptyStateTitle, { fontSize: Math.max(16, width * 0.045) }]}>{SEGMENT_EMPTY_TITLES[segment]}</Text>
+        {segment === 'upcoming' && (
+          <Text style={[styles.emptyStateText, { fontSize: Math.max(13, width * 0.035) }]}> 
+            {userProfile.role === 'client'
+              ? 'Book your first session with a therapist'
+              : 'Your appointments will appear here'
+            }
+          </Text>
+        )}
+        {segment === 'upcoming' && userProfile.role === 'client' && (
+          <TouchableOpacity 
+            style={[styles.searchButton, { paddingHorizontal: width * 0.08, paddingVertical: width * 0.035 }]}
+            onPress={() => router.push('/(tabs)/search')}
+          >
+            <Text style={[styles.searchButtonText, { fontSize: Math.max(14, width * 0.04) }]}>Find Therapists</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <View style={styles.segmentRow}>
+        {SEGMENTS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segmentButton, segment === option.value && styles.selectedSegmentButton]}
+            onPress={() => setSegment(option.value)}
+          >
+            <Text style={[styles.segmentText, segment === option.value && styles.selectedSegmentText]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.dateRangeRow}>
+        <TextInput
+          style={[styles.dateInput, fromText && !fromDate && styles.invalidDateInput]}
+          value={fromText}
+          onChangeText={setFromText}
+          placeholder="From YYYY-MM-DD"
+          placeholderTextColor="#94a3b8"
+          maxLength={10}
+          accessibilityLabel="Show appointments from date"
+        />
+        <Text style={styles.dateRangeSeparator}>–</Text>
+        <TextInput
+          style={[styles.dateInput, toText && !toDate && styles.invalidDateInput]}
+          value={toText}
+          onChangeText={setToText}
+          placeholder="To YYYY-MM-DD"
+          placeholderTextColor="#94a3b8"
+          maxLength={10}
+          accessibilityLabel="Show appointments until date"
+        />
+        {hasFilters && (
+          <TouchableOpacity
+            onPress={() => {
+              setFromText('');
+              setToText('');
+              setCounterpartyId(null);
+            }}
+            accessibilityLabel="Clear filters"
+          >
+            <Text style={styles.clearFiltersText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {role === 'therapist' && counterparties.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.counterpartyRow}>
+          <TouchableOpacity
+            style={[styles.counterpartyChip, !counterpartyId && styles.selectedCounterpartyChip]}
+            onPress={() => setCounterpartyId(null)}
+          >
+            <Text style={[styles.counterpartyText, !counterpartyId && styles.selectedCounterpartyText]}>All clients</Text>
+          </TouchableOpacity>
+          {counterparties.map(counterparty => (
+            <TouchableOpacity
+              key={counterparty.id}
+              style={[styles.counterpartyChip, counterpartyId === counterparty.id && styles.selectedCounterpartyChip]}
+              onPress={() => setCounterpartyId(counterparty.id)}
+            >
+              <Text style={[styles.counterpartyText, counterpartyId === counterparty.id && styles.selectedCounterpartyText]}>
+                {counterparty.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+
   return (
     <View style={[styles.container, { paddingHorizontal: width * 0.04 }]}> {/* Responsive horizontal padding */}
       <View style={{ height: width * 0.10 }} /> {/* Add vertical space at the top */}
@@ -150,39 +446,73 @@ export default function AppointmentsScreen() {
         <Text style={[styles.headerTitle, { fontSize: Math.max(16, width * 0.045), textAlign: 'center' }]}>My Appointments</Text>
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: width * 0.1 }}>
-        {appointments.length === 0 ? (
-          <View style={styles.emptyState}>
-            <Calendar size={Math.max(48, width * 0.16)} color="#CBD5E1" />
-            <Text style={[styles.emptyStateTitle, { fontSize: Math.max(16, width * 0.045) }]}>No appointments yet</Text>
-            <Text style={[styles.emptyStateText, { fontSize: Math.max(13, width * 0.035) }]}> 
-              {userProfile.role === 'client'
-                ? 'Book your first session with a therapist'
-                : 'Your appointments will appear here'
-              }
-            </Text>
-            {userProfile.role === 'client' && (
-              <TouchableOpacity 
-                style={[styles.searchButton, { paddingHorizontal: width * 0.08, paddingVertical: width * 0.035 }]}
-                onPress={() => router.push('/(tabs)/search')}
-              >
-                <Text style={[styles.searchButtonText, { fontSize: Math.max(14, width * 0.04) }]}>Find Therapists</Text>
-              </TouchableOpacity>
-            )}
-          </View>
-        ) : (
-          appointments.map((appointment) => renderAppointmentCardResponsive(appointment, width, userProfile))
-        )}
-      </ScrollView>
+      {role === 'client' && (
+        <WaitlistOfferBanner clientId={userProfile.id} onClaimed={() => loadAppointments()} />
+      )}
+
+      {renderFilters()}
+
+      <FlatList
+        style={styles.content}
+        data={loading ? [] : appointments}
+        keyExtractor={appointment => appointment.id}
+        renderItem={({ item }) => renderAppointmentCardResponsive(item, width, userProfile, cardHandlers)}
+        ListEmptyComponent={renderEmptyState}
+        onEndReached={loadMoreAppointments}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? (
+          <ActivityIndicator style={styles.listIndicator} color="#10B981" />
+        ) : null}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => loadAppointments(true)}
+            colors={['#10B981']}
+            tintColor="#10B981"
+          />
+        }
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: width * 0.1 }}
+      />
+
+      <CancelAppointmentModal
+        visible={!!cancelTarget}
+        counterpartName={
+          (userProfile.role === 'client' ? cancelTarget?.therapist?.name : cancelTarget?.client?.name) || 'Unknown'
+        }
+        sessionLabel={cancelTarget ? `${formatAppointmentDate(cancelTarget.scheduled_at).date} at ${formatAppointmentDate(cancelTarget.scheduled_at).time}` : ''}
+        isSeries={!!cancelTarget?.series_id}
+        submitting={cancelling}
+        onConfirm={handleConfirmCancel}
+        onDismiss={() => setCancelTarget(null)}
+      />
     </View>
   );
 }
 
 // Responsive version of renderAppointmentCard
-function renderAppointmentCardResponsive(appointment: Appointment | undefined | null, width: number, userProfile: any) {
+function renderAppointmentCardResponsive(
+  appointment: Appointment | undefined | null,
+  width: number,
+  userProfile: any,
+  handlers: AppointmentCardHandlers
+) {
   if (!appointment) return null;
   const dateInfo = formatAppointmentDate(appointment.scheduled_at);
   const otherUser = userProfile.role === 'client' ? appointment.therapist : appointment.client;
+  const otherUserId = userProfile.role === 'client' ? appointment.therapist_id : appointment.client_id;
+  const otherTimeZone = otherUser?.timezone || handlers.counterpartTimeZones[otherUserId];
+  const otherDateInfo = otherTimeZone && !isSameWallClock(new Date(appointment.scheduled_at), getDeviceTimeZone(), otherTimeZone)
+    ? formatAppointmentDate(appointment.scheduled_at, otherTimeZone)
+    : null;
+  const actions = getAppointmentActions(
+    appointment,
+    userProfile.role === 'therapist' ? 'therapist' : 'client',
+    handlers.cancellationWindows[appointment.therapist_id] ?? DEFAULT_CANCELLATION_WINDOW_HOURS
+  );
+  const actionButtonSize = { paddingHorizontal: width * 0.04, paddingVertical: width * 0.025 };
+  const actionIconSize = Math.max(14, width * 0.04);
+  const actionTextSize = { fontSize: Math.max(13, width * 0.035) };
   const cardPadding = Math.max(12, width * 0.04);
   const cardMargin = Math.max(10, width * 0.03);
   return (
@@ -190,7 +520,14 @@ function renderAppointmentCardResponsive(appointment: Appointment | undefined |
       <View style={styles.appointmentHeader}>
         <View style={styles.appointmentDate}>
           <Text style={[styles.appointmentDateText, { fontSize: Math.max(15, width * 0.04) }]}>{dateInfo.date}</Text>
-          <Text style={[styles.appointmentTimeText, { fontSize: Math.max(13, width * 0.035) }]}>{dateInfo.time}</Text>
+          <Text style={[styles.appointmentTimeText, { fontSize: Math.max(13, width * 0.035) }]}>
+            {dateInfo.time}{otherDateInfo ? ` ${dateInfo.zone}` : ''}
+          </Text>
+          {otherDateInfo && (
+            <Text style={[styles.counterpartTimeText, { fontSize: Math.max(12, width * 0.032) }]}>
+              {otherDateInfo.date}, {otherDateInfo.time} {otherDateInfo.zone} for {otherUser?.name || (userProfile.role === 'client' ? 'your therapist' : 'your client')}
+            </Text>
+          )}
         </View>
         <View style={[styles.statusBadge, { backgroundColor: getStatusColor(appointment.status) }]}> 
           <Text style={styles.statusText}>{appointment.status}</Text>
@@ -206,11 +543,29 @@ function renderAppointmentCardResponsive(appointment: Appointment | undefined |
             <Clock size={Math.max(14, width * 0.04)} color="#64748B" />
             <Text style={[styles.detailText, { fontSize: Math.max(13, width * 0.035) }]}>{appointment.duration} minutes</Text>
           </View>
+          {appointment.series_id && (
+            <View style={styles.detailRow}>
+              <Repeat size={Math.max(14, width * 0.04)} color="#64748B" />
+              <Text style={[styles.detailText, { fontSize: Math.max(13, width * 0.035) }]}>Part of a recurring series</Text>
+            </View>
+          )}
           {appointment.notes && (
             <View style={styles.notesContainer}>
               <Text style={[styles.notesText, { fontSize: Math.max(13, width * 0.035) }]}>{appointment.notes}</Text>
             </View>
           )}
+          {appointment.status === 'cancelled' && appointment.cancellation_reason && (
+            <View style={styles.notesContainer}>
+              <Text style={[styles.notesText, { fontSize: Math.max(13, width * 0.035) }]}>
+                Cancelled{appointment.cancelled_by === appointment.therapist_id ? ' by therapist' : appointment.cancelled_by === appointment.client_id ? ' by client' : ''}: {appointment.cancellation_reason}
+              </Text>
+            </View>
+          )}
+          {actions.insideCancellationWindow && (
+            <Text style={[styles.windowNoticeText, { fontSize: Math.max(12, width * 0.032) }]}>
+              Within {handlers.cancellationWindows[appointment.therapist_id] ?? DEFAULT_CANCELLATION_WINDOW_HOURS}h of the session. Contact your therapist to cancel or reschedule.
+            </Text>
+          )}
         </View>
         <View style={styles.appointmentActions}>
           {appointment.meeting_link && (
@@ -223,7 +578,48 @@ function renderAppointmentCardResponsive(appointment: Appointment | undefined |
             <Phone size={Math.max(14, width * 0.04)} color="#10B981" />
             <Text style={[styles.actionButtonText, { fontSize: Math.max(13, width * 0.035) }]}>Contact</Text>
           </TouchableOpacity>
+          {actions.canReschedule && (
+            <TouchableOpacity style={[styles.actionButton, actionButtonSize]} onPress={() => handlers.onReschedule(appointment)}>
+              <RefreshCw size={actionIconSize} color="#10B981" />
+              <Text style={[styles.actionButtonText, actionTextSize]}>Reschedule</Text>
+            </TouchableOpacity>
+          )}
+          {actions.canComplete && (
+            <TouchableOpacity style={[styles.actionButton, actionButtonSize]} onPress={() => handlers.onRecordOutcome(appointment, 'completed')}>
+              <CheckCircle size={actionIconSize} color="#10B981" />
+              <Text style={[styles.actionButtonText, actionTextSize]}>Completed</Text>
+            </TouchableOpacity>
+          )}
+          {actions.canMarkNoShow && (
+            <TouchableOpacity style={[styles.actionButton, actionButtonSize]} onPress={() => handlers.onRecordOutcome(appointment, 'no_show')}>
+              <UserX size={actionIconSize} color="#64748B" />
+              <Text style={[styles.actionButtonText, styles.mutedActionText, actionTextSize]}>No-show</Text>
+            </TouchableOpacity>
+          )}
+          {actions.canCancel && (
+            <TouchableOpacity style={[styles.actionButton, styles.cancelActionButton, actionButtonSize]} onPress={() => handlers.onCancel(appointment)}>
+              <XCircle size={actionIconSize} color="#EF4444" />
+              <Text style={[styles.actionButtonText, styles.cancelActionText, actionTextSize]}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={[styles.actionButton, actionButtonSize]} onPress={() => handlers.onToggleTimeline(appointment)}>
+            <History size={actionIconSize} color="#64748B" />
+            <Text style={[styles.actionButtonText, styles.mutedActionText, actionTextSize]}>
+              {handlers.expandedTimelineId === appointment.id ? 'Hide History' : 'History'}
+            </Text>
+          </TouchableOpacity>
         </View>
+        {handlers.expandedTimelineId === appointment.id && (
+          <AppointmentTimeline
+            appointmentId={appointment.id}
+            currentUserId={userProfile.id}
+            participants={{
+              [appointment.client_id]: appointment.client?.name || 'Client',
+              [appointment.therapist_id]: appointment.therapist?.name || 'Therapist',
+            }}
+            refreshKey={appointment.updated_at}
+          />
+        )}
       </View>
     </View>
   );
@@ -526,6 +922,97 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#ffffff',
   },
+  filters: {
+    gap: 10,
+    marginBottom: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    padding: 4,
+  },
+  segmentButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  selectedSegmentButton: {
+    backgroundColor: '#ffffff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
+  selectedSegmentText: {
+    fontWeight: '400',
+    color: '#10B981',
+  },
+  dateRangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    fontFamily: 'System',
+    color: '#1e293b',
+    backgroundColor: '#ffffff',
+  },
+  invalidDateInput: {
+    borderColor: '#fca5a5',
+  },
+  dateRangeSeparator: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  clearFiltersText: {
+    fontSize: 13,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#10B981',
+  },
+  counterpartyRow: {
+    gap: 8,
+  },
+  counterpartyChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+  },
+  selectedCounterpartyChip: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  counterpartyText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#475569',
+  },
+  selectedCounterpartyText: {
+    color: '#ffffff',
+  },
+  listIndicator: {
+    paddingVertical: 20,
+  },
   appointmentCard: {
     backgroundColor: '#ffffff',
     borderRadius: 16,
@@ -558,6 +1045,13 @@ const styles = StyleSheet.create({
     fontFamily: 'System',
     color: '#64748B',
   },
+  counterpartTimeText: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#94a3b8',
+    marginTop: 2,
+  },
   statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -612,8 +1106,24 @@ const styles = StyleSheet.create({
   },
   appointmentActions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
   },
+  cancelActionButton: {
+    backgroundColor: '#fef2f2',
+  },
+  cancelActionText: {
+    color: '#EF4444',
+  },
+  mutedActionText: {
+    color: '#64748B',
+  },
+  windowNoticeText: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
   actionButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,637 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, ActivityIndicator, Switch, useWindowDimensions } from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  SESSION_LENGTHS,
+  WEEKDAYS,
+  createDefaultSchedule,
+  getScheduleForDay,
+  loadTherapistAvailability,
+  saveTherapistAvailability,
+  validateAvailability,
+} from '@/lib/availability';
+import { DEFAULT_CANCELLATION_WINDOW_HOURS, fetchCancellationWindows, updateCancellationWindow } from '@/lib/appointments';
+import { getDeviceTimeZone } from '@/lib/timezone';
+import type { SessionLength, TherapistAvailability, TimeOffRange, Weekday, WeeklySchedule } from '@/types/database';
+
+export default function AvailabilityScreen() {
+  const { userProfile } = useAuth();
+  const { width: screenWidth } = useWindowDimensions();
+  const [availability, setAvailability] = useState<TherapistAvailability>({ weekly: [], time_off: [] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [cancellationWindow, setCancellationWindow] = useState(String(DEFAULT_CANCELLATION_WINDOW_HOURS));
+
+  useEffect(() => {
+    if (userProfile?.role === 'therapist') {
+      loadAvailability();
+    }
+  }, [userProfile]);
+
+  const loadAvailability = async () => {
+    try {
+      const [stored, windows] = await Promise.all([
+        loadTherapistAvailability(userProfile!.id),
+        fetchCancellationWindows([userProfile!.id]),
+      ]);
+      // Schedules saved before zones were recorded were meant in the therapist's own zone
+      setAvailability({ ...stored, timezone: stored.timezone || getDeviceTimeZone() });
+      setCancellationWindow(String(windows[userProfile!.id] ?? DEFAULT_CANCELLATION_WINDOW_HOURS));
+    } catch (error) {
+      console.error('Error loading availability:', error);
+      Alert.alert('Error', 'Failed to load your availability');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSchedule = (day: Weekday, update: (schedule: WeeklySchedule) => WeeklySchedule) => {
+    setAvailability(prev => ({
+      ...prev,
+      weekly: prev.weekly.map(schedule => schedule.day === day ? update(schedule) : schedule),
+    }));
+  };
+
+  const toggleDay = (day: Weekday, enabled: boolean) => {
+    setAvailability(prev => ({
+      ...prev,
+      weekly: enabled
+        ? [...prev.weekly, createDefaultSchedule(day)]
+        : prev.weekly.filter(schedule => schedule.day !== day),
+    }));
+  };
+
+  const toggleSessionLength = (day: Weekday, blockIndex: number, length: SessionLength) => {
+    updateSchedule(day, schedule => ({
+      ...schedule,
+      working_hours: schedule.working_hours.map((block, index) => {
+        if (index !== blockIndex) return block;
+        const session_lengths = block.session_lengths.includes(length)
+          ? block.session_lengths.filter(l => l !== length)
+          : [...block.session_lengths, length].sort((a, b) => a - b);
+        return { ...block, session_lengths };
+      }),
+    }));
+  };
+
+  const updateTimeOff = (index: number, changes: Partial<TimeOffRange>) => {
+    setAvailability(prev => ({
+      ...prev,
+      time_off: prev.time_off.map((timeOff, i) => i === index ? { ...timeOff, ...changes } : timeOff),
+    }));
+  };
+
+  const handleSave = async () => {
+    const errors = validateAvailability(availability);
+    const windowHours = Number(cancellationWindow);
+    if (!/^\d+$/.test(cancellationWindow.trim()) || windowHours > 168) {
+      errors.push('Cancellation window must be a whole number of hours between 0 and 168.');
+    }
+    if (errors.length > 0) {
+      Alert.alert('Check your schedule', errors.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveTherapistAvailability(userProfile!.id, availability);
+      await updateCancellationWindow(userProfile!.id, windowHours);
+      setAvailability(saved);
+      Alert.alert('Saved', 'Your availability has been updated');
+    } catch (error: any) {
+      console.error('Error saving availability:', error);
+      Alert.alert('Error', error.message || 'Failed to save availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!userProfile || userProfile.role !== 'therapist') {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Access denied. This screen is for therapists only.</Text>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#14b8a6" />
+        <Text style={styles.loadingText}>Loading your availability...</Text>
+      </View>
+    );
+  }
+
+  const renderTimeInput = (value: string, onChange: (value: string) => void, label: string) => (
+    <TextInput
+      style={styles.timeInput}
+      value={value}
+      onChangeText={onChange}
+      placeholder="HH:mm"
+      placeholderTextColor="#94a3b8"
+      keyboardType="numbers-and-punctuation"
+      maxLength={5}
+      accessibilityLabel={label}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient
+        colors={['#14b8a6', '#059669']}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+        style={[styles.header, { paddingHorizontal: screenWidth * 0.06 }]}
+      >
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} accessibilityLabel="Go back">
+          <MaterialIcons name="arrow-back" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Availability</Text>
+        <View style={styles.headerButton} />
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ paddingBottom: 140 }}
+      >
+        {/* Timezone */}
+        <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="public" size={20} color="#14b8a6" />
+            <Text style={styles.sectionTitle}>Timezone</Text>
+          </View>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.dateInput}
+              value={availability.timezone || ''}
+              onChangeText={value => setAvailability(prev => ({ ...prev, timezone: value }))}
+              placeholder="e.g. Europe/London"
+              placeholderTextColor="#94a3b8"
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessibilityLabel="Timezone for your working hours"
+            />
+          </View>
+          {availability.timezone !== getDeviceTimeZone() && (
+            <TouchableOpacity
+              style={[styles.addButton, styles.windowHint]}
+              onPress={() => setAvailability(prev => ({ ...prev, timezone: getDeviceTimeZone() }))}
+            >
+              <MaterialIcons name="my-location" size={16} color="#14b8a6" />
+              <Text style={styles.addButtonText}>Use this device's timezone ({getDeviceTimeZone()})</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={[styles.unavailableText, styles.windowHint]}>
+            Your hours and time off below are in this timezone. Clients see open times converted to their own.
+          </Text>
+        </View>
+
+        {/* Weekly Hours */}
+        {WEEKDAYS.map(({ day, label }) => {
+          const schedule = getScheduleForDay(availability, day);
+
+          return (
+            <View key={day} style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}>
+              <View style={styles.dayHeader}>
+                <Text style={styles.sectionTitle}>{label}</Text>
+                <Switch
+                  value={!!schedule}
+                  onValueChange={enabled => toggleDay(day, enabled)}
+                  trackColor={{ false: '#e2e8f0', true: '#99f6e4' }}
+                  thumbColor={schedule ? '#14b8a6' : '#f8fafc'}
+                  accessibilityLabel={`Available on ${label}`}
+                />
+              </View>
+
+              {!schedule ? (
+                <Text style={styles.unavailableText}>Not available</Text>
+              ) : (
+                <>
+                  {schedule.working_hours.map((block, blockIndex) => (
+                    <View key={`hours-${blockIndex}`} style={styles.blockCard}>
+                      <View style={styles.rangeRow}>
+                        {renderTimeInput(block.start, start => updateSchedule(day, s => ({
+                          ...s,
+                          working_hours: s.working_hours.map((b, i) => i === blockIndex ? { ...b, start } : b),
+                        })), `${label} start time`)}
+                        <Text style={styles.rangeSeparator}>to</Text>
+                        {renderTimeInput(block.end, end => updateSchedule(day, s => ({
+                          ...s,
+                          working_hours: s.working_hours.map((b, i) => i === blockIndex ? { ...b, end } : b),
+                        })), `${label} end time`)}
+                        <TouchableOpacity
+                          style={styles.removeButton}
+                          onPress={() => updateSchedule(day, s => ({
+                            ...s,
+                            working_hours: s.working_hours.filter((_, i) => i !== blockIndex),
+                          }))}
+                          accessibilityLabel="Remove working hours"
+                        >
+                          <MaterialIcons name="close" size={18} color="#ef4444" />
+                        </TouchableOpacity>
+                      </View>
+                      <View style={styles.lengthRow}>
+                        {SESSION_LENGTHS.map(length => {
+                          const selected = block.session_lengths.includes(length);
+                          return (
+                            <TouchableOpacity
+                              key={length}
+                              style={[styles.lengthChip, selected && styles.selectedLengthChip]}
+                              onPress={() => toggleSessionLength(day, blockIndex, length)}
+                              accessibilityLabel={`${length} minute sessions`}
+                            >
+                              <Text style={[styles.lengthChipText, selected && styles.selectedLengthChipText]}>
+                                {length} min
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  ))}
+
+                  {schedule.breaks.map((breakRange, breakIndex) => (
+                    <View key={`break-${breakIndex}`} style={styles.rangeRow}>
+                      <MaterialIcons name="free-breakfast" size={18} color="#64748b" />
+                      {renderTimeInput(breakRange.start, start => updateSchedule(day, s => ({
+                        ...s,
+                        breaks: s.breaks.map((b, i) => i === breakIndex ? { ...b, start } : b),
+                      })), `${label} break start`)}
+                      <Text style={styles.rangeSeparator}>to</Text>
+                      {renderTimeInput(breakRange.end, end => updateSchedule(day, s => ({
+                        ...s,
+                        breaks: s.breaks.map((b, i) => i === breakIndex ? { ...b, end } : b),
+                      })), `${label} break end`)}
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => updateSchedule(day, s => ({
+                          ...s,
+                          breaks: s.breaks.filter((_, i) => i !== breakIndex),
+                        }))}
+                        accessibilityLabel="Remove break"
+                      >
+                        <MaterialIcons name="close" size={18} color="#ef4444" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+
+                  <View style={styles.addRow}>
+                    <TouchableOpacity
+                      style={styles.addButton}
+                      onPress={() => updateSchedule(day, s => ({
+                        ...s,
+                        working_hours: [...s.working_hours, { start: '', end: '', session_lengths: [...SESSION_LENGTHS] }],
+                      }))}
+                    >
+                      <MaterialIcons name="add" size={16} color="#14b8a6" />
+                      <Text style={styles.addButtonText}>Add hours</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.addButton}
+                      onPress={() => updateSchedule(day, s => ({
+                        ...s,
+                        breaks: [...s.breaks, { start: '', end: '' }],
+                      }))}
+                    >
+                      <MaterialIcons name="add" size={16} color="#14b8a6" />
+                      <Text style={styles.addButtonText}>Add break</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+            </View>
+          );
+        })}
+
+        {/* Time Off */}
+        <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="event-busy" size={20} color="#14b8a6" />
+            <Text style={styles.sectionTitle}>Time Off</Text>
+          </View>
+
+          {availability.time_off.length === 0 && (
+            <Text style={styles.unavailableText}>No time off scheduled</Text>
+          )}
+
+          {availability.time_off.map((timeOff, index) => (
+            <View key={`time-off-${index}`} style={styles.blockCard}>
+              <View style={styles.rangeRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={timeOff.start_date}
+                  onChangeText={start_date => updateTimeOff(index, { start_date })}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#94a3b8"
+                  maxLength={10}
+                  accessibilityLabel="Time off start date"
+                />
+                <Text style={styles.rangeSeparator}>to</Text>
+                <TextInput
+                  style={styles.dateInput}
+                  value={timeOff.end_date}
+                  onChangeText={end_date => updateTimeOff(index, { end_date })}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#94a3b8"
+                  maxLength={10}
+                  accessibilityLabel="Time off end date"
+                />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setAvailability(prev => ({
+                    ...prev,
+                    time_off: prev.time_off.filter((_, i) => i !== index),
+                  }))}
+                  accessibilityLabel="Remove time off"
+                >
+                  <MaterialIcons name="close" size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+              <TextInput
+                style={styles.reasonInput}
+                value={timeOff.reason || ''}
+                onChangeText={reason => updateTimeOff(index, { reason })}
+                placeholder="Reason (optional)"
+                placeholderTextColor="#94a3b8"
+                accessibilityLabel="Time off reason"
+              />
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => setAvailability(prev => ({
+              ...prev,
+              time_off: [...prev.time_off, { start_date: '', end_date: '' }],
+            }))}
+          >
+            <MaterialIcons name="add" size={16} color="#14b8a6" />
+            <Text style={styles.addButtonText}>Add time off</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Cancellation Policy */}
+        <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="event-available" size={20} color="#14b8a6" />
+            <Text style={styles.sectionTitle}>Cancellation Window</Text>
+          </View>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.timeInput}
+              value={cancellationWindow}
+              onChangeText={setCancellationWindow}
+              keyboardType="number-pad"
+              maxLength={3}
+              accessibilityLabel="Cancellation window in hours"
+            />
+            <Text style={styles.rangeSeparator}>hours before a session</Text>
+          </View>
+          <Text style={[styles.unavailableText, styles.windowHint]}>
+            Clients can cancel or reschedule until this many hours before the session starts.
+          </Text>
+        </View>
+      </ScrollView>
+
+      {/* Save Button */}
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={saving}
+          activeOpacity={0.9}
+          accessibilityLabel="Save availability"
+        >
+          {saving ? (
+            <ActivityIndicator color="#14b8a6" />
+          ) : (
+            <>
+              <MaterialIcons name="check-circle" size={20} color="#14b8a6" />
+              <Text style={styles.saveButtonText}>Save Availability</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: 16,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#ffffff',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.05,
+    shadowRadius: 12,
+    elevation: 3,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1e293b',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  unavailableText: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#94a3b8',
+  },
+  windowHint: {
+    marginTop: 12,
+  },
+  blockCard: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rangeSeparator: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+  },
+  timeInput: {
+    width: 72,
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'System',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'System',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  reasonInput: {
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#1e293b',
+  },
+  removeButton: {
+    marginLeft: 'auto',
+    padding: 6,
+  },
+  lengthRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  lengthChip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  selectedLengthChip: {
+    backgroundColor: '#f0fdf4',
+    borderColor: '#14b8a6',
+  },
+  lengthChipText: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+  },
+  selectedLengthChipText: {
+    color: '#14b8a6',
+    fontWeight: '400',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#14b8a6',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    borderColor: '#14b8a6',
+    borderWidth: 1.5,
+    borderRadius: 12,
+    padding: 16,
+    gap: 10,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#14b8a6',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+});
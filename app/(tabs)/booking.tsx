@@ -1,15 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Image, ActivityIndicator, Dimensions, useWindowDimensions, PixelRatio, Platform } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Image, ActivityIndicator, Dimensions, useWindowDimensions, PixelRatio, Platform, Switch } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { getAvailabilityTimeZone, normalizeAvailability, parseDateKey, toDateKey } from '@/lib/availability';
+import { formatInTimeZone, getDeviceTimeZone, getTimeZoneLabel, isSameWallClock } from '@/lib/timezone';
+import { AppointmentRecord, bookAppointment, BookingError, rescheduleAppointment } from '@/lib/appointments';
+import {
+  BusyInterval,
+  fetchTherapistBusyIntervals,
+  generateAvailableSlots,
+  getSessionLengthsForDate,
+  isSlotFree,
+} from '@/lib/booking-slots';
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_INTERVALS,
+  SeriesInterval,
+  bookAppointmentSeries,
+  checkOccurrences,
+  fetchSeriesOccurrences,
+  generateOccurrences,
+  getOccurrenceRange,
+  rescheduleAppointmentSeries,
+  shiftOccurrences,
+} from '@/lib/appointment-series';
+import { WaitlistEntry, fetchWaitlistEntries, joinWaitlist, withdrawWaitlistEntry } from '@/lib/waitlist';
+import JoinWaitlistModal, { WaitlistRequest } from '@/components/JoinWaitlistModal';
 
-type TimeSlot = {
-  time: string;
-  available: boolean;
-};
+// How often the screen re-checks the therapist's calendar while it is open
+const BUSY_REFRESH_INTERVAL_MS = 30 * 1000;
+const BOOKING_WINDOW_DAYS = 14;
 
 type TherapistData = {
   id: string;
@@ -20,6 +43,7 @@ type TherapistData = {
   experience_years: number;
   hourly_rate: string;
   is_approved: boolean;
+  availability?: unknown;
   users: {
     id: string;
     name: string;
@@ -27,6 +51,7 @@ type TherapistData = {
     photo_url: string | null;
     location: string | null;
     phone: string | null;
+    timezone?: string | null;
   } | null;
 };
 
@@ -37,6 +62,19 @@ const scaleFont = (size: number) => {
   return Platform.OS === 'ios' ? Math.round(PixelRatio.roundToNearestPixel(newSize)) : Math.round(PixelRatio.roundToNearestPixel(newSize)) - 2;
 };
 
+const generateDateOptions = () => {
+  const dates = [];
+  const today = new Date();
+  
+  for (let i = 0; i < BOOKING_WINDOW_DAYS; i++) {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    dates.push(date);
+  }
+  
+  return dates;
+};
+
 export default function BookingScreen() {
   const params = useLocalSearchParams();
   const { userProfile } = useAuth();
@@ -50,18 +88,25 @@ export default function BookingScreen() {
   const [error, setError] = useState<string | null>(null);
   const { width: screenWidth } = useWindowDimensions();
   const [imageError, setImageError] = useState(false);
-
-  const timeSlots: TimeSlot[] = [
-    { time: '09:00', available: true },
-    { time: '10:00', available: true },
-    { time: '11:00', available: false },
-    { time: '12:00', available: true },
-    { time: '13:00', available: false },
-    { time: '14:00', available: true },
-    { time: '15:00', available: true },
-    { time: '16:00', available: true },
-    { time: '17:00', available: false },
-  ];
+  // Calendar as it was when the screen loaded; decides which slots are listed
+  const [loadedBusy, setLoadedBusy] = useState<BusyInterval[] | null>(null);
+  // Latest calendar; slots taken since load stay listed but are greyed out
+  const [currentBusy, setCurrentBusy] = useState<BusyInterval[]>([]);
+  // Set when the screen was opened to move an existing appointment
+  const [rescheduling, setRescheduling] = useState<AppointmentRecord | null>(null);
+  // Start times of the occurrences that move with it when rescheduling the rest of a series
+  const [seriesToMove, setSeriesToMove] = useState<Date[] | null>(null);
+  const [repeat, setRepeat] = useState(false);
+  const [intervalWeeks, setIntervalWeeks] = useState<SeriesInterval>(1);
+  const [endMode, setEndMode] = useState<'count' | 'date'>('count');
+  const [occurrenceCountText, setOccurrenceCountText] = useState('6');
+  const [endsOnText, setEndsOnText] = useState('');
+  // Calendar across the whole series range; null while it loads
+  const [seriesBusy, setSeriesBusy] = useState<BusyInterval[] | null>(null);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [waitlistModalVisible, setWaitlistModalVisible] = useState(false);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const dateOptions = useMemo(() => generateDateOptions(), []);
 
   const durations = [
     { value: 30, label: '30 min' },
@@ -70,7 +115,9 @@ export default function BookingScreen() {
   ];
 
   useEffect(() => {
-    if (params.therapist) {
+    if (params.rescheduleId) {
+      loadRescheduleTarget(params.rescheduleId as string);
+    } else if (params.therapist) {
       try {
         setTherapist(JSON.parse(params.therapist as string));
         setLoading(false);
@@ -84,9 +131,192 @@ export default function BookingScreen() {
       setError('No therapist data provided.');
       setLoading(false);
     }
-  }, [params.therapist, params.id]);
+  }, [params.therapist, params.id, params.rescheduleId, params.rescheduleScope]);
+
+  const availability = useMemo(() => {
+    const normalized = normalizeAvailability(therapist?.availability);
+    // Older schedules carry no zone; the therapist's own zone is the best reading of them
+    return normalized.timezone || !therapist?.users?.timezone
+      ? normalized
+      : { ...normalized, timezone: therapist.users.timezone };
+  }, [therapist]);
+
+  const viewerTimeZone = getDeviceTimeZone();
+  const therapistTimeZone = getAvailabilityTimeZone(availability);
+  const showTherapistTime = !isSameWallClock(selectedDate, viewerTimeZone, therapistTimeZone);
+
+  const movingStarts = useMemo(() => {
+    if (!rescheduling) return new Set<number>();
+    const starts = seriesToMove || [new Date(rescheduling.scheduled_at)];
+    return new Set(starts.map(start => start.getTime()));
+  }, [rescheduling, seriesToMove]);
+
+  const timeSlots = useMemo(() => {
+    if (!loadedBusy) return [];
+
+    // The appointments being moved must not block their own new times
+    const withoutRescheduled = (busy: BusyInterval[]) =>
+      busy.filter(interval => !movingStarts.has(new Date(interval.scheduled_at).getTime()));
+
+    return generateAvailableSlots({
+      availability,
+      date: selectedDate,
+      duration,
+      busy: withoutRescheduled(loadedBusy),
+    }).map(slot => ({
+      ...slot,
+      available: isSlotFree(slot.start, duration, withoutRescheduled(currentBusy)),
+    }));
+  }, [availability, selectedDate, duration, loadedBusy, currentBusy, movingStarts]);
+
+  const selectedSlot = timeSlots.find(slot => slot.time === selectedTime && slot.available) || null;
+
+  // Occurrences the confirm button would book or move, or null for a single session
+  const seriesStarts = useMemo(() => {
+    if (!selectedSlot) return null;
+
+    if (rescheduling) {
+      return seriesToMove
+        ? shiftOccurrences(seriesToMove, new Date(rescheduling.scheduled_at), selectedSlot.start)
+        : null;
+    }
+
+    if (!repeat) return null;
+
+    const count = parseInt(occurrenceCountText, 10);
+    const endsOn = parseDateKey(endsOnText);
+    if (endMode === 'count' && !(count >= 2)) return [];
+    if (endMode === 'date' && !endsOn) return [];
+
+    return generateOccurrences(selectedSlot.start, endMode === 'count'
+      ? { intervalWeeks, occurrenceCount: Math.min(count, MAX_SERIES_OCCURRENCES) }
+      : { intervalWeeks, endsOn: endsOn! });
+  }, [selectedSlot?.start.getTime(), rescheduling, seriesToMove, repeat, intervalWeeks, endMode, occurrenceCountText, endsOnText]);
+
+  const seriesRangeKey = seriesStarts && seriesStarts.length > 0
+    ? `${seriesStarts[0].getTime()}-${seriesStarts[seriesStarts.length - 1].getTime()}`
+    : '';
+
+  useEffect(() => {
+    if (!therapist?.user_id || !seriesStarts) return;
+    const range = getOccurrenceRange(seriesStarts, duration);
+    if (!range) return;
+
+    let cancelled = false;
+    setSeriesBusy(null);
+    fetchTherapistBusyIntervals(therapist.user_id, range[0], range[1])
+      .then(busy => {
+        if (!cancelled) setSeriesBusy(busy.filter(interval => !movingStarts.has(new Date(interval.scheduled_at).getTime())));
+      })
+      .catch(error => {
+        console.error('Error loading series schedule:', error);
+        if (!cancelled) setSeriesBusy([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [therapist?.user_id, seriesRangeKey, duration]);
+
+  const seriesOccurrences = useMemo(() => {
+    if (!seriesStarts || !seriesBusy) return null;
+    return checkOccurrences({ availability, starts: seriesStarts, duration, busy: seriesBusy });
+  }, [seriesStarts, seriesBusy, availability, duration]);
+
+  const seriesConflicts = seriesOccurrences?.filter(occurrence => occurrence.conflict).length ?? 0;
+  const seriesReady = !seriesStarts || (seriesStarts.length >= 2 && !!seriesOccurrences && seriesConflicts === 0);
+
+  const offeredDurations = useMemo(
+    () => getSessionLengthsForDate(availability, selectedDate),
+    [availability, selectedDate]
+  );
+
+  // The therapist works that day but every slot is gone
+  const fullyBooked = !!loadedBusy && offeredDurations.length > 0 && !timeSlots.some(slot => slot.available);
+
+  useEffect(() => {
+    if (!therapist?.user_id || !userProfile?.id || params.rescheduleId) return;
+    loadWaitlistEntries();
+  }, [therapist?.user_id, userProfile?.id, params.rescheduleId]);
+
+  useEffect(() => {
+    if (!therapist?.user_id) return;
+
+    loadBusyIntervals(true);
+    const interval = setInterval(() => loadBusyIntervals(false), BUSY_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [therapist?.user_id]);
+
+  // Fall back to a session length the therapist actually offers on the chosen date
+  useEffect(() => {
+    if (rescheduling) return;
+    if (offeredDurations.length > 0 && !offeredDurations.includes(duration)) {
+      setDuration(offeredDurations[0]);
+    }
+  }, [offeredDurations]);
+
+  // Drop the selection if that slot disappears or gets taken
+  useEffect(() => {
+    if (selectedTime && !timeSlots.some(slot => slot.time === selectedTime && slot.available)) {
+      setSelectedTime('');
+    }
+  }, [timeSlots]);
+
+  const loadBusyIntervals = async (initial: boolean) => {
+    if (!therapist?.user_id) return;
 
-  const loadTherapist = async (id: string) => {
+    try {
+      const rangeStart = new Date(dateOptions[0]);
+      rangeStart.setHours(0, 0, 0, 0);
+      const rangeEnd = new Date(dateOptions[dateOptions.length - 1]);
+      rangeEnd.setHours(23, 59, 59, 999);
+
+      const busy = await fetchTherapistBusyIntervals(therapist.user_id, rangeStart, rangeEnd);
+      if (initial) {
+        setLoadedBusy(busy);
+      }
+      setCurrentBusy(busy);
+    } catch (error) {
+      console.error('Error loading therapist schedule:', error);
+      if (initial) {
+        setLoadedBusy([]);
+      }
+    }
+  };
+
+  const loadRescheduleTarget = async (appointmentId: string) => {
+    try {
+      const { data: appointment, error: appointmentError } = await supabase
+        .from('appointments')
+        .select('*')
+        .eq('id', appointmentId)
+        .single();
+      if (appointmentError || !appointment) {
+        console.error('❌ Appointment fetch error:', appointmentError);
+        setError('Appointment not found.');
+        setLoading(false);
+        return;
+      }
+      if (appointment.status !== 'booked') {
+        setError('Only upcoming sessions can be rescheduled.');
+        setLoading(false);
+        return;
+      }
+      if (params.rescheduleScope === 'series' && appointment.series_id) {
+        const occurrences = await fetchSeriesOccurrences(appointment.series_id, new Date(appointment.scheduled_at));
+        setSeriesToMove(occurrences.map(occurrence => new Date(occurrence.scheduled_at)));
+      }
+      setRescheduling(appointment as AppointmentRecord);
+      setDuration(appointment.duration);
+      setNotes(appointment.notes || '');
+      await loadTherapist(appointment.therapist_id, 'user_id');
+    } catch (error) {
+      console.error('💥 Error loading appointment:', error);
+      setError('Failed to load appointment.');
+      setLoading(false);
+    }
+  };
+
+  const loadTherapist = async (id: string, column: 'id' | 'user_id' = 'id') => {
     try {
       console.log('🔍 Loading therapist with ID:', id);
       const { data: therapistData, error: therapistError } = await supabase
@@ -99,10 +329,11 @@ export default function BookingScreen() {
             email,
             photo_url,
             location,
-            phone
+            phone,
+            timezone
           )
         `)
-        .eq('id', id)
+        .eq(column, id)
         .single();
       if (therapistError) {
         console.error('❌ Therapist fetch error:', therapistError);
@@ -118,6 +349,53 @@ export default function BookingScreen() {
     }
   };
 
+  const loadWaitlistEntries = async () => {
+    if (!therapist?.user_id || !userProfile?.id) return;
+    try {
+      setWaitlistEntries(await fetchWaitlistEntries(userProfile.id, therapist.user_id));
+    } catch (error) {
+      console.error('Error loading waitlist entries:', error);
+    }
+  };
+
+  const handleJoinWaitlist = async (request: WaitlistRequest) => {
+    if (!userProfile?.id || !therapist?.user_id) {
+      Alert.alert('Authentication Required', 'Please sign in to join the waitlist');
+      return;
+    }
+
+    setJoiningWaitlist(true);
+    try {
+      await joinWaitlist({
+        clientId: userProfile.id,
+        therapistUserId: therapist.user_id,
+        ...request,
+        duration,
+      });
+      setWaitlistModalVisible(false);
+      Alert.alert(
+        "You're on the Waitlist",
+        `If a session with ${therapist.users?.name || 'your therapist'} opens up, you'll see an offer on your Appointments page. Claim it quickly: the first person to claim an opening gets it.`
+      );
+      loadWaitlistEntries();
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      Alert.alert('Error', 'Could not join the waitlist. Please try again.');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    try {
+      await withdrawWaitlistEntry(entryId);
+      setWaitlistEntries(prev => prev.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      Alert.alert('Error', 'Could not leave the waitlist. Please try again.');
+    }
+  };
+
   const handleBookAppointment = async () => {
     if (!selectedTime) {
       Alert.alert('Select Time', 'Please select a time slot for your appointment');
@@ -134,53 +412,55 @@ export default function BookingScreen() {
       return;
     }
 
+    const slot = selectedSlot;
+    if (!slot) {
+      Alert.alert('Select Time', 'Please select an available time slot');
+      return;
+    }
+
+    if (!seriesReady) {
+      Alert.alert('Check Series', 'Some sessions in this series cannot be booked. Adjust the time or the repeat settings.');
+      return;
+    }
+
     setBooking(true);
-    let appointmentDateTime: Date;
-    let hours: string, minutes: string;
-    let appointmentData: any, appointmentError: any;
     try {
-      // If therapist was passed via params (mock/demo mode), mock the booking
-      if (!therapist.users) {
-        // Mock success
+      if (rescheduling && seriesToMove) {
+        const moved = await rescheduleAppointmentSeries(rescheduling.id, slot.start);
+
         Alert.alert(
-          'Appointment Booked!',
-          `Your session with ${(therapist as any).name} is confirmed for ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
-          [
-            {
-              text: 'View Appointments',
-              onPress: () => router.push('/(tabs)/appointments')
-            },
-            {
-              text: 'OK',
-              onPress: () => router.back()
-            }
-          ]
+          'Series Rescheduled',
+          `${moved.length} sessions with ${therapist.users?.name || 'your therapist'} now start ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)/appointments') }]
         );
-      } else {
-        // Real backend booking
-        appointmentDateTime = new Date(selectedDate);
-        [hours, minutes] = selectedTime.split(':');
-        appointmentDateTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-
-        ({ data: appointmentData, error: appointmentError } = await supabase
-          .from('appointments')
-          .insert({
-            client_id: userProfile.id,
-            therapist_id: therapist.user_id,
-            scheduled_at: appointmentDateTime.toISOString(),
-            duration: duration,
-            status: 'booked',
-            notes: notes || null,
-            meeting_link: null,
-          })
-          .select()
-          .single());
-
-        if (appointmentError) throw appointmentError;
+        return;
+      }
+
+      if (rescheduling) {
+        await rescheduleAppointment(rescheduling.id, slot.start);
+
+        Alert.alert(
+          'Session Rescheduled',
+          `Your session with ${therapist.users?.name || 'your therapist'} has moved to ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)/appointments') }]
+        );
+        return;
+      }
+
+      if (seriesStarts) {
+        const booked = await bookAppointmentSeries({
+          therapistUserId: therapist.user_id,
+          firstStart: slot.start,
+          duration,
+          rule: endMode === 'count'
+            ? { intervalWeeks, occurrenceCount: Math.min(parseInt(occurrenceCountText, 10), MAX_SERIES_OCCURRENCES) }
+            : { intervalWeeks, endsOn: parseDateKey(endsOnText)! },
+          notes,
+        });
 
         Alert.alert(
-          'Appointment Booked!', 
-          `Your session with ${therapist.users?.name} is confirmed for ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
+          'Series Booked!',
+          `${booked.length} sessions with ${therapist.users?.name || 'your therapist'} are confirmed, starting ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
           [
             {
               text: 'View Appointments',
@@ -192,11 +472,43 @@ export default function BookingScreen() {
             }
           ]
         );
+        return;
       }
+
+      await bookAppointment({
+        therapistUserId: therapist.user_id,
+        scheduledAt: slot.start,
+        duration,
+        notes,
+      });
+
+      Alert.alert(
+        'Appointment Booked!', 
+        `Your session with ${therapist.users?.name || 'your therapist'} is confirmed for ${selectedDate.toLocaleDateString()} at ${selectedTime}.`,
+        [
+          {
+            text: 'View Appointments',
+            onPress: () => router.push('/(tabs)/appointments')
+          },
+          {
+            text: 'OK',
+            onPress: () => router.back()
+          }
+        ]
+      );
     } catch (error: any) {
       console.error('Booking error:', error);
+
+      if (error instanceof BookingError && (error.code === 'slot_taken' || error.code === 'series_conflict')) {
+        // Someone else got there first: refresh the calendar so the slot greys out
+        setSelectedTime('');
+        loadBusyIntervals(false);
+        Alert.alert('Slot Just Taken', error.message, [{ text: 'Pick Another' }]);
+        return;
+      }
+
       Alert.alert(
-        'Booking Failed', 
+        rescheduling ? 'Reschedule Failed' : 'Booking Failed', 
         error.message || 'An error occurred. Please try again.',
         [{ text: 'OK' }]
       );
@@ -205,19 +517,6 @@ export default function BookingScreen() {
     }
   };
 
-  const generateDateOptions = () => {
-    const dates = [];
-    const today = new Date();
-    
-    for (let i = 0; i < 14; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      dates.push(date);
-    }
-    
-    return dates;
-  };
-
   const formatDate = (date: Date) => {
     const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -267,7 +566,7 @@ export default function BookingScreen() {
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7} accessibilityLabel="Go back" hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
           <MaterialIcons name="arrow-back" size={24} color="#ffffff" />
         </TouchableOpacity>
-        <Text style={[styles.headerTitle, { fontSize: scaleFont(18) }]}>Book Session</Text>
+        <Text style={[styles.headerTitle, { fontSize: scaleFont(18) }]}>{rescheduling ? (seriesToMove ? 'Reschedule Series' : 'Reschedule Session') : 'Book Session'}</Text>
         <View style={styles.headerButton} />
       </LinearGradient>
 
@@ -320,7 +619,7 @@ export default function BookingScreen() {
             showsHorizontalScrollIndicator={false} 
             contentContainerStyle={styles.dateScrollContent}
           >
-            {generateDateOptions().map((date, index) => {
+            {dateOptions.map((date, index) => {
               const dateInfo = formatDate(date);
               const isSelected = selectedDate.toDateString() === date.toDateString();
               return (
@@ -347,6 +646,20 @@ export default function BookingScreen() {
             <MaterialIcons name="schedule" size={20} color="#14b8a6" />
             <Text style={[styles.sectionTitle, { fontSize: scaleFont(16) }]}>Select Time</Text>
           </View>
+          {showTherapistTime && (
+            <Text style={[styles.timeZoneNote, { fontSize: scaleFont(13) }]}>
+              Times are in your timezone ({getTimeZoneLabel(selectedDate, viewerTimeZone)}). {therapist.users?.name || 'Your therapist'} is on {getTimeZoneLabel(selectedDate, therapistTimeZone)}.
+            </Text>
+          )}
+          {!loadedBusy ? (
+            <ActivityIndicator color="#14b8a6" />
+          ) : timeSlots.length === 0 ? (
+            <Text style={[styles.noSlotsText, { fontSize: scaleFont(14) }]}>
+              {offeredDurations.length === 0
+                ? 'This therapist is not available on this date.'
+                : 'No open times for this session length. Try another date or duration.'}
+            </Text>
+          ) : (
           <View style={styles.timeGrid}>
             {timeSlots.map((slot, index) => (
               <TouchableOpacity
@@ -359,7 +672,7 @@ export default function BookingScreen() {
                 onPress={() => slot.available && setSelectedTime(slot.time)}
                 disabled={!slot.available}
                 activeOpacity={0.7}
-                accessibilityLabel={slot.available ? `Select time ${slot.time}` : `Time ${slot.time} is booked`}
+                accessibilityLabel={slot.available ? `Select time ${slot.time}` : `Time ${slot.time} was just taken`}
                 hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
               >
                 <Text style={[
@@ -370,12 +683,41 @@ export default function BookingScreen() {
                 ]}>
                   {slot.time}
                 </Text>
+                {showTherapistTime && slot.available && (
+                  <Text style={[styles.slotZoneText, selectedTime === slot.time && styles.selectedTimeText]}>{slot.therapistTime} theirs</Text>
+                )}
                 {!slot.available && (
-                  <Text style={styles.slotStatusText}>Booked</Text>
+                  <Text style={styles.slotStatusText}>Taken</Text>
                 )}
               </TouchableOpacity>
             ))}
           </View>
+          )}
+
+          {!rescheduling && fullyBooked && (
+            <TouchableOpacity
+              style={styles.waitlistButton}
+              onPress={() => setWaitlistModalVisible(true)}
+              accessibilityLabel="Join the waitlist"
+            >
+              <MaterialIcons name="notifications-active" size={18} color="#14b8a6" />
+              <Text style={[styles.waitlistButtonText, { fontSize: scaleFont(14) }]}>Fully booked? Join the waitlist</Text>
+            </TouchableOpacity>
+          )}
+
+          {!rescheduling && waitlistEntries.map(entry => (
+            <View key={entry.id} style={styles.waitlistEntry}>
+              <Text style={[styles.waitlistEntryText, { fontSize: scaleFont(13) }]}>
+                On the waitlist for {entry.start_date === entry.end_date ? entry.start_date : `${entry.start_date} to ${entry.end_date}`}
+                {entry.preferred_start || entry.preferred_end
+                  ? ` (${entry.preferred_start?.slice(0, 5) || 'any time'} to ${entry.preferred_end?.slice(0, 5) || 'any time'})`
+                  : ''}
+              </Text>
+              <TouchableOpacity onPress={() => handleLeaveWaitlist(entry.id)} accessibilityLabel="Leave the waitlist">
+                <Text style={[styles.waitlistLeaveText, { fontSize: scaleFont(13) }]}>Leave</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
         </View>
 
         {/* Duration Selection */}
@@ -385,7 +727,10 @@ export default function BookingScreen() {
             <Text style={[styles.sectionTitle, { fontSize: scaleFont(16) }]}>Session Duration</Text>
           </View>
           <View style={styles.durationContainer}>
-            {durations.map((option) => (
+            {durations.filter(option => rescheduling
+              ? option.value === rescheduling.duration
+              : offeredDurations.length === 0 || offeredDurations.includes(option.value)
+            ).map((option) => (
               <TouchableOpacity
                 key={option.value}
                 style={[
@@ -414,7 +759,113 @@ export default function BookingScreen() {
           </View>
         </View>
 
+        {/* Repeat */}
+        {!rescheduling && (
+        <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}> 
+          <View style={[styles.sectionHeader, styles.repeatHeader]}>
+            <View style={styles.repeatTitle}>
+              <MaterialIcons name="repeat" size={20} color="#14b8a6" />
+              <Text style={[styles.sectionTitle, { fontSize: scaleFont(16) }]}>Repeat</Text>
+            </View>
+            <Switch
+              value={repeat}
+              onValueChange={setRepeat}
+              trackColor={{ false: '#e2e8f0', true: '#99f6e4' }}
+              thumbColor={repeat ? '#14b8a6' : '#f8fafc'}
+              accessibilityLabel="Repeat this session"
+            />
+          </View>
+          {repeat && (
+            <>
+              <View style={styles.chipRow}>
+                {SERIES_INTERVALS.map(weeks => (
+                  <TouchableOpacity
+                    key={weeks}
+                    style={[styles.chip, intervalWeeks === weeks && styles.selectedChip]}
+                    onPress={() => setIntervalWeeks(weeks)}
+                    accessibilityLabel={`Repeat every ${weeks} weeks`}
+                  >
+                    <Text style={[styles.chipText, intervalWeeks === weeks && styles.selectedChipText]}>
+                      {weeks === 1 ? 'Weekly' : `Every ${weeks} weeks`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.chipRow}>
+                <TouchableOpacity
+                  style={[styles.chip, endMode === 'count' && styles.selectedChip]}
+                  onPress={() => setEndMode('count')}
+                >
+                  <Text style={[styles.chipText, endMode === 'count' && styles.selectedChipText]}>After</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.chip, endMode === 'date' && styles.selectedChip]}
+                  onPress={() => setEndMode('date')}
+                >
+                  <Text style={[styles.chipText, endMode === 'date' && styles.selectedChipText]}>Until</Text>
+                </TouchableOpacity>
+                {endMode === 'count' ? (
+                  <View style={styles.repeatEndRow}>
+                    <TextInput
+                      style={styles.repeatInput}
+                      value={occurrenceCountText}
+                      onChangeText={setOccurrenceCountText}
+                      keyboardType="number-pad"
+                      maxLength={2}
+                      accessibilityLabel="Number of sessions"
+                    />
+                    <Text style={styles.repeatEndText}>sessions</Text>
+                  </View>
+                ) : (
+                  <TextInput
+                    style={[styles.repeatInput, styles.repeatDateInput]}
+                    value={endsOnText}
+                    onChangeText={setEndsOnText}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#94a3b8"
+                    maxLength={10}
+                    accessibilityLabel="Last date of the series"
+                  />
+                )}
+              </View>
+              <Text style={styles.noSlotsText}>Up to {MAX_SERIES_OCCURRENCES} sessions per series.</Text>
+            </>
+          )}
+        </View>
+        )}
+
+        {/* Series Preview */}
+        {seriesStarts && selectedSlot && (
+        <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}> 
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="event-note" size={20} color="#14b8a6" />
+            <Text style={[styles.sectionTitle, { fontSize: scaleFont(16) }]}>
+              {rescheduling ? 'Sessions Moving' : 'Sessions in Series'}
+            </Text>
+          </View>
+          {seriesStarts.length < 2 ? (
+            <Text style={[styles.noSlotsText, { fontSize: scaleFont(14) }]}>
+              Choose an end that gives at least 2 sessions.
+            </Text>
+          ) : !seriesOccurrences ? (
+            <ActivityIndicator color="#14b8a6" />
+          ) : (
+            seriesOccurrences.map(occurrence => (
+              <View key={occurrence.start.getTime()} style={styles.occurrenceRow}>
+                <Text style={[styles.occurrenceText, !!occurrence.conflict && styles.occurrenceConflictText]}>
+                  {occurrence.start.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </Text>
+                <Text style={[styles.occurrenceStatus, !!occurrence.conflict && styles.occurrenceConflictText]}>
+                  {occurrence.conflict === 'unavailable' ? 'Therapist unavailable' : occurrence.conflict === 'taken' ? 'Already booked' : 'Available'}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+        )}
+
         {/* Notes */}
+        {!rescheduling && (
         <View style={[styles.section, { marginHorizontal: screenWidth * 0.04 }]}> 
           <View style={styles.sectionHeader}>
             <MaterialIcons name="person" size={20} color="#14b8a6" />
@@ -432,10 +883,19 @@ export default function BookingScreen() {
             accessibilityLabel="Additional notes"
           />
         </View>
+        )}
 
         {/* Summary */}
         <View style={[styles.summaryCard, { marginHorizontal: screenWidth * 0.04 }]}> 
-          <Text style={[styles.summaryTitle, { fontSize: scaleFont(18) }]}>Booking Summary</Text>
+          <Text style={[styles.summaryTitle, { fontSize: scaleFont(18) }]}>{rescheduling ? 'Reschedule Summary' : 'Booking Summary'}</Text>
+          {rescheduling && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Currently</Text>
+              <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}>
+                {new Date(rescheduling.scheduled_at).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            </View>
+          )}
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Therapist</Text>
             <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}> {therapist.users?.name || 'Licensed Therapist'} </Text>
@@ -448,13 +908,27 @@ export default function BookingScreen() {
             <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Time</Text>
             <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}>{selectedTime || 'Not selected'}</Text>
           </View>
+          {selectedSlot && showTherapistTime && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Therapist's Time</Text>
+              <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}>
+                {formatInTimeZone(selectedSlot.start, therapistTimeZone, { weekday: 'short', hour: '2-digit', minute: '2-digit' })} {getTimeZoneLabel(selectedSlot.start, therapistTimeZone)}
+              </Text>
+            </View>
+          )}
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Duration</Text>
             <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}>{duration} min</Text>
           </View>
+          {seriesStarts && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { fontSize: scaleFont(14) }]}>Sessions</Text>
+              <Text style={[styles.summaryValue, { fontSize: scaleFont(14) }]}>{seriesStarts.length}</Text>
+            </View>
+          )}
           <View style={[styles.summaryRow, styles.totalRow]}>
             <Text style={[styles.totalLabel, { fontSize: scaleFont(16) }]}>Total</Text>
-            <Text style={[styles.totalValue, { fontSize: scaleFont(16) }]}>₵{(parseInt(therapist.hourly_rate) * (duration / 60)).toFixed(2)}</Text>
+            <Text style={[styles.totalValue, { fontSize: scaleFont(16) }]}>₵{(parseInt(therapist.hourly_rate) * (duration / 60) * (seriesStarts && !rescheduling ? seriesStarts.length : 1)).toFixed(2)}</Text>
           </View>
         </View>
       </ScrollView>
@@ -464,12 +938,12 @@ export default function BookingScreen() {
         <TouchableOpacity
           style={[
             styles.bookButtonFlat,
-            (!selectedTime || booking) && styles.disabledButton
+            (!selectedTime || booking || !seriesReady) && styles.disabledButton
           ]}
           onPress={handleBookAppointment}
-          disabled={!selectedTime || booking}
+          disabled={!selectedTime || booking || !seriesReady}
           activeOpacity={0.9}
-          accessibilityLabel="Confirm booking"
+          accessibilityLabel={rescheduling ? 'Confirm new time' : 'Confirm booking'}
           hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
         >
           {booking ? (
@@ -477,11 +951,23 @@ export default function BookingScreen() {
           ) : (
             <>
               <MaterialIcons name="check-circle" size={20} color="#14b8a6" />
-              <Text style={styles.bookButtonFlatText}>Confirm Booking</Text>
+              <Text style={styles.bookButtonFlatText}>
+                {rescheduling ? 'Confirm New Time' : seriesStarts ? `Book ${seriesStarts.length} Sessions` : 'Confirm Booking'}
+              </Text>
             </>
           )}
         </TouchableOpacity>
       </View>
+
+      <JoinWaitlistModal
+        visible={waitlistModalVisible}
+        therapistName={therapist.users?.name || 'your therapist'}
+        initialDate={toDateKey(selectedDate)}
+        duration={duration}
+        submitting={joiningWaitlist}
+        onConfirm={handleJoinWaitlist}
+        onDismiss={() => setWaitlistModalVisible(false)}
+      />
     </View>
   );
 }
@@ -762,6 +1248,149 @@ const styles = StyleSheet.create({
   disabledTimeText: {
     color: '#cbd5e1',
   },
+  noSlotsText: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  waitlistButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#14b8a6',
+    backgroundColor: '#f0fdfa',
+  },
+  waitlistButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#14b8a6',
+  },
+  waitlistEntry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 10,
+  },
+  waitlistEntryText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#475569',
+  },
+  waitlistLeaveText: {
+    fontSize: 13,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#EF4444',
+  },
+  repeatHeader: {
+    justifyContent: 'space-between',
+  },
+  repeatTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+  },
+  selectedChip: {
+    backgroundColor: '#14b8a6',
+    borderColor: '#14b8a6',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#475569',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  repeatEndRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  repeatInput: {
+    width: 56,
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    fontFamily: 'System',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  repeatDateInput: {
+    width: 120,
+  },
+  repeatEndText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  occurrenceText: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#1e293b',
+  },
+  occurrenceStatus: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#14b8a6',
+  },
+  occurrenceConflictText: {
+    color: '#ef4444',
+  },
+  slotZoneText: {
+    fontSize: 10,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+    marginTop: 2,
+  },
+  timeZoneNote: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748b',
+    marginBottom: 12,
+  },
   slotStatusText: {
     fontSize: 10,
     fontWeight: '300',
@@ -17,6 +17,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
 import { useMessaging } from '@/contexts/MessagingContext';
+import PresenceDot from '@/components/PresenceDot';
 import { LinearGradient } from 'expo-linear-gradient';
 import { FontAwesome, MaterialCommunityIcons } from '@expo/vector-icons';
 
@@ -193,37 +194,37 @@ export default function ClientManagementScreen() {
           >
             {/* Client Header with Profile Image */}
             <View style={styles.clientHeader}>
-              {client.photo_url ? (
-                <Image
-                  source={{ uri: client.photo_url }}
-                  style={[
-                    styles.clientAvatar, 
-                    { 
+              <View style={styles.clientAvatarContainer}>
+                {client.photo_url ? (
+                  <Image
+                    source={{ uri: client.photo_url }}
+                    style={{ 
                       width: screenWidth * 0.12,
                       height: screenWidth * 0.12,
                       borderRadius: screenWidth * 0.06,
                       borderWidth: 2,
                       borderColor: '#14b8a6',
-                    }
-                  ]}
-                />
-              ) : (
-                <LinearGradient
-                  colors={["#14b8a6", "#06b6d4"]}
-                  style={[
-                    styles.clientAvatarPlaceholder,
-                    { 
-                      width: screenWidth * 0.12,
-                      height: screenWidth * 0.12,
-                      borderRadius: screenWidth * 0.06,
-                      borderWidth: 2,
-                      borderColor: '#14b8a6',
-                    }
-                  ]}
-                >
-                  <Text style={[styles.clientInitials, { fontSize: scaleFont(20), fontWeight: '600' }]}> {client.name?.charAt(0) || 'C'} </Text>
-                </LinearGradient>
-              )}
+                    }}
+                  />
+                ) : (
+                  <LinearGradient
+                    colors={["#14b8a6", "#06b6d4"]}
+                    style={[
+                      styles.clientAvatarPlaceholder,
+                      { 
+                        width: screenWidth * 0.12,
+                        height: screenWidth * 0.12,
+                        borderRadius: screenWidth * 0.06,
+                        borderWidth: 2,
+                        borderColor: '#14b8a6',
+                      }
+                    ]}
+                  >
+                    <Text style={[styles.clientInitials, { fontSize: scaleFont(20), fontWeight: '600' }]}> {client.name?.charAt(0) || 'C'} </Text>
+                  </LinearGradient>
+                )}
+                <PresenceDot userId={client.id} size={screenWidth * 0.035} />
+              </View>
               <View style={styles.clientInfo}>
                 <Text style={[styles.clientName, { fontSize: scaleFont(17), fontWeight: '600' }]}>{client.name}</Text>
                 <Text style={[styles.clientCondition, { fontSize: scaleFont(14) }]}> {client.condition || 'No condition specified'} </Text>
@@ -363,13 +364,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
-  clientAvatar: {
+  clientAvatarContainer: {
     marginRight: 12,
   },
   clientAvatarPlaceholder: {
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 12,
   },
   clientInitials: {
     fontWeight: '300',
@@ -2,7 +2,6 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl, Animated, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '@/contexts/AuthContext';
-import { useVideoCall } from '@/contexts/VideoCallContext';
 import { supabase } from '@/lib/supabase';
 import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -12,7 +11,6 @@ import { BlurView } from 'expo-blur';
 
 export default function HomeScreen() {
   const { userProfile } = useAuth();
-  const { initiateCall } = useVideoCall();
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const [stats, setStats] = useState({
@@ -157,9 +155,8 @@ export default function HomeScreen() {
         router.push('/(tabs)/client-management');
         break;
       case 'demo-call':
-        initiateCall('demo-therapist', 'video').then((channelName) => {
-          router.push(`/video-call/${channelName}`);
-        });
+        // The demo room has no counterpart, so no call session is recorded for it
+        router.push('/video-call/demo-call');
         break;
       default:
         console.log('Action not implemented:', action);
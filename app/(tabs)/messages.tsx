@@ -12,12 +12,16 @@ import {
   TextInput,
   Dimensions,
   useWindowDimensions,
-  PixelRatio
+  PixelRatio,
+  NativeScrollEvent,
+  NativeSyntheticEvent
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '@/contexts/AuthContext';
 import { useMessaging } from '@/contexts/MessagingContext';
+import PresenceDot from '@/components/PresenceDot';
+import { MessageType, getMessagePreview } from '@/lib/messaging';
 import { router } from 'expo-router';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -37,6 +41,7 @@ interface ConversationUser {
 interface LastMessage {
   id: string;
   message: string;
+  message_type?: MessageType;
   created_at: string;
 }
 
@@ -58,6 +63,9 @@ export default function MessagesScreen() {
     conversations, 
     loading, 
     loadConversations,
+    loadMoreConversations,
+    hasMoreConversations,
+    loadingMoreConversations,
     createConversation 
   } = useMessaging();
   const [refreshing, setRefreshing] = useState(false);
@@ -75,6 +83,14 @@ export default function MessagesScreen() {
     setRefreshing(false);
   };
 
+  // Pages in older threads once the list is scrolled near its end
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const distanceFromEnd = nativeEvent.contentSize.height - nativeEvent.layoutMeasurement.height - nativeEvent.contentOffset.y;
+    if (distanceFromEnd < nativeEvent.layoutMeasurement.height * 0.5 && hasMoreConversations && !searchQuery) {
+      loadMoreConversations();
+    }
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -101,6 +117,16 @@ export default function MessagesScreen() {
     });
   };
 
+  // Names are filtered in place; message text is searched on the server
+  const handleSearchMessages = () => {
+    if (!searchQuery.trim()) return;
+
+    router.push({
+      pathname: '/message-search',
+      params: { q: searchQuery.trim() }
+    });
+  };
+
   const handleNewMessage = () => {
     if (userProfile?.role === 'therapist') {
       router.push('/client-selection');
@@ -186,14 +212,29 @@ export default function MessagesScreen() {
             placeholderTextColor="#94a3b8"
             value={searchQuery}
             onChangeText={setSearchQuery}
+            returnKeyType="search"
+            onSubmitEditing={handleSearchMessages}
           />
         </View>
+        {!!searchQuery.trim() && (
+          <TouchableOpacity
+            style={[styles.searchMessagesRow, { paddingVertical: screenWidth * 0.03 }]}
+            onPress={handleSearchMessages}
+          >
+            <MaterialIcons name="manage-search" size={scaleFont(20)} color="#14b8a6" />
+            <Text style={[styles.searchMessagesText, { fontSize: scaleFont(14) }]} numberOfLines={1}>
+              Search messages for "{searchQuery.trim()}"
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Conversations List */}
       <ScrollView
         style={styles.conversationsList}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
         refreshControl={
           <RefreshControl 
             refreshing={refreshing} 
@@ -262,25 +303,28 @@ export default function MessagesScreen() {
                     onPress={() => handleOpenConversation(conversation)}
                     activeOpacity={0.95}
                   >
-                    {otherUser?.photo_url ? (
-                      <Image 
-                        source={{ uri: otherUser.photo_url }} 
-                        style={[styles.avatarImage, {
-                          width: screenWidth * 0.15,
-                          height: screenWidth * 0.15,
-                          borderRadius: screenWidth * 0.075
-                        }]} 
-                      />
-                    ) : (
-                      <Image
-                        source={{ uri: 'https://randomuser.me/api/portraits/men/1.jpg' }}
-                        style={[styles.avatarImage, {
-                          width: screenWidth * 0.15,
-                          height: screenWidth * 0.15,
-                          borderRadius: screenWidth * 0.075
-                        }]}
-                      />
-                    )}
+                    <View style={styles.avatarContainer}>
+                      {otherUser?.photo_url ? (
+                        <Image 
+                          source={{ uri: otherUser.photo_url }} 
+                          style={{
+                            width: screenWidth * 0.15,
+                            height: screenWidth * 0.15,
+                            borderRadius: screenWidth * 0.075
+                          }} 
+                        />
+                      ) : (
+                        <Image
+                          source={{ uri: 'https://randomuser.me/api/portraits/men/1.jpg' }}
+                          style={{
+                            width: screenWidth * 0.15,
+                            height: screenWidth * 0.15,
+                            borderRadius: screenWidth * 0.075
+                          }}
+                        />
+                      )}
+                      <PresenceDot userId={otherUser?.id} size={screenWidth * 0.035} />
+                    </View>
 
                     <View style={[styles.conversationContent, { marginLeft: screenWidth * 0.04 }]}>
                       <View style={styles.conversationHeader}>
@@ -310,7 +354,7 @@ export default function MessagesScreen() {
                           ]}
                           numberOfLines={1}
                         >
-                          {conversation.last_message?.message || 'No messages yet'}
+                          {conversation.last_message ? getMessagePreview(conversation.last_message) : 'No messages yet'}
                         </Text>
                         
                         <MaterialIcons 
@@ -335,6 +379,9 @@ export default function MessagesScreen() {
                   </TouchableOpacity>
                 );
               })}
+            {loadingMoreConversations && (
+              <ActivityIndicator style={{ marginVertical: screenWidth * 0.04 }} color="#14b8a6" />
+            )}
           </View>
         )}
       </ScrollView>
@@ -455,6 +502,18 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     marginLeft: 8,
   },
+  searchMessagesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+    marginTop: 8,
+  },
+  searchMessagesText: {
+    flex: 1,
+    color: '#14b8a6',
+    fontWeight: '500',
+    marginLeft: 8,
+  },
   conversationsList: {
     flex: 1,
   },
@@ -511,7 +570,7 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#14b8a6',
   },
-  avatarImage: {
+  avatarContainer: {
     marginRight: 16,
   },
   avatarPlaceholder: {
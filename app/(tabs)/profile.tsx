@@ -317,6 +317,16 @@ export default function ProfileScreen() {
         <View style={[styles.divider, { marginVertical: screenWidth * 0.06 }]} />
         
         <View style={[styles.actionsSection, { paddingHorizontal: screenWidth * 0.06 }]}>
+          {isTherapist && (
+            <TouchableOpacity 
+              style={[styles.actionButton, { paddingVertical: screenWidth * 0.04 }]}
+              onPress={() => router.push('/(tabs)/availability')}
+            >
+              <MaterialIcons name="event-available" size={scaleFont(20)} color="#64748b" />
+              <Text style={[styles.actionButtonText, { fontSize: scaleFont(16) }]}>Manage Availability</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={[styles.actionButton, { paddingVertical: screenWidth * 0.04 }]}>
             <MaterialIcons name="settings" size={scaleFont(20)} color="#64748b" />
             <Text style={[styles.actionButtonText, { fontSize: scaleFont(16) }]}>Settings</Text>
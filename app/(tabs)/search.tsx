@@ -1,34 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Image, ActivityIndicator, RefreshControl } from 'react-native';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Image, ActivityIndicator, RefreshControl, FlatList } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { supabase } from '@/lib/supabase';
+import { searchTherapists, DirectoryCursor, TherapistDirectoryEntry } from '@/lib/therapist-directory';
 
-// Enhanced type definition with additional metadata
-type TherapistProfile = {
-  id: string;
-  user_id: string;
-  name: string;
-  bio: string;
-  specialties: string[];
-  credentials: string;
-  experience_years: number;
-  hourly_rate: string;
-  photo_url: string | null;
-  location: string | null;
-  rating?: number;
-  review_count?: number;
-  languages?: string[];
-  treatment_approaches?: string[];
-};
+const SEARCH_DEBOUNCE_MS = 300;
 
 const SearchScreen = () => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [therapists, setTherapists] = useState<TherapistProfile[]>([]);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [therapists, setTherapists] = useState<TherapistDirectoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<DirectoryCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selectedSpecialty, setSelectedSpecialty] = useState<string>('');
   const [refreshing, setRefreshing] = useState(false);
+  // Incremented on every fresh search so late responses from older queries are dropped
+  const requestIdRef = useRef(0);
 
   const specialties = [
     'Stroke Recovery',
@@ -41,126 +29,187 @@ const SearchScreen = () => {
     'Cognitive Therapy',
   ];
 
-  // Load therapists with enhanced error handling
-  const loadTherapists = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Load the first page for the current query and specialty
+  const loadTherapists = useCallback(async (isRefresh = false) => {
+    const requestId = ++requestIdRef.current;
+
     try {
-      setRefreshing(true);
-      console.log('Fetching therapists...');
-      
-      // Simulate API call with mock data for demonstration
-      // In production, replace with actual Supabase call
-      const mockTherapists: TherapistProfile[] = [
-        {
-          id: 'b3b1c2d3-4e5f-6789-0123-456789abcde1',
-          user_id: 'a1b2c3d4-5e6f-7890-1234-56789abcdef1',
-          name: 'Dr. Sarah',
-          bio: 'Specialized in pediatric occupational therapy with 10 years of experience helping children with developmental challenges.',
-          specialties: ['Pediatric OT', 'Autism Support'],
-          credentials: 'OTD, OTR/L',
-          experience_years: 10,
-          hourly_rate: '120',
-          photo_url: 'https://randomuser.me/api/portraits/women/44.jpg',
-          location: 'Accra, Ghana',
-          rating: 4.8,
-          review_count: 124,
-          languages: ['English', 'Twi'],
-          treatment_approaches: ['Sensory Integration', 'DIR/Floortime']
-        },
-        {
-          id: 'b3b1c2d3-4e5f-6789-0123-456789abcde2',
-          user_id: 'a1b2c3d4-5e6f-7890-1234-56789abcdef2',
-          name: 'Dr. Aristocrat',
-          bio: 'Geriatric care specialist focusing on maintaining independence and quality of life for elderly patients.',
-          specialties: ['Geriatric Care', 'Physical Rehabilitation'],
-          credentials: 'MOT, OTR/L',
-          experience_years: 7,
-          hourly_rate: '95',
-          photo_url: 'https://randomuser.me/api/portraits/men/32.jpg',
-          location: 'Kumasi, Ghana',
-          rating: 4.9,
-          review_count: 87,
-          languages: ['English', 'Twi', 'Fante'],
-          treatment_approaches: ['Task-Oriented', 'Cognitive Rehabilitation']
-        },
-        {
-          id: 'b3b1c2d3-4e5f-6789-0123-456789abcde3',
-          user_id: 'a1b2c3d4-5e6f-7890-1234-56789abcdef3',
-          name: 'Dr. Daniella',
-          bio: 'Mental health occupational therapist with expertise in trauma-informed care and anxiety disorders.',
-          specialties: ['Mental Health', 'Cognitive Therapy'],
-          credentials: 'OTR/L',
-          experience_years: 5,
-          hourly_rate: '110',
-          photo_url: 'https://randomuser.me/api/portraits/women/63.jpg',
-          location: 'Takoradi, Ghana',
-          rating: 4.7,
-          review_count: 56,
-          languages: ['English', 'Fante'],
-          treatment_approaches: ['CBT', 'Mindfulness-Based']
-        }
-      ];
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
 
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setTherapists(mockTherapists);
+      const page = await searchTherapists({
+        query: debouncedQuery,
+        specialty: selectedSpecialty,
+      });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setTherapists(page.therapists);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading therapists:', error);
       Alert.alert('Error', 'Failed to load therapists. Please try again.');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
-  };
+  }, [debouncedQuery, selectedSpecialty]);
 
-  useEffect(() => {
-    loadTherapists();
-  }, []);
+  const loadMoreTherapists = async () => {
+    if (!nextCursor || loadingMore || loading || refreshing) return;
 
-  const filteredTherapists = therapists.filter(therapist => {
-    const query = searchQuery.toLowerCase().trim();
-    const matchesSearch = !query || (
-      therapist.name.toLowerCase().includes(query) ||
-      therapist.bio.toLowerCase().includes(query) ||
-      therapist.credentials.toLowerCase().includes(query) ||
-      therapist.location?.toLowerCase().includes(query) ||
-      therapist.specialties.some(s => s.toLowerCase().includes(query))
-    );
+    const requestId = requestIdRef.current;
 
-    const matchesSpecialty = !selectedSpecialty || 
-      therapist.specialties.includes(selectedSpecialty);
-
-    return matchesSearch && matchesSpecialty;
-  });
+    try {
+      setLoadingMore(true);
 
-  const handleBookAppointment = (therapistId: string) => {
-    const therapist = therapists.find(t => t.id === therapistId);
-    if (therapist) {
-      router.push({
-        pathname: '/(tabs)/booking',
-        params: { therapist: JSON.stringify(therapist) }
+      const page = await searchTherapists({
+        query: debouncedQuery,
+        specialty: selectedSpecialty,
+        cursor: nextCursor,
       });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setTherapists(prev => [
+        ...prev,
+        ...page.therapists.filter(t => !prev.some(existing => existing.id === t.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more therapists:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
+  useEffect(() => {
+    loadTherapists();
+  }, [loadTherapists]);
+
+  const handleBookAppointment = (therapistId: string) => {
+    router.push({
+      pathname: '/(tabs)/booking',
+      params: { id: therapistId }
+    });
+  };
+
   const handleViewProfile = (therapistId: string) => {
-    const therapist = therapists.find(t => t.id === therapistId);
-    if (therapist) {
-      router.push({
-        pathname: '/(tabs)/therapist',
-        params: { therapist: JSON.stringify(therapist) }
-      });
-    }
+    router.push({
+      pathname: '/(tabs)/therapist',
+      params: { id: therapistId }
+    });
   };
 
-  if (loading && !refreshing) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#14b8a6" />
-        <Text style={styles.loadingText}>Finding qualified therapists...</Text>
+  const renderTherapistCard = ({ item: therapist }: { item: TherapistDirectoryEntry }) => (
+    <View style={styles.therapistCard}>
+      {/* Therapist Header */}
+      <View style={styles.therapistHeader}>
+        {therapist.photo_url ? (
+          <Image source={{ uri: therapist.photo_url }} style={styles.avatar} />
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            <Text style={styles.avatarText}>
+              {therapist.name.split(' ').map(n => n[0]).join('')}
+            </Text>
+          </View>
+        )}
+        
+        <View style={styles.therapistInfo}>
+          <View style={styles.nameRatingContainer}>
+            <Text style={styles.therapistName}>{therapist.name}</Text>
+          </View>
+          
+          <View style={styles.metaContainer}>
+            <View style={styles.metaItem}>
+              <MaterialIcons name="location-on" size={14} color="#64748b" />
+              <Text style={styles.metaText}>{therapist.location || 'Remote'}</Text>
+            </View>
+            <View style={styles.metaItem}>
+              <MaterialIcons name="calendar-today" size={14} color="#64748b" />
+              <Text style={styles.metaText}>{therapist.experience_years} years exp</Text>
+            </View>
+          </View>
+        </View>
+        
+        {therapist.hourly_rate != null && (
+          <View style={styles.priceContainer}>
+            <Text style={styles.priceText}>₵{therapist.hourly_rate}</Text>
+            <Text style={styles.priceLabel}>/hour</Text>
+          </View>
+        )}
+      </View>
+      
+      {/* Bio and Specialties */}
+      <Text style={styles.bio} numberOfLines={2}>
+        {therapist.bio}
+      </Text>
+      
+      <View style={styles.specialtiesContainer}>
+        {therapist.specialties.slice(0, 3).map((specialty, index) => (
+          <View key={index} style={styles.specialtyTag}>
+            <Text style={styles.specialtyTagText}>{specialty}</Text>
+          </View>
+        ))}
+        {therapist.specialties.length > 3 && (
+          <View style={styles.moreSpecialties}>
+            <Text style={styles.moreSpecialtiesText}>+{therapist.specialties.length - 3}</Text>
+          </View>
+        )}
       </View>
-    );
-  }
+      
+      {/* Action Buttons */}
+      <View style={styles.actionButtons}>
+        <TouchableOpacity 
+          style={styles.profileButton}
+          onPress={() => handleViewProfile(therapist.id)}
+        >
+          <Text style={styles.profileButtonText}>View Profile</Text>
+          <MaterialIcons name="chevron-right" size={16} color="#14b8a6" />
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={[styles.bookButton, styles.bookButtonSolid]}
+          onPress={() => handleBookAppointment(therapist.id)}
+        >
+          <MaterialIcons name="schedule" size={16} color="#14b8a6" />
+          <Text style={styles.bookButtonText}>Book Session</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <MaterialIcons name="favorite" size={48} color="#cbd5e1" />
+      <Text style={styles.emptyTitle}>No therapists found</Text>
+      <Text style={styles.emptyText}>
+        {searchQuery || selectedSpecialty 
+          ? 'Try adjusting your search or filters'
+          : 'No therapists available at this time'
+        }
+      </Text>
+      <TouchableOpacity 
+        style={styles.retryButton}
+        onPress={() => {
+          setSearchQuery('');
+          setSelectedSpecialty('');
+        }}
+      >
+        <Text style={styles.retryButtonText}>Reset Search</Text>
+      </TouchableOpacity>
+    </View>
+  );
 
   return (
     <View style={styles.container}>
@@ -220,129 +269,43 @@ const SearchScreen = () => {
         </ScrollView>
       </View>
 
-      {/* Results Count */}
-      <View style={styles.resultsContainer}>
-        <Text style={styles.resultsText}>
-          {filteredTherapists.length} {filteredTherapists.length === 1 ? 'therapist' : 'therapists'} found
-        </Text>
-      </View>
-
-      {/* Therapist List */}
-      <ScrollView 
-        style={styles.content}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={loadTherapists}
-            colors={['#14b8a6']}
-            tintColor="#14b8a6"
-          />
-        }
-      >
-        {filteredTherapists.length === 0 ? (
-          <View style={styles.emptyState}>
-            <MaterialIcons name="favorite" size={48} color="#cbd5e1" />
-            <Text style={styles.emptyTitle}>No therapists found</Text>
-            <Text style={styles.emptyText}>
-              {searchQuery || selectedSpecialty 
-                ? 'Try adjusting your search or filters'
-                : 'No therapists available at this time'
-              }
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#14b8a6" />
+          <Text style={styles.loadingText}>Finding qualified therapists...</Text>
+        </View>
+      ) : (
+        <>
+          {/* Results Count */}
+          <View style={styles.resultsContainer}>
+            <Text style={styles.resultsText}>
+              {therapists.length}{nextCursor ? '+' : ''} {therapists.length === 1 && !nextCursor ? 'therapist' : 'therapists'} found
             </Text>
-            <TouchableOpacity 
-              style={styles.retryButton}
-              onPress={() => {
-                setSearchQuery('');
-                setSelectedSpecialty('');
-              }}
-            >
-              <Text style={styles.retryButtonText}>Reset Search</Text>
-            </TouchableOpacity>
           </View>
-        ) : (
-          filteredTherapists.map(therapist => (
-            <View key={therapist.id} style={styles.therapistCard}>
-              {/* Therapist Header */}
-              <View style={styles.therapistHeader}>
-                {therapist.photo_url ? (
-                  <Image source={{ uri: therapist.photo_url }} style={styles.avatar} />
-                ) : (
-                  <View style={styles.avatarPlaceholder}>
-                    <Text style={styles.avatarText}>
-                      {therapist.name.split(' ').map(n => n[0]).join('')}
-                    </Text>
-                  </View>
-                )}
-                
-                <View style={styles.therapistInfo}>
-                  <View style={styles.nameRatingContainer}>
-                    <Text style={styles.therapistName}>{therapist.name}</Text>
-                    <View style={styles.ratingContainer}>
-                      <MaterialIcons name="star" size={14} color="#f59e0b" />
-                      <Text style={styles.ratingText}>
-                        {therapist.rating} ({therapist.review_count})
-                      </Text>
-                    </View>
-                  </View>
-                  
-                  <View style={styles.metaContainer}>
-                    <View style={styles.metaItem}>
-                      <MaterialIcons name="location-on" size={14} color="#64748b" />
-                      <Text style={styles.metaText}>{therapist.location || 'Remote'}</Text>
-                    </View>
-                    <View style={styles.metaItem}>
-                      <MaterialIcons name="calendar-today" size={14} color="#64748b" />
-                      <Text style={styles.metaText}>{therapist.experience_years} years exp</Text>
-                    </View>
-                  </View>
-                </View>
-                
-                <View style={styles.priceContainer}>
-                  <Text style={styles.priceText}>₵{therapist.hourly_rate}</Text>
-                  <Text style={styles.priceLabel}>/hour</Text>
-                </View>
-              </View>
-              
-              {/* Bio and Specialties */}
-              <Text style={styles.bio} numberOfLines={2}>
-                {therapist.bio}
-              </Text>
-              
-              <View style={styles.specialtiesContainer}>
-                {therapist.specialties.slice(0, 3).map((specialty, index) => (
-                  <View key={index} style={styles.specialtyTag}>
-                    <Text style={styles.specialtyTagText}>{specialty}</Text>
-                  </View>
-                ))}
-                {therapist.specialties.length > 3 && (
-                  <View style={styles.moreSpecialties}>
-                    <Text style={styles.moreSpecialtiesText}>+{therapist.specialties.length - 3}</Text>
-                  </View>
-                )}
-              </View>
-              
-              {/* Action Buttons */}
-              <View style={styles.actionButtons}>
-                <TouchableOpacity 
-                  style={styles.profileButton}
-                  onPress={() => handleViewProfile(therapist.id)}
-                >
-                  <Text style={styles.profileButtonText}>View Profile</Text>
-                  <MaterialIcons name="chevron-right" size={16} color="#14b8a6" />
-                </TouchableOpacity>
-                
-                <TouchableOpacity 
-                  style={[styles.bookButton, styles.bookButtonSolid]}
-                  onPress={() => handleBookAppointment(therapist.id)}
-                >
-                  <MaterialIcons name="schedule" size={16} color="#14b8a6" />
-                  <Text style={styles.bookButtonText}>Book Session</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          ))
-        )}
-      </ScrollView>
+
+          {/* Therapist List */}
+          <FlatList
+            style={styles.content}
+            data={therapists}
+            keyExtractor={therapist => therapist.id}
+            renderItem={renderTherapistCard}
+            ListEmptyComponent={renderEmptyState}
+            onEndReached={loadMoreTherapists}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={loadingMore ? (
+              <ActivityIndicator style={styles.loadMoreIndicator} color="#14b8a6" />
+            ) : null}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadTherapists(true)}
+                colors={['#14b8a6']}
+                tintColor="#14b8a6"
+              />
+            }
+          />
+        </>
+      )}
     </View>
   );
 };
@@ -471,6 +434,9 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingTop: 8,
   },
+  loadMoreIndicator: {
+    paddingVertical: 16,
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
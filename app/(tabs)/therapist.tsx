@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert, Linking } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { supabase } from '@/lib/supabase';
+import { fetchPublicProfiles } from '@/lib/public-profiles';
 import { useAuth } from '@/contexts/AuthContext';
 import { useMessaging } from '@/contexts/MessagingContext';
 
@@ -22,8 +23,6 @@ type TherapistProfile = {
   name: string;
   user_photo_url: string | null;
   user_location: string | null;
-  user_email: string | null;
-  user_phone: string | null;
 };
 
 export default function TherapistProfileScreen() {
@@ -70,14 +69,10 @@ export default function TherapistProfileScreen() {
         return;
       }
 
-      // Fetch user data
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('id, name, photo_url, location, email, phone')
-        .eq('id', therapistData.user_id)
-        .single();
+      // Fetch the therapist's public user details
+      const userData = (await fetchPublicProfiles([therapistData.user_id]))[therapistData.user_id];
 
-      if (userError || !userData) {
+      if (!userData) {
         Alert.alert('Error', 'User data not found');
         router.back();
         return;
@@ -89,8 +84,6 @@ export default function TherapistProfileScreen() {
         name: userData.name,
         user_photo_url: userData.photo_url,
         user_location: userData.location,
-        user_email: userData.email,
-        user_phone: userData.phone,
       };
 
       setTherapist(mergedProfile);
@@ -126,13 +119,8 @@ export default function TherapistProfileScreen() {
   };
 
   const handleCallTherapist = () => {
-    // Fallback/test phone for demo
-    const phone = therapist?.user_phone || '+1234567890';
-    if (phone) {
-      Linking.openURL(`tel:${phone}`);
-    } else {
-      Alert.alert('No Phone', 'Phone number not available');
-    }
+    // Therapists' phone numbers are private
+    Alert.alert('No Phone', 'Send your therapist a message to arrange a call.');
   };
 
   const handleVideoCall = () => {
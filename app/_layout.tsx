@@ -6,6 +6,7 @@ import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold, Inter_7
 import * as SplashScreen from 'expo-splash-screen';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { PresenceProvider } from '@/contexts/PresenceContext';
 import { MessagingProvider } from '@/contexts/MessagingContext';
 import { VideoCallProvider } from '@/contexts/VideoCallContext';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -42,26 +43,29 @@ export default function RootLayout() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <MessagingProvider>
-          <VideoCallProvider>
-            <Stack
-              screenOptions={{
-                headerShown: false,
-                contentStyle: { backgroundColor: '#f8fafc' },
-              }}
-            >
-              <Stack.Screen name="(auth)" />
-            <Stack.Screen name="(tabs)" />
-            <Stack.Screen name="client-profile" />
-            <Stack.Screen name="chat" />
-            <Stack.Screen name="client-selection" />
-            <Stack.Screen name="therapist-selection" />
-            <Stack.Screen name="+not-found" />
-            </Stack>
-            <StatusBar style="auto" />
-            <GlobalCallHandler />
-          </VideoCallProvider>
-        </MessagingProvider>
+        <PresenceProvider>
+          <MessagingProvider>
+            <VideoCallProvider>
+              <Stack
+                screenOptions={{
+                  headerShown: false,
+                  contentStyle: { backgroundColor: '#f8fafc' },
+                }}
+              >
+                <Stack.Screen name="(auth)" />
+              <Stack.Screen name="(tabs)" />
+              <Stack.Screen name="client-profile" />
+              <Stack.Screen name="chat" />
+              <Stack.Screen name="message-search" />
+              <Stack.Screen name="client-selection" />
+              <Stack.Screen name="therapist-selection" />
+              <Stack.Screen name="+not-found" />
+              </Stack>
+              <StatusBar style="auto" />
+              <GlobalCallHandler />
+            </VideoCallProvider>
+          </MessagingProvider>
+        </PresenceProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
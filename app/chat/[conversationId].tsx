@@ -1,62 +1,115 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
-  ScrollView, 
+  FlatList, 
   TextInput, 
   TouchableOpacity, 
   KeyboardAvoidingView,
   Platform,
-  Alert 
+  Alert,
+  ActivityIndicator,
+  Pressable
 } from 'react-native';
-import { ArrowLeft, Send, Phone, Video, MoreVertical } from 'lucide-react-native';
+import { ArrowLeft, Send, Phone, Video, MoreVertical, Check, CheckCheck, Paperclip, CalendarPlus, Pencil, X, Clock, AlertCircle, PhoneMissed } from 'lucide-react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useMessaging } from '@/contexts/MessagingContext';
 import { useVideoCall } from '@/contexts/VideoCallContext';
+import { usePresence } from '@/contexts/PresenceContext';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { formatLastSeen } from '@/lib/presence';
+import PresenceDot from '@/components/PresenceDot';
+import MessageAttachments from '@/components/MessageAttachments';
+import AttachmentViewer from '@/components/AttachmentViewer';
+import AppointmentRequestCard from '@/components/AppointmentRequestCard';
+import AppointmentRequestModal, { AppointmentProposal } from '@/components/AppointmentRequestModal';
+import { AppointmentRequest } from '@/lib/appointment-requests';
+import { BookingError } from '@/lib/appointments';
+import { CallError, callScreenHref } from '@/lib/call-sessions';
+import { MessageError, canEditMessage, canRemoveMessage } from '@/lib/messaging';
+import { fetchPublicProfiles } from '@/lib/public-profiles';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MessageAttachment,
+  PendingAttachment,
+} from '@/lib/message-attachments';
 
 export default function ChatScreen() {
-  const { conversationId } = useLocalSearchParams();
+  // `messageId` opens the thread at that message, e.g. from a search result
+  const { conversationId, messageId } = useLocalSearchParams<{ conversationId: string; messageId?: string }>();
   const { userProfile } = useAuth();
   const { 
     messages, 
+    hasOlderMessages,
+    loadingOlderMessages,
+    hasNewerMessages,
+    loadingNewerMessages,
     activeConversation, 
     setActiveConversation,
+    findConversation,
     loadMessages, 
+    loadMessagesAround,
+    loadOlderMessages,
+    loadNewerMessages,
     sendMessage,
-    conversations 
+    retryMessage,
+    discardMessage,
+    sendAttachments,
+    proposeAppointment,
+    acceptAppointment,
+    declineAppointment,
+    editMessage,
+    removeMessage,
   } = useMessaging();
-  const { initiateCall, currentSession } = useVideoCall();
+  const { initiateCall } = useVideoCall();
+  const { isOnline, getLastSeen, loadLastSeen } = usePresence();
+  const { counterpartTyping, notifyTyping, stopTyping } = useTypingIndicator(activeConversation?.id);
   
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
-  const scrollViewRef = useRef<ScrollView>(null);
+  const [sendingAttachments, setSendingAttachments] = useState(false);
+  const [viewerAttachment, setViewerAttachment] = useState<MessageAttachment | null>(null);
+  // Open while proposing times; `replyTo` is set when suggesting other times for a request
+  const [proposal, setProposal] = useState<{ replyTo: AppointmentRequest | null } | null>(null);
+  const [sendingProposal, setSendingProposal] = useState(false);
+  const [respondingRequestId, setRespondingRequestId] = useState<string | null>(null);
+  // While set, the input holds this message's text and sending saves the edit
+  const [editingMessage, setEditingMessage] = useState<(typeof messages)[number] | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Lets request cards show proposed times on the other participant's clock too
+  const [counterpartTimeZone, setCounterpartTimeZone] = useState<string | null>(null);
+  const listRef = useRef<FlatList<(typeof messages)[number]>>(null);
+  const scrolledToMessageId = useRef<string | null>(null);
+
+  // The list is inverted so it opens on the newest message and earlier pages load at its far end
+  const invertedMessages = useMemo(() => [...messages].reverse(), [messages]);
 
   useEffect(() => {
     if (conversationId) {
       initializeConversation();
     }
-  }, [conversationId]);
-
-  useEffect(() => {
-    // Auto-scroll to bottom when new messages arrive
-    if (scrollViewRef.current && messages.length > 0) {
-      setTimeout(() => {
-        scrollViewRef.current?.scrollToEnd({ animated: true });
-      }, 100);
-    }
-  }, [messages]);
+  }, [conversationId, messageId]);
 
   const initializeConversation = async () => {
     try {
       setLoading(true);
       
       // Find the conversation
-      const conversation = conversations.find(c => c.id === conversationId);
+      const conversation = await findConversation(conversationId);
       if (conversation) {
         setActiveConversation(conversation);
-        await loadMessages(conversationId as string);
+        if (messageId) {
+          await loadMessagesAround(conversationId, messageId);
+        } else {
+          await loadMessages(conversationId);
+        }
       }
     } catch (error) {
       console.error('Error initializing conversation:', error);
@@ -66,18 +119,271 @@ export default function ChatScreen() {
     }
   };
 
+  // Brings the linked message into view once its window has loaded, and flashes it
+  useEffect(() => {
+    if (loading || !messageId || scrolledToMessageId.current === messageId) return;
+
+    const index = invertedMessages.findIndex(message => message.id === messageId);
+    if (index === -1) return;
+
+    scrolledToMessageId.current = messageId;
+    setHighlightedMessageId(messageId);
+    requestAnimationFrame(() => {
+      listRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: false });
+    });
+
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [loading, messageId, invertedMessages]);
+
+  const jumpToLatest = async () => {
+    await loadMessages(conversationId);
+    listRef.current?.scrollToOffset({ offset: 0, animated: false });
+  };
+
+  const handleChangeText = (text: string) => {
+    setNewMessage(text);
+    if (editingMessage) return;
+    if (text.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
   const handleSendMessage = async () => {
+    if (editingMessage) {
+      await handleSaveEdit();
+      return;
+    }
+
     if (!newMessage.trim() || !activeConversation) return;
 
+    // The outbox keeps the text from here on, so the input can be cleared right away
+    stopTyping();
+    setNewMessage('');
+    await sendMessage(activeConversation.id, newMessage);
+  };
+
+  const showUnsentActions = (message: (typeof messages)[number]) => {
+    Alert.alert('Message Not Sent', 'This message could not be delivered.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => discardMessage(message.id) },
+      { text: 'Retry', onPress: () => retryMessage(message.id) },
+    ]);
+  };
+
+  const showMessageError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    Alert.alert(title, error instanceof MessageError ? error.message : 'An error occurred. Please try again.');
+  };
+
+  const startEditing = (message: (typeof messages)[number]) => {
+    stopTyping();
+    setEditingMessage(message);
+    setNewMessage(message.message);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessage) return;
+
     try {
-      await sendMessage(activeConversation.id, newMessage);
-      setNewMessage('');
+      setSavingEdit(true);
+      await editMessage(editingMessage.id, newMessage);
+      cancelEditing();
     } catch (error) {
-      console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message');
+      showMessageError('Could Not Edit Message', error);
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const confirmRemoveMessage = (message: (typeof messages)[number]) => {
+    Alert.alert('Delete Message', 'Delete this message for everyone in the conversation?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeMessage(message.id);
+            if (editingMessage?.id === message.id) cancelEditing();
+          } catch (error) {
+            showMessageError('Could Not Delete Message', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const showMessageActions = (message: (typeof messages)[number]) => {
+    Alert.alert('Message', undefined, [
+      ...(canEditMessage(message) ? [{ text: 'Edit', onPress: () => startEditing(message) }] : []),
+      { text: 'Delete', style: 'destructive' as const, onPress: () => confirmRemoveMessage(message) },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  // Sends picked files as one message, using any typed text as the caption
+  const sendPickedFiles = async (files: PendingAttachment[]) => {
+    if (!activeConversation || files.length === 0) return;
+
+    const tooLarge = files.find(file => file.size !== null && file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+      Alert.alert('File Too Large', `${tooLarge.name} is larger than 25 MB.`);
+      return;
+    }
+
+    try {
+      setSendingAttachments(true);
+      stopTyping();
+      const sent = await sendAttachments(activeConversation.id, files.slice(0, MAX_ATTACHMENTS_PER_MESSAGE), newMessage);
+      if (sent) setNewMessage('');
+    } finally {
+      setSendingAttachments(false);
     }
   };
 
+  const toPendingImages = (assets: ImagePicker.ImagePickerAsset[]): PendingAttachment[] =>
+    assets.map((asset, index) => ({
+      uri: asset.uri,
+      name: asset.fileName || `photo-${Date.now()}-${index}.jpg`,
+      mimeType: asset.mimeType || 'image/jpeg',
+      size: asset.fileSize ?? null,
+    }));
+
+  const takePhoto = async () => {
+    try {
+      const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permissionResult.granted) {
+        Alert.alert('Permission Required', 'Please allow camera access to send photos.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: 'images',
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets) {
+        await sendPickedFiles(toPendingImages(result.assets));
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const pickPhotos = async () => {
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permissionResult.granted) {
+        Alert.alert('Permission Required', 'Please allow access to your photo library to send photos.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: 'images',
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_ATTACHMENTS_PER_MESSAGE,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets) {
+        await sendPickedFiles(toPendingImages(result.assets));
+      }
+    } catch (error) {
+      console.error('Error picking photos:', error);
+      Alert.alert('Error', 'Failed to select photos');
+    }
+  };
+
+  const pickDocuments = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ALLOWED_ATTACHMENT_TYPES,
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+
+      if (!result.canceled && result.assets) {
+        await sendPickedFiles(result.assets.map(asset => ({
+          uri: asset.uri,
+          name: asset.name,
+          mimeType: asset.mimeType || 'application/octet-stream',
+          size: asset.size ?? null,
+        })));
+      }
+    } catch (error) {
+      console.error('Error picking documents:', error);
+      Alert.alert('Error', 'Failed to select file');
+    }
+  };
+
+  const showAttachmentOptions = () => {
+    Alert.alert('Send Attachment', undefined, [
+      { text: 'Take Photo', onPress: takePhoto },
+      { text: 'Photo Library', onPress: pickPhotos },
+      { text: 'Document', onPress: pickDocuments },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const showRequestError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    Alert.alert(title, error instanceof BookingError ? error.message : 'An error occurred. Please try again.');
+  };
+
+  const handleSendProposal = async ({ slots, duration, note }: AppointmentProposal) => {
+    if (!activeConversation || !proposal) return;
+
+    try {
+      setSendingProposal(true);
+      await proposeAppointment(activeConversation.id, slots, duration, note, proposal.replyTo?.id);
+      setProposal(null);
+    } catch (error) {
+      showRequestError('Could Not Send Request', error);
+    } finally {
+      setSendingProposal(false);
+    }
+  };
+
+  const handleAcceptRequest = async (request: AppointmentRequest, slot: string) => {
+    try {
+      setRespondingRequestId(request.id);
+      await acceptAppointment(request, slot);
+    } catch (error) {
+      showRequestError('Could Not Book Appointment', error);
+    } finally {
+      setRespondingRequestId(null);
+    }
+  };
+
+  const handleDeclineRequest = (request: AppointmentRequest) => {
+    Alert.alert('Decline Request', 'Decline these proposed times?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Decline',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setRespondingRequestId(request.id);
+            await declineAppointment(request);
+          } catch (error) {
+            showRequestError('Could Not Decline Request', error);
+          } finally {
+            setRespondingRequestId(null);
+          }
+        },
+      },
+    ]);
+  };
+
   const startVideoCall = async () => {
     if (!otherUser) {
       Alert.alert('Error', 'Unable to start video call');
@@ -85,13 +391,12 @@ export default function ChatScreen() {
     }
 
     try {
-      const channelName = await initiateCall(otherUser.id, 'video');
+      const session = await initiateCall(otherUser.id, 'video');
       
-      // Navigate to video call screen with session info
-      (router as any).push(`/video-call/${channelName}?participantName=${encodeURIComponent(otherUser.name || 'User')}&sessionId=${currentSession?.id}`);
+      (router as any).push(callScreenHref(session, otherUser.name || 'User'));
     } catch (error) {
       console.error('Failed to start video call:', error);
-      Alert.alert('Error', 'Failed to start video call');
+      Alert.alert('Error', error instanceof CallError ? error.message : 'Failed to start video call');
     }
   };
 
@@ -102,16 +407,23 @@ export default function ChatScreen() {
     }
 
     try {
-      const channelName = await initiateCall(otherUser.id, 'audio');
+      const session = await initiateCall(otherUser.id, 'audio');
       
-      // Navigate to video call screen in audio mode
-      (router as any).push(`/video-call/${channelName}?participantName=${encodeURIComponent(otherUser.name || 'User')}&sessionId=${currentSession?.id}&audioOnly=true`);
+      (router as any).push(callScreenHref(session, otherUser.name || 'User'));
     } catch (error) {
       console.error('Failed to start audio call:', error);
-      Alert.alert('Error', 'Failed to start audio call');
+      Alert.alert('Error', error instanceof CallError ? error.message : 'Failed to start audio call');
     }
   };
 
+  const showCallBackOptions = () => {
+    Alert.alert('Call Back', undefined, [
+      { text: 'Video Call', onPress: startVideoCall },
+      { text: 'Audio Call', onPress: startAudioCall },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const getOtherUser = () => {
     if (!activeConversation || !userProfile) return null;
     
@@ -144,6 +456,42 @@ export default function ChatScreen() {
 
   const otherUser = getOtherUser();
 
+  useEffect(() => {
+    if (otherUser?.id) {
+      loadLastSeen([otherUser.id]);
+    }
+  }, [otherUser?.id]);
+
+  useEffect(() => {
+    const counterpartId = otherUser?.id;
+    setCounterpartTimeZone(null);
+    if (!counterpartId) return;
+
+    let cancelled = false;
+    fetchPublicProfiles([counterpartId])
+      .then(profiles => {
+        if (!cancelled) setCounterpartTimeZone(profiles[counterpartId]?.timezone ?? null);
+      })
+      .catch(error => console.error('Error loading counterpart timezone:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [otherUser?.id]);
+
+  const getHeaderStatus = () => {
+    if (!otherUser?.id) return null;
+    if (counterpartTyping) return 'Typing...';
+    if (isOnline(otherUser.id)) return 'Online';
+
+    const lastSeen = getLastSeen(otherUser.id);
+    return lastSeen ? formatLastSeen(lastSeen) : null;
+  };
+
+  const headerStatus = getHeaderStatus();
+  // Attachment captions may be cleared; text messages always need some text
+  const canSend = !!newMessage.trim() || (!!editingMessage && editingMessage.message_type !== 'text');
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -168,16 +516,23 @@ export default function ChatScreen() {
             <Text style={styles.headerAvatarText}>
               {otherUser?.name?.charAt(0)?.toUpperCase() || 'U'}
             </Text>
+            <PresenceDot userId={otherUser?.id} />
           </View>
           <View style={styles.headerText}>
             <Text style={styles.headerName}>
               {otherUser?.name || 'User'}
             </Text>
-            <Text style={styles.headerRole}>
-              {otherUser?.role === 'therapist' ? 'Therapist' : 
-               otherUser?.role === 'client' ? 'Client' : 
-               'User'}
-            </Text>
+            {headerStatus ? (
+              <Text style={[styles.headerRole, counterpartTyping && styles.headerTyping]}>
+                {headerStatus}
+              </Text>
+            ) : (
+              <Text style={styles.headerRole}>
+                {otherUser?.role === 'therapist' ? 'Therapist' : 
+                 otherUser?.role === 'client' ? 'Client' : 
+                 'User'}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -201,50 +556,203 @@ export default function ChatScreen() {
       </View>
 
       {/* Messages */}
-      <ScrollView
-        ref={scrollViewRef}
+      <FlatList
+        ref={listRef}
+        data={invertedMessages}
+        keyExtractor={message => message.id}
+        inverted
         style={styles.messagesContainer}
         showsVerticalScrollIndicator={false}
-      >
-        {messages.map((message, index) => {
+        onEndReached={() => {
+          if (hasOlderMessages) loadOlderMessages();
+        }}
+        onEndReachedThreshold={0.5}
+        // Only a window opened in the middle of the thread has newer pages to load
+        onStartReached={() => {
+          if (hasNewerMessages) loadNewerMessages();
+        }}
+        onStartReachedThreshold={0.5}
+        maintainVisibleContentPosition={hasNewerMessages ? { minIndexForVisible: 0 } : undefined}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+          setTimeout(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: false }), 100);
+        }}
+        ListHeaderComponent={loadingNewerMessages ? (
+          <ActivityIndicator style={styles.olderMessagesLoader} color="#10B981" />
+        ) : null}
+        ListFooterComponent={loadingOlderMessages ? (
+          <ActivityIndicator style={styles.olderMessagesLoader} color="#10B981" />
+        ) : null}
+        renderItem={({ item: message, index }) => {
           const isOwnMessage = message.sender_id === userProfile?.id;
-          const showTime = index === 0 || 
-            new Date(message.created_at).getTime() - new Date(messages[index - 1].created_at).getTime() > 300000; // 5 minutes
+          const isRemoved = !!message.deleted_at;
+          const previousMessage = invertedMessages[index + 1];
+          const showTime = !previousMessage || 
+            new Date(message.created_at).getTime() - new Date(previousMessage.created_at).getTime() > 300000; // 5 minutes
+
+          if (message.is_system_message) {
+            return (
+              <View>
+                {showTime && (
+                  <Text style={styles.timeStamp}>
+                    {formatMessageTime(message.created_at)}
+                  </Text>
+                )}
+                {message.message_type === 'missed_call' ? (
+                  <View style={[styles.systemMessage, styles.missedCallMessage]}>
+                    <PhoneMissed size={14} color="#dc2626" />
+                    <Text style={[styles.systemMessageText, styles.missedCallText]}>
+                      {isOwnMessage ? `${message.message} (no answer)` : message.message}
+                    </Text>
+                    {!isOwnMessage && (
+                      <TouchableOpacity style={styles.callBackButton} onPress={showCallBackOptions}>
+                        <Text style={styles.callBackButtonText}>Call back</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ) : (
+                  <View style={styles.systemMessage}>
+                    <Text style={styles.systemMessageText}>{message.message}</Text>
+                  </View>
+                )}
+              </View>
+            );
+          }
 
           return (
-            <View key={message.id}>
+            <View>
               {showTime && (
                 <Text style={styles.timeStamp}>
                   {formatMessageTime(message.created_at)}
                 </Text>
               )}
-              <View style={[
-                styles.messageContainer,
-                isOwnMessage ? styles.ownMessage : styles.otherMessage
-              ]}>
-                <Text style={[
-                  styles.messageText,
-                  isOwnMessage ? styles.ownMessageText : styles.otherMessageText
-                ]}>
-                  {message.message}
-                </Text>
-                {isOwnMessage && (
-                  <Text style={styles.readStatus}>
-                    {message.read ? 'Read' : 'Sent'}
+              <Pressable
+                style={[
+                  styles.messageContainer,
+                  isOwnMessage ? styles.ownMessage : styles.otherMessage,
+                  isRemoved && styles.removedMessage,
+                  message.id === highlightedMessageId && styles.highlightedMessage,
+                  message.delivery_status === 'failed' && styles.failedMessage
+                ]}
+                onPress={message.delivery_status === 'failed' ? () => showUnsentActions(message) : undefined}
+                onLongPress={isOwnMessage && !message.delivery_status && canRemoveMessage(message) ? () => showMessageActions(message) : undefined}
+              >
+                {isRemoved && (
+                  <Text style={[
+                    styles.removedMessageText,
+                    isOwnMessage ? styles.ownMessageText : styles.otherMessageText
+                  ]}>
+                    Message removed
                   </Text>
                 )}
-              </View>
+                {!isRemoved && message.attachments && message.attachments.length > 0 && (
+                  <MessageAttachments
+                    attachments={message.attachments}
+                    isOwnMessage={isOwnMessage}
+                    onOpenImage={setViewerAttachment}
+                  />
+                )}
+                {message.appointment_request && (
+                  <AppointmentRequestCard
+                    request={message.appointment_request}
+                    isOwnRequest={message.appointment_request.requested_by === userProfile?.id}
+                    responding={respondingRequestId === message.appointment_request.id}
+                    counterpartName={otherUser?.name}
+                    counterpartTimeZone={counterpartTimeZone}
+                    onAccept={slot => handleAcceptRequest(message.appointment_request!, slot)}
+                    onDecline={() => handleDeclineRequest(message.appointment_request!)}
+                    onSuggest={() => setProposal({ replyTo: message.appointment_request! })}
+                  />
+                )}
+                {!isRemoved && !!message.message && (
+                  <Text style={[
+                    styles.messageText,
+                    isOwnMessage ? styles.ownMessageText : styles.otherMessageText
+                  ]}>
+                    {message.message}
+                  </Text>
+                )}
+                {!isOwnMessage && !!message.edited_at && !isRemoved && (
+                  <Text style={styles.editedLabel}>Edited</Text>
+                )}
+                {isOwnMessage && !isRemoved && (
+                  <View style={styles.readStatus}>
+                    {!!message.edited_at && (
+                      <Text style={[styles.readStatusText, styles.ownEditedLabel]}>Edited</Text>
+                    )}
+                    {message.delivery_status === 'failed' ? (
+                      <AlertCircle size={14} color="#fee2e2" />
+                    ) : message.delivery_status === 'sending' ? (
+                      <Clock size={14} color="rgba(255, 255, 255, 0.7)" />
+                    ) : message.read ? (
+                      <CheckCheck size={14} color="#ffffff" />
+                    ) : (
+                      <Check size={14} color="rgba(255, 255, 255, 0.7)" />
+                    )}
+                    <Text style={[styles.readStatusText, message.delivery_status === 'failed' && styles.failedStatusText]}>
+                      {message.delivery_status === 'failed'
+                        ? 'Not sent. Tap to retry'
+                        : message.delivery_status === 'sending'
+                        ? 'Sending...'
+                        : message.read
+                        ? message.read_at ? `Seen ${formatMessageTime(message.read_at)}` : 'Seen'
+                        : 'Delivered'}
+                    </Text>
+                  </View>
+                )}
+              </Pressable>
             </View>
           );
-        })}
-      </ScrollView>
+        }}
+      />
+
+      {hasNewerMessages && (
+        <TouchableOpacity style={styles.jumpToLatest} onPress={jumpToLatest}>
+          <Text style={styles.jumpToLatestText}>Jump to latest</Text>
+        </TouchableOpacity>
+      )}
+
+      {editingMessage && (
+        <View style={styles.editingBanner}>
+          <Pencil size={16} color="#10B981" />
+          <View style={styles.editingBannerText}>
+            <Text style={styles.editingBannerTitle}>Editing message</Text>
+            <Text style={styles.editingBannerPreview} numberOfLines={1}>
+              {editingMessage.message}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={cancelEditing} accessibilityLabel="Cancel editing">
+            <X size={18} color="#64748b" />
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Message Input */}
       <View style={styles.inputContainer}>
+        <TouchableOpacity
+          style={styles.attachButton}
+          onPress={showAttachmentOptions}
+          disabled={sendingAttachments || !!editingMessage}
+          accessibilityLabel="Send attachment"
+        >
+          {sendingAttachments ? (
+            <ActivityIndicator color="#10B981" />
+          ) : (
+            <Paperclip size={20} color="#64748b" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.attachButton}
+          onPress={() => setProposal({ replyTo: null })}
+          disabled={!activeConversation || !!editingMessage}
+          accessibilityLabel="Request appointment"
+        >
+          <CalendarPlus size={20} color="#64748b" />
+        </TouchableOpacity>
         <TextInput
           style={styles.textInput}
           value={newMessage}
-          onChangeText={setNewMessage}
+          onChangeText={handleChangeText}
           placeholder="Type a message..."
           multiline
           maxLength={500}
@@ -252,14 +760,34 @@ export default function ChatScreen() {
         <TouchableOpacity 
           style={[
             styles.sendButton,
-            newMessage.trim() && styles.sendButtonActive
+            canSend && styles.sendButtonActive
           ]}
           onPress={handleSendMessage}
-          disabled={!newMessage.trim()}
+          disabled={!canSend || savingEdit}
         >
-          <Send size={20} color={newMessage.trim() ? '#ffffff' : '#64748b'} />
+          {savingEdit ? (
+            <ActivityIndicator color="#ffffff" size="small" />
+          ) : editingMessage ? (
+            <Check size={20} color={canSend ? '#ffffff' : '#64748b'} />
+          ) : (
+            <Send size={20} color={canSend ? '#ffffff' : '#64748b'} />
+          )}
         </TouchableOpacity>
       </View>
+
+      <AttachmentViewer attachment={viewerAttachment} onClose={() => setViewerAttachment(null)} />
+
+      {activeConversation && (
+        <AppointmentRequestModal
+          visible={!!proposal}
+          therapistUserId={activeConversation.therapist_id}
+          title={proposal?.replyTo ? 'Suggest Another Time' : 'Request an Appointment'}
+          initialDuration={proposal?.replyTo?.duration}
+          submitting={sendingProposal}
+          onConfirm={handleSendProposal}
+          onDismiss={() => setProposal(null)}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -323,6 +851,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6b7280',
   },
+  headerTyping: {
+    color: '#10B981',
+    fontStyle: 'italic',
+  },
   headerActions: {
     flexDirection: 'row',
     gap: 8,
@@ -335,6 +867,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 8,
   },
+  olderMessagesLoader: {
+    marginVertical: 16,
+  },
   timeStamp: {
     textAlign: 'center',
     fontSize: 12,
@@ -369,12 +904,115 @@ const styles = StyleSheet.create({
   otherMessageText: {
     color: '#1f2937',
   },
-  readStatus: {
+  systemMessage: {
+    alignSelf: 'center',
+    backgroundColor: '#ecfdf5',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginVertical: 6,
+    maxWidth: '90%',
+  },
+  systemMessageText: {
+    fontSize: 13,
+    color: '#047857',
+    textAlign: 'center',
+  },
+  missedCallMessage: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+  },
+  missedCallText: {
+    color: '#b91c1c',
+    marginLeft: 6,
+  },
+  callBackButton: {
+    marginLeft: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: '#10B981',
+  },
+  callBackButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  failedMessage: {
+    backgroundColor: '#f87171',
+  },
+  failedStatusText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  highlightedMessage: {
+    borderWidth: 2,
+    borderColor: '#f59e0b',
+  },
+  jumpToLatest: {
+    alignSelf: 'center',
+    backgroundColor: '#10B981',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  jumpToLatestText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  removedMessage: {
+    opacity: 0.7,
+  },
+  removedMessageText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  editedLabel: {
     fontSize: 10,
-    color: 'rgba(255, 255, 255, 0.8)',
+    color: '#6b7280',
     marginTop: 4,
     textAlign: 'right',
   },
+  ownEditedLabel: {
+    marginLeft: 0,
+    marginRight: 6,
+  },
+  readStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  readStatusText: {
+    fontSize: 10,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginLeft: 4,
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ecfdf5',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#d1fae5',
+  },
+  editingBannerText: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  editingBannerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#047857',
+  },
+  editingBannerPreview: {
+    fontSize: 13,
+    color: '#64748b',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -384,6 +1022,13 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#e5e7eb',
   },
+  attachButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
   textInput: {
     flex: 1,
     borderWidth: 1,
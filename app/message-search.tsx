@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { ArrowLeft, Search, X } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { MessageCursor } from '@/lib/messaging';
+import { MessageSearchResult, searchMessages, splitSnippet } from '@/lib/message-search';
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 350;
+
+export default function MessageSearchScreen() {
+  const { q } = useLocalSearchParams<{ q?: string }>();
+  const { userProfile } = useAuth();
+
+  const [query, setQuery] = useState(q || '');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [cursor, setCursor] = useState<MessageCursor | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignores responses to queries the user has already typed past
+  const latestQuery = useRef(query);
+
+  useEffect(() => {
+    latestQuery.current = query;
+
+    if (!query.trim()) {
+      setResults([]);
+      setCursor(null);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const page = await searchMessages(query);
+        if (latestQuery.current !== query) return;
+
+        setResults(page.rows);
+        setCursor(page.nextCursor);
+        setError(null);
+      } catch (searchError) {
+        console.error('Error searching messages:', searchError);
+        if (latestQuery.current === query) setError('Search failed. Please try again.');
+      } finally {
+        if (latestQuery.current === query) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const loadMore = async () => {
+    if (!cursor || loadingMore || searching) return;
+
+    const currentQuery = query;
+    try {
+      setLoadingMore(true);
+      const page = await searchMessages(currentQuery, cursor);
+      if (latestQuery.current !== currentQuery) return;
+
+      setResults(prev => [...prev, ...page.rows.filter(row => !prev.some(existing => existing.id === row.id))]);
+      setCursor(page.nextCursor);
+    } catch (searchError) {
+      console.error('Error loading more results:', searchError);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const openResult = (result: MessageSearchResult) => {
+    router.push({
+      pathname: '/chat/[conversationId]',
+      params: { conversationId: result.conversation_id, messageId: result.id },
+    });
+  };
+
+  const formatResultDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const sameYear = date.getFullYear() === new Date().getFullYear();
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(sameYear ? {} : { year: 'numeric' }),
+    });
+  };
+
+  const renderEmpty = () => {
+    if (searching) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator color="#10B981" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyText}>
+          {error || (query.trim() ? 'No messages found.' : 'Search the messages in all your conversations.')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#10B981" />
+        </TouchableOpacity>
+        <View style={styles.searchBox}>
+          <Search size={18} color="#94a3b8" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search messages..."
+            placeholderTextColor="#94a3b8"
+            autoFocus
+            returnKeyType="search"
+          />
+          {!!query && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Clear search">
+              <X size={18} color="#94a3b8" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={result => result.id}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.resultsList}
+        ListEmptyComponent={renderEmpty}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? (
+          <ActivityIndicator style={styles.footerLoader} color="#10B981" />
+        ) : null}
+        renderItem={({ item: result }) => (
+          <TouchableOpacity style={styles.resultCard} onPress={() => openResult(result)}>
+            <View style={styles.resultHeader}>
+              <Text style={styles.resultName} numberOfLines={1}>
+                {result.sender_id === userProfile?.id ? 'You' : result.counterpart_name || 'User'}
+                {result.sender_id === userProfile?.id && result.counterpart_name && (
+                  <Text style={styles.resultRecipient}> to {result.counterpart_name}</Text>
+                )}
+              </Text>
+              <Text style={styles.resultDate}>{formatResultDate(result.created_at)}</Text>
+            </View>
+            <Text style={styles.snippet} numberOfLines={3}>
+              {splitSnippet(result.snippet).map((part, index) => (
+                <Text key={index} style={part.match ? styles.snippetMatch : undefined}>
+                  {part.text}
+                </Text>
+              ))}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    paddingTop: 50,
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1f2937',
+    marginHorizontal: 8,
+  },
+  resultsList: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  resultCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 12,
+    marginBottom: 10,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  resultName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginRight: 8,
+  },
+  resultRecipient: {
+    fontWeight: '400',
+    color: '#64748b',
+  },
+  resultDate: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  snippet: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#475569',
+  },
+  snippetMatch: {
+    backgroundColor: '#d1fae5',
+    color: '#047857',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+});
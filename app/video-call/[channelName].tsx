@@ -1,13 +1,53 @@
 // app/video-call/[channelName].tsx - Simplified Agora implementation
-import React, { useState } from 'react';
-import { View, StyleSheet, SafeAreaView, TouchableOpacity, Text } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, SafeAreaView, TouchableOpacity, Text, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { WebView } from 'react-native-webview';
+import { useVideoCall } from '@/contexts/VideoCallContext';
+import { CallError } from '@/lib/call-sessions';
 
 export default function JitsiVideoCallScreen() {
-  const { channelName } = useLocalSearchParams<{ channelName: string }>();
+  const { channelName, sessionId, participantName } = useLocalSearchParams<{
+    channelName: string;
+    sessionId?: string;
+    participantName?: string;
+  }>();
   const router = useRouter();
+  const { endCall, callHistory } = useVideoCall();
   const [inCall, setInCall] = useState(false);
+  const leaving = useRef(false);
+
+  // Closed sessions move into the history, including ones the other side declined or hung up
+  const closedSession = sessionId ? callHistory.find(session => session.id === sessionId) : undefined;
+
+  useEffect(() => {
+    if (!closedSession || leaving.current) return;
+
+    leaving.current = true;
+    if (closedSession.status === 'declined') {
+      Alert.alert('Call Declined', `${participantName || 'The other person'} declined the call.`);
+    } else if (closedSession.status === 'missed') {
+      Alert.alert('No Answer', `${participantName || 'The other person'} didn't answer.`);
+    } else {
+      Alert.alert('Call Ended', 'The call has ended.');
+    }
+    router.back();
+  }, [closedSession?.status]);
+
+  // Hangs up the recorded call, if any; one the other side already ended needs nothing more
+  const leaveCall = async () => {
+    leaving.current = true;
+    if (sessionId) {
+      try {
+        await endCall(sessionId);
+      } catch (error) {
+        if (!(error instanceof CallError && error.code === 'call_closed')) {
+          console.error('Failed to end call:', error);
+        }
+      }
+    }
+    router.back();
+  };
 
   // Jitsi Meet URL with the room name
   const jitsiUrl = `https://meet.jit.si/${encodeURIComponent(channelName || 'default-room')}`;
@@ -21,7 +61,7 @@ export default function JitsiVideoCallScreen() {
           <TouchableOpacity style={styles.joinButton} onPress={() => setInCall(true)}>
             <Text style={styles.joinButtonText}>Join in Browser</Text>
           </TouchableOpacity>
-          <TouchableOpacity style={styles.cancelButton} onPress={() => router.back()}>
+          <TouchableOpacity style={styles.cancelButton} onPress={leaveCall}>
             <Text style={styles.cancelButtonText}>Cancel</Text>
           </TouchableOpacity>
         </View>
@@ -36,7 +76,7 @@ export default function JitsiVideoCallScreen() {
             />
           </View>
           <View style={styles.buttonContainer}>
-            <TouchableOpacity style={styles.endButton} onPress={() => router.back()}>
+            <TouchableOpacity style={styles.endButton} onPress={leaveCall}>
               <Text style={styles.endButtonText}>End Call</Text>
             </TouchableOpacity>
           </View>
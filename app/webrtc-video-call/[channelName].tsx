@@ -0,0 +1,294 @@
+// app/webrtc-video-call/[channelName].tsx - Peer-to-peer call over react-native-webrtc
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, SafeAreaView, TouchableOpacity, Text, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { MediaStream, RTCView } from 'react-native-webrtc';
+import { Mic, MicOff, Video, VideoOff, SwitchCamera, PhoneOff } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVideoCall } from '@/contexts/VideoCallContext';
+import { CallError } from '@/lib/call-sessions';
+import { PeerConnectionState, WebRTCCall, createWebRTCCall } from '@/lib/webrtc-service';
+
+export default function WebRTCVideoCallScreen() {
+  const { sessionId, participantName, audioOnly } = useLocalSearchParams<{
+    channelName: string;
+    sessionId?: string;
+    participantName?: string;
+    audioOnly?: string;
+  }>();
+  const router = useRouter();
+  const { userProfile } = useAuth();
+  const { activeSessions, callHistory, endCall } = useVideoCall();
+
+  const isAudioOnly = audioOnly === 'true';
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [connectionState, setConnectionState] = useState<PeerConnectionState>('new');
+  const [muted, setMuted] = useState(false);
+  const [cameraOn, setCameraOn] = useState(!isAudioOnly);
+  const [frontCamera, setFrontCamera] = useState(true);
+  const call = useRef<WebRTCCall | null>(null);
+  const leaving = useRef(false);
+
+  const session = activeSessions.find(s => s.id === sessionId);
+  // Closed sessions move into the history, including ones the other side declined or hung up
+  const closedSession = sessionId ? callHistory.find(s => s.id === sessionId) : undefined;
+  const isCaller = !!session && session.caller_id === userProfile?.id;
+  const name = participantName || 'the other person';
+
+  useEffect(() => {
+    if (!sessionId) {
+      Alert.alert('Error', 'This call could not be found.');
+      router.back();
+    }
+
+    return () => {
+      call.current?.close();
+      call.current = null;
+    };
+  }, []);
+
+  // Media and signaling start as soon as the session is known; the caller's preview shows while it rings
+  useEffect(() => {
+    if (!session || !userProfile || call.current) return;
+
+    const webrtcCall = createWebRTCCall(
+      {
+        sessionId: session.id,
+        userId: userProfile.id,
+        role: session.caller_id === userProfile.id ? 'caller' : 'callee',
+        audioOnly: isAudioOnly,
+      },
+      {
+        onLocalStream: setLocalStream,
+        onRemoteStream: setRemoteStream,
+        onConnectionStateChange: setConnectionState,
+        onError: error => console.error('WebRTC call error:', error),
+      }
+    );
+    call.current = webrtcCall;
+
+    webrtcCall.start().catch(error => {
+      console.error('Failed to start call media:', error);
+      Alert.alert('Call Failed', 'Could not access the camera or microphone.');
+    });
+  }, [session?.id, userProfile?.id]);
+
+  // The caller offers once the callee answers
+  useEffect(() => {
+    if (session?.status === 'active' && isCaller) {
+      call.current?.sendOffer().catch(error => console.error('Failed to send call offer:', error));
+    }
+  }, [session?.status, isCaller]);
+
+  useEffect(() => {
+    if (!closedSession || leaving.current) return;
+
+    leaving.current = true;
+    call.current?.close();
+    if (closedSession.status === 'declined') {
+      Alert.alert('Call Declined', `${participantName || 'The other person'} declined the call.`);
+    } else if (closedSession.status === 'missed') {
+      Alert.alert('No Answer', `${participantName || 'The other person'} didn't answer.`);
+    } else {
+      Alert.alert('Call Ended', 'The call has ended.');
+    }
+    router.back();
+  }, [closedSession?.status]);
+
+  const hangUp = async () => {
+    leaving.current = true;
+    call.current?.close();
+
+    if (sessionId) {
+      try {
+        await endCall(sessionId);
+      } catch (error) {
+        if (!(error instanceof CallError && error.code === 'call_closed')) {
+          console.error('Failed to end call:', error);
+        }
+      }
+    }
+    router.back();
+  };
+
+  const toggleMute = () => {
+    call.current?.setMuted(!muted);
+    setMuted(!muted);
+  };
+
+  const toggleCamera = () => {
+    call.current?.setCameraEnabled(!cameraOn);
+    setCameraOn(!cameraOn);
+  };
+
+  const flipCamera = async () => {
+    try {
+      await call.current?.switchCamera();
+      setFrontCamera(!frontCamera);
+    } catch (error) {
+      console.error('Failed to switch camera:', error);
+    }
+  };
+
+  const getStatusText = () => {
+    if (!session || session.status === 'pending') {
+      return isCaller ? `Calling ${name}...` : 'Connecting...';
+    }
+
+    switch (connectionState) {
+      case 'connected':
+        return null;
+      case 'disconnected':
+        return 'Reconnecting...';
+      case 'failed':
+        return 'Connection lost';
+      default:
+        return 'Connecting...';
+    }
+  };
+
+  const statusText = getStatusText();
+  const showRemoteVideo = !!remoteStream && !isAudioOnly && connectionState !== 'failed';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.remoteContainer}>
+        {showRemoteVideo ? (
+          <RTCView streamURL={remoteStream.toURL()} style={styles.remoteVideo} objectFit="cover" zOrder={0} />
+        ) : (
+          <View style={styles.placeholder}>
+            <Text style={styles.participantName}>{participantName || 'Call'}</Text>
+            {!!statusText && <Text style={styles.statusText}>{statusText}</Text>}
+          </View>
+        )}
+
+        {showRemoteVideo && !!statusText && (
+          <View style={styles.statusBanner}>
+            <Text style={styles.statusBannerText}>{statusText}</Text>
+          </View>
+        )}
+
+        {!isAudioOnly && localStream && cameraOn && (
+          <RTCView
+            streamURL={localStream.toURL()}
+            style={styles.localVideo}
+            objectFit="cover"
+            mirror={frontCamera}
+            zOrder={1}
+          />
+        )}
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={[styles.controlButton, muted && styles.controlButtonOff]}
+          onPress={toggleMute}
+          accessibilityLabel={muted ? 'Unmute' : 'Mute'}
+        >
+          {muted ? <MicOff size={24} color="#1f2937" /> : <Mic size={24} color="#ffffff" />}
+        </TouchableOpacity>
+
+        {!isAudioOnly && (
+          <TouchableOpacity
+            style={[styles.controlButton, !cameraOn && styles.controlButtonOff]}
+            onPress={toggleCamera}
+            accessibilityLabel={cameraOn ? 'Turn camera off' : 'Turn camera on'}
+          >
+            {cameraOn ? <Video size={24} color="#ffffff" /> : <VideoOff size={24} color="#1f2937" />}
+          </TouchableOpacity>
+        )}
+
+        {!isAudioOnly && (
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={flipCamera}
+            disabled={!cameraOn}
+            accessibilityLabel="Switch camera"
+          >
+            <SwitchCamera size={24} color={cameraOn ? '#ffffff' : '#64748b'} />
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={[styles.controlButton, styles.hangUpButton]} onPress={hangUp} accessibilityLabel="Hang up">
+          <PhoneOff size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  remoteContainer: {
+    flex: 1,
+  },
+  remoteVideo: {
+    flex: 1,
+  },
+  placeholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  participantName: {
+    color: '#fff',
+    fontSize: 26,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  statusText: {
+    color: '#cbd5e1',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  statusBanner: {
+    position: 'absolute',
+    top: 16,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  statusBannerText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  localVideo: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    width: 110,
+    height: 160,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#1f2937',
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+    alignItems: 'center',
+    paddingVertical: 20,
+    backgroundColor: '#000',
+  },
+  controlButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.18)',
+  },
+  controlButtonOff: {
+    backgroundColor: '#ffffff',
+  },
+  hangUpButton: {
+    backgroundColor: '#ef4444',
+  },
+});
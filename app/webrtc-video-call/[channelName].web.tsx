@@ -0,0 +1,9 @@
+// app/webrtc-video-call/[channelName].web.tsx - react-native-webrtc has no web build; use the browser meeting room
+import React from 'react';
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+export default function WebRTCVideoCallWebScreen() {
+  const params = useLocalSearchParams<{ channelName: string }>();
+
+  return <Redirect href={{ pathname: '/video-call/[channelName]', params }} />;
+}
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CalendarClock } from 'lucide-react-native';
+import { AppointmentRequest } from '@/lib/appointment-requests';
+import { formatInTimeZone, getDeviceTimeZone, getTimeZoneLabel, isSameWallClock } from '@/lib/timezone';
+
+interface AppointmentRequestCardProps {
+  request: AppointmentRequest;
+  isOwnRequest: boolean;
+  responding?: boolean;
+  counterpartName?: string | null;
+  // Each time is also shown on this clock when it reads differently from the device's
+  counterpartTimeZone?: string | null;
+  onAccept: (slot: string) => void;
+  onDecline: () => void;
+  onSuggest: () => void;
+}
+
+const formatSlot = (slot: string, timeZone: string) => {
+  const date = new Date(slot);
+  const text = formatInTimeZone(date, timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  return `${text} ${getTimeZoneLabel(date, timeZone)}`;
+};
+
+const STATUS_LABELS: Record<AppointmentRequest['status'], string> = {
+  pending: 'Waiting for a response',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  countered: 'Other times suggested',
+};
+
+export default function AppointmentRequestCard({
+  request,
+  isOwnRequest,
+  responding = false,
+  counterpartName,
+  counterpartTimeZone,
+  onAccept,
+  onDecline,
+  onSuggest,
+}: AppointmentRequestCardProps) {
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+
+  const now = Date.now();
+  const openSlots = request.proposed_slots.filter(slot => new Date(slot).getTime() > now);
+  const canRespond = !isOwnRequest && request.status === 'pending';
+  const viewerTimeZone = getDeviceTimeZone();
+
+  useEffect(() => {
+    // A single remaining option needs no extra tap
+    setSelectedSlot(openSlots.length === 1 ? openSlots[0] : null);
+  }, [request.id, request.status, openSlots.length]);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <CalendarClock size={18} color="#10B981" />
+        <Text style={styles.title}>
+          {request.in_reply_to ? 'Suggested times' : 'Appointment request'} · {request.duration} min
+        </Text>
+      </View>
+
+      {request.proposed_slots.map(slot => {
+        const past = new Date(slot).getTime() <= now;
+        const accepted = request.accepted_slot === slot;
+        const selected = selectedSlot === slot;
+        const showCounterpartTime = !!counterpartTimeZone && !isSameWallClock(new Date(slot), viewerTimeZone, counterpartTimeZone);
+
+        return (
+          <TouchableOpacity
+            key={slot}
+            style={[
+              styles.slot,
+              selected && styles.slotSelected,
+              accepted && styles.slotAccepted,
+              past && !accepted && styles.slotPast,
+            ]}
+            onPress={() => setSelectedSlot(slot)}
+            disabled={!canRespond || past}
+          >
+            {canRespond && (
+              <View style={[styles.radio, selected && styles.radioSelected]} />
+            )}
+            <View>
+              <Text style={[styles.slotText, (selected || accepted) && styles.slotTextSelected]}>
+                {formatSlot(slot, viewerTimeZone)}
+              </Text>
+              {showCounterpartTime && (
+                <Text style={[styles.counterpartTime, (selected || accepted) && styles.slotTextSelected]}>
+                  {formatSlot(slot, counterpartTimeZone!)} for {counterpartName || 'them'}
+                </Text>
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {canRespond ? (
+        openSlots.length === 0 ? (
+          <>
+            <Text style={styles.status}>All proposed times have passed.</Text>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={onSuggest} disabled={responding}>
+                <Text style={styles.secondaryText}>Suggest another time</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.primaryButton, (!selectedSlot || responding) && styles.buttonDisabled]}
+              onPress={() => selectedSlot && onAccept(selectedSlot)}
+              disabled={!selectedSlot || responding}
+            >
+              {responding ? (
+                <ActivityIndicator color="#ffffff" size="small" />
+              ) : (
+                <Text style={styles.primaryText}>Accept</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDecline} disabled={responding}>
+              <Text style={styles.secondaryText}>Decline</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onSuggest} disabled={responding}>
+              <Text style={styles.secondaryText}>Suggest another time</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      ) : (
+        <Text style={[styles.status, request.status === 'accepted' && styles.statusAccepted]}>
+          {STATUS_LABELS[request.status]}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1fae5',
+    padding: 12,
+    minWidth: 240,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  slot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: '#f8fafc',
+    marginBottom: 6,
+  },
+  slotSelected: {
+    backgroundColor: '#10B981',
+  },
+  slotAccepted: {
+    backgroundColor: '#10B981',
+  },
+  slotPast: {
+    opacity: 0.5,
+  },
+  radio: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#94a3b8',
+    marginRight: 8,
+  },
+  radioSelected: {
+    borderColor: '#ffffff',
+    backgroundColor: '#ffffff',
+  },
+  slotText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  counterpartTime: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  slotTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#10B981',
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginRight: 8,
+    marginTop: 4,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginTop: 4,
+  },
+  secondaryText: {
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  status: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  statusAccepted: {
+    color: '#10B981',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,412 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { SESSION_LENGTHS, loadTherapistAvailability } from '@/lib/availability';
+import {
+  BusyInterval,
+  fetchTherapistBusyIntervals,
+  generateAvailableSlots,
+  getSessionLengthsForDate,
+} from '@/lib/booking-slots';
+import { MAX_PROPOSED_SLOTS } from '@/lib/appointment-requests';
+import { getDeviceTimeZone, getTimeZoneLabel } from '@/lib/timezone';
+import { fetchPublicProfiles } from '@/lib/public-profiles';
+import type { TherapistAvailability } from '@/types/database';
+
+// How far ahead times can be proposed from chat
+const REQUEST_WINDOW_DAYS = 14;
+
+export type AppointmentProposal = {
+  slots: Date[];
+  duration: number;
+  note: string;
+};
+
+interface AppointmentRequestModalProps {
+  visible: boolean;
+  therapistUserId: string;
+  title: string;
+  initialDuration?: number;
+  submitting?: boolean;
+  onConfirm: (proposal: AppointmentProposal) => void;
+  onDismiss: () => void;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const formatSlot = (start: Date) =>
+  start.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function AppointmentRequestModal({
+  visible,
+  therapistUserId,
+  title,
+  initialDuration = 60,
+  submitting = false,
+  onConfirm,
+  onDismiss,
+}: AppointmentRequestModalProps) {
+  const [availability, setAvailability] = useState<TherapistAvailability | null>(null);
+  const [busy, setBusy] = useState<BusyInterval[]>([]);
+  const [loadError, setLoadError] = useState(false);
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
+  const [duration, setDuration] = useState(initialDuration);
+  const [selectedSlots, setSelectedSlots] = useState<Date[]>([]);
+  const [note, setNote] = useState('');
+
+  const days = useMemo(() => {
+    const today = startOfDay(new Date());
+    return Array.from({ length: REQUEST_WINDOW_DAYS }, (_, index) =>
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() + index));
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSelectedDate(days[0]);
+    setDuration(initialDuration);
+    setSelectedSlots([]);
+    setNote('');
+    setLoadError(false);
+
+    let cancelled = false;
+    const rangeEnd = new Date(days[days.length - 1].getTime());
+    rangeEnd.setDate(rangeEnd.getDate() + 1);
+
+    Promise.all([
+      loadTherapistAvailability(therapistUserId),
+      fetchPublicProfiles([therapistUserId]),
+      fetchTherapistBusyIntervals(therapistUserId, days[0], rangeEnd),
+    ])
+      .then(([loadedAvailability, profiles, loadedBusy]) => {
+        if (cancelled) return;
+        const therapistUser = profiles[therapistUserId];
+        // Older schedules carry no zone; the therapist's own zone is the best reading of them
+        setAvailability(loadedAvailability.timezone || !therapistUser?.timezone
+          ? loadedAvailability
+          : { ...loadedAvailability, timezone: therapistUser.timezone });
+        setBusy(loadedBusy);
+      })
+      .catch(error => {
+        console.error('Error loading therapist availability:', error);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, therapistUserId]);
+
+  const offeredDurations = useMemo(
+    () => availability ? getSessionLengthsForDate(availability, selectedDate) : [],
+    [availability, selectedDate]
+  );
+
+  const slots = useMemo(
+    () => availability ? generateAvailableSlots({ availability, date: selectedDate, duration, busy }) : [],
+    [availability, selectedDate, duration, busy]
+  );
+
+  const isSelected = (start: Date) => selectedSlots.some(slot => slot.getTime() === start.getTime());
+
+  const toggleSlot = (start: Date) => {
+    setSelectedSlots(prev => {
+      if (prev.some(slot => slot.getTime() === start.getTime())) {
+        return prev.filter(slot => slot.getTime() !== start.getTime());
+      }
+      if (prev.length >= MAX_PROPOSED_SLOTS) return prev;
+      return [...prev, start].sort((a, b) => a.getTime() - b.getTime());
+    });
+  };
+
+  // Every proposed time shares one duration
+  const changeDuration = (length: number) => {
+    setDuration(length);
+    setSelectedSlots([]);
+  };
+
+  const viewerTimeZone = getDeviceTimeZone();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onDismiss} disabled={submitting} accessibilityLabel="Close">
+              <X size={22} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          {loadError ? (
+            <Text style={styles.emptyText}>Could not load the therapist's availability. Please try again later.</Text>
+          ) : !availability ? (
+            <ActivityIndicator style={styles.loader} color="#10B981" />
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.hint}>
+                Pick up to {MAX_PROPOSED_SLOTS} times that suit you. Times are in your timezone ({getTimeZoneLabel(selectedDate, viewerTimeZone)}).
+              </Text>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayStrip}>
+                {days.map(day => {
+                  const active = day.getTime() === selectedDate.getTime();
+                  return (
+                    <TouchableOpacity
+                      key={day.getTime()}
+                      style={[styles.dayChip, active && styles.dayChipActive]}
+                      onPress={() => setSelectedDate(day)}
+                    >
+                      <Text style={[styles.dayName, active && styles.chipTextActive]}>
+                        {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                      </Text>
+                      <Text style={[styles.dayNumber, active && styles.chipTextActive]}>{day.getDate()}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+
+              <View style={styles.durationRow}>
+                {SESSION_LENGTHS.map(length => {
+                  const offered = offeredDurations.includes(length);
+                  const active = length === duration;
+                  return (
+                    <TouchableOpacity
+                      key={length}
+                      style={[styles.durationChip, active && styles.durationChipActive, !offered && styles.chipDisabled]}
+                      onPress={() => changeDuration(length)}
+                      disabled={!offered}
+                    >
+                      <Text style={[styles.durationText, active && styles.chipTextActive]}>{length} min</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {slots.length === 0 ? (
+                <Text style={styles.emptyText}>No open times on this day.</Text>
+              ) : (
+                <View style={styles.slotGrid}>
+                  {slots.map(slot => {
+                    const active = isSelected(slot.start);
+                    return (
+                      <TouchableOpacity
+                        key={slot.start.getTime()}
+                        style={[styles.slotChip, active && styles.slotChipActive]}
+                        onPress={() => toggleSlot(slot.start)}
+                      >
+                        <Text style={[styles.slotText, active && styles.chipTextActive]}>{slot.time}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
+              {selectedSlots.length > 0 && (
+                <View style={styles.selectedList}>
+                  <Text style={styles.sectionLabel}>Proposed times</Text>
+                  {selectedSlots.map(slot => (
+                    <View key={slot.getTime()} style={styles.selectedItem}>
+                      <Text style={styles.selectedText}>{formatSlot(slot)}</Text>
+                      <TouchableOpacity onPress={() => toggleSlot(slot)} accessibilityLabel="Remove time">
+                        <X size={16} color="#64748b" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <TextInput
+                style={styles.noteInput}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Add a note (optional)"
+                multiline
+                maxLength={300}
+              />
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, (selectedSlots.length === 0 || submitting) && styles.confirmButtonDisabled]}
+            onPress={() => onConfirm({ slots: selectedSlots, duration, note })}
+            disabled={selectedSlots.length === 0 || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.confirmText}>
+                Send {selectedSlots.length > 1 ? `${selectedSlots.length} times` : 'request'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  loader: {
+    marginVertical: 32,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  dayStrip: {
+    marginBottom: 12,
+  },
+  dayChip: {
+    width: 52,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+  },
+  dayChipActive: {
+    backgroundColor: '#10B981',
+  },
+  dayName: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  dayNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  durationRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  durationChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  durationChipActive: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  durationText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  slotChip: {
+    width: '22%',
+    margin: '1.5%',
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+  },
+  slotChipActive: {
+    backgroundColor: '#10B981',
+  },
+  slotText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  selectedList: {
+    marginTop: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  selectedItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  selectedText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+    minHeight: 60,
+    fontSize: 14,
+  },
+  confirmButton: {
+    backgroundColor: '#10B981',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { AppointmentEvent, AppointmentStatus, fetchAppointmentEvents } from '@/lib/appointments';
+
+interface AppointmentTimelineProps {
+  appointmentId: string;
+  currentUserId: string;
+  participants: Record<string, string>; // user id -> display name
+  // Changes whenever the appointment row changes, so the history is re-fetched
+  refreshKey?: string;
+}
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  booked: '#10B981',
+  completed: '#10B981',
+  cancelled: '#EF4444',
+  no_show: '#6B7280',
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const describeEvent = (event: AppointmentEvent) => {
+  switch (event.event_type) {
+    case 'created':
+      return 'Session booked';
+    case 'rescheduled':
+      if (event.old_scheduled_at === event.new_scheduled_at) {
+        return `Length changed from ${event.old_duration} to ${event.new_duration} minutes`;
+      }
+      return `Moved from ${formatTimestamp(event.old_scheduled_at!)} to ${formatTimestamp(event.new_scheduled_at!)}`;
+    case 'status_changed':
+      return `${STATUS_LABELS[event.old_status!] ?? event.old_status} → ${STATUS_LABELS[event.new_status!] ?? event.new_status}`;
+    default:
+      return 'Updated';
+  }
+};
+
+export default function AppointmentTimeline({
+  appointmentId,
+  currentUserId,
+  participants,
+  refreshKey,
+}: AppointmentTimelineProps) {
+  const [events, setEvents] = useState<AppointmentEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const history = await fetchAppointmentEvents(appointmentId);
+        if (!cancelled) {
+          setEvents(history);
+          setError(null);
+        }
+      } catch (loadError) {
+        console.error('Error loading appointment history:', loadError);
+        if (!cancelled) setError('Could not load history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, refreshKey]);
+
+  const actorName = (actorId: string | null) => {
+    if (!actorId) return 'System';
+    if (actorId === currentUserId) return 'You';
+    return participants[actorId] || 'Unknown';
+  };
+
+  if (loading) {
+    return <ActivityIndicator size="small" color="#10B981" style={styles.loader} />;
+  }
+
+  if (error) {
+    return <Text style={styles.emptyText}>{error}</Text>;
+  }
+
+  if (events.length === 0) {
+    return <Text style={styles.emptyText}>No history recorded</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {events.map((event, index) => {
+        const color = event.new_status ? STATUS_COLORS[event.new_status] : '#64748B';
+        const isLast = index === events.length - 1;
+
+        return (
+          <View key={event.id} style={styles.eventRow}>
+            <View style={styles.markerColumn}>
+              <View style={[styles.dot, { backgroundColor: color }]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.eventBody}>
+              <Text style={styles.eventTitle}>{describeEvent(event)}</Text>
+              <Text style={styles.eventMeta}>
+                {actorName(event.actor_id)} · {formatTimestamp(event.created_at)}
+              </Text>
+              {event.reason && (
+                <Text style={styles.eventReason}>"{event.reason}"</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    padding: 12,
+  },
+  loader: {
+    paddingVertical: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#94a3b8',
+  },
+  eventRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  markerColumn: {
+    alignItems: 'center',
+    width: 10,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e2e8f0',
+    marginVertical: 2,
+  },
+  eventBody: {
+    flex: 1,
+    paddingBottom: 12,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+  },
+  eventMeta: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+    marginTop: 2,
+  },
+  eventReason: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    fontStyle: 'italic',
+    color: '#475569',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { X, ExternalLink } from 'lucide-react-native';
+import { MessageAttachment, getAttachmentUrl } from '@/lib/message-attachments';
+
+interface AttachmentViewerProps {
+  attachment: MessageAttachment | null;
+  onClose: () => void;
+}
+
+// Full-screen view of an image attachment
+export default function AttachmentViewer({ attachment, onClose }: AttachmentViewerProps) {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUri(null);
+    if (!attachment) return;
+
+    let cancelled = false;
+    getAttachmentUrl(attachment.file_url)
+      .then(url => {
+        if (!cancelled) setUri(url);
+      })
+      .catch(error => {
+        console.error('Error loading attachment:', error);
+        Alert.alert('Error', 'Failed to load image');
+        onClose();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment?.file_url]);
+
+  const openExternally = async () => {
+    if (!uri) return;
+
+    try {
+      await WebBrowser.openBrowserAsync(uri);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+    }
+  };
+
+  return (
+    <Modal visible={!!attachment} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.toolbar}>
+          <TouchableOpacity style={styles.toolbarButton} onPress={onClose} accessibilityLabel="Close">
+            <X size={24} color="#ffffff" />
+          </TouchableOpacity>
+          <Text style={styles.fileName} numberOfLines={1}>
+            {attachment?.file_name}
+          </Text>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={openExternally}
+            disabled={!uri}
+            accessibilityLabel="Open in browser"
+          >
+            <ExternalLink size={22} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.imageContainer}>
+          {uri ? (
+            <Image source={{ uri }} style={styles.image} resizeMode="contain" />
+          ) : (
+            <ActivityIndicator size="large" color="#ffffff" />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 50,
+    paddingHorizontal: 8,
+    paddingBottom: 8,
+  },
+  toolbarButton: {
+    padding: 8,
+  },
+  fileName: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  imageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
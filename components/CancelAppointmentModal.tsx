@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+export type CancelScope = 'single' | 'series';
+
+interface CancelAppointmentModalProps {
+  visible: boolean;
+  counterpartName: string;
+  sessionLabel: string;
+  // Offer "this and following sessions" when the appointment belongs to a series
+  isSeries?: boolean;
+  submitting?: boolean;
+  onConfirm: (reason: string, scope: CancelScope) => void;
+  onDismiss: () => void;
+}
+
+export default function CancelAppointmentModal({
+  visible,
+  counterpartName,
+  sessionLabel,
+  isSeries = false,
+  submitting = false,
+  onConfirm,
+  onDismiss,
+}: CancelAppointmentModalProps) {
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<CancelScope>('single');
+
+  useEffect(() => {
+    if (visible) {
+      setReason('');
+      setScope('single');
+    }
+  }, [visible]);
+
+  const canSubmit = reason.trim().length > 0 && !submitting;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.card}>
+          <Text style={styles.title}>Cancel Session</Text>
+          <Text style={styles.subtitle}>
+            {sessionLabel} with {counterpartName}
+          </Text>
+
+          {isSeries && (
+            <View style={styles.scopeRow}>
+              {(['single', 'series'] as CancelScope[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.scopeOption, scope === option && styles.selectedScopeOption]}
+                  onPress={() => setScope(option)}
+                  disabled={submitting}
+                >
+                  <Text style={[styles.scopeText, scope === option && styles.selectedScopeText]}>
+                    {option === 'single' ? 'This session' : 'This and following'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.label}>Reason</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Let them know why you're cancelling"
+            placeholderTextColor="#94a3b8"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            numberOfLines={4}
+            textAlignVertical="top"
+            editable={!submitting}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDismiss} disabled={submitting}>
+              <Text style={styles.secondaryButtonText}>Keep Session</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.dangerButton, !canSubmit && styles.disabledButton]}
+              onPress={() => onConfirm(reason.trim(), scope)}
+              disabled={!canSubmit}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.dangerButtonText}>Cancel Session</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+    marginBottom: 16,
+  },
+  scopeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  scopeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedScopeOption: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#EF4444',
+  },
+  scopeText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
+  selectedScopeText: {
+    color: '#EF4444',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    fontFamily: 'System',
+    color: '#1e293b',
+    minHeight: 100,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
+  dangerButton: {
+    minWidth: 120,
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#EF4444',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#ffffff',
+  },
+});
@@ -1,7 +1,9 @@
 import React from 'react';
+import { Alert } from 'react-native';
 import { useVideoCall } from '@/contexts/VideoCallContext';
 import { useRouter } from 'expo-router';
 import CallInvitation from '@/components/CallInvitation';
+import { CallError, callScreenHref } from '@/lib/call-sessions';
 
 export default function GlobalCallHandler() {
   const { incomingCall, acceptCall, declineCall, dismissIncomingCall } = useVideoCall();
@@ -11,17 +13,19 @@ export default function GlobalCallHandler() {
     if (!incomingCall) return;
 
     try {
-      await acceptCall(incomingCall.session_id);
+      const session = await acceptCall(incomingCall.session_id);
       
-      // Navigate to video call screen
-      const channelName = `call_${incomingCall.session_id}`;
-      (router as any).push(
-        `/video-call/${channelName}?participantName=${encodeURIComponent(incomingCall.caller_name)}&sessionId=${incomingCall.session_id}`
-      );
+      // Navigate to the call screen
+      (router as any).push(callScreenHref(session, incomingCall.caller_name));
       
       dismissIncomingCall();
     } catch (error) {
       console.error('Failed to accept call:', error);
+      // Cancelled by the caller or answered on another device before this tap reached the server
+      if (error instanceof CallError && error.code === 'call_closed') {
+        dismissIncomingCall();
+        Alert.alert('Call Unavailable', 'This call is no longer ringing.');
+      }
     }
   };
 
@@ -33,6 +37,9 @@ export default function GlobalCallHandler() {
       dismissIncomingCall();
     } catch (error) {
       console.error('Failed to decline call:', error);
+      if (error instanceof CallError && error.code === 'call_closed') {
+        dismissIncomingCall();
+      }
     }
   };
 
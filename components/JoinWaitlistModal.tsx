@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { parseDateKey, parseTimeOfDay } from '@/lib/availability';
+
+export type WaitlistRequest = {
+  startDate: string;
+  endDate: string;
+  preferredStart: string | null;
+  preferredEnd: string | null;
+};
+
+interface JoinWaitlistModalProps {
+  visible: boolean;
+  therapistName: string;
+  initialDate: string; // "YYYY-MM-DD"
+  duration: number;
+  submitting?: boolean;
+  onConfirm: (request: WaitlistRequest) => void;
+  onDismiss: () => void;
+}
+
+const validateRequest = (startDate: string, endDate: string, preferredStart: string, preferredEnd: string): string | null => {
+  const start = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
+  if (!start || !end) return 'Enter dates as YYYY-MM-DD.';
+  if (end < start) return 'The end date must be on or after the start date.';
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (end < today) return 'Pick dates in the future.';
+
+  const from = preferredStart.trim() ? parseTimeOfDay(preferredStart) : null;
+  const to = preferredEnd.trim() ? parseTimeOfDay(preferredEnd) : null;
+  if ((preferredStart.trim() && from === null) || (preferredEnd.trim() && to === null)) {
+    return 'Enter preferred times as HH:mm.';
+  }
+  if (from !== null && to !== null && to <= from) return 'The preferred end time must be after the start time.';
+
+  return null;
+};
+
+export default function JoinWaitlistModal({
+  visible,
+  therapistName,
+  initialDate,
+  duration,
+  submitting = false,
+  onConfirm,
+  onDismiss,
+}: JoinWaitlistModalProps) {
+  const [startDate, setStartDate] = useState(initialDate);
+  const [endDate, setEndDate] = useState(initialDate);
+  const [preferredStart, setPreferredStart] = useState('');
+  const [preferredEnd, setPreferredEnd] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setStartDate(initialDate);
+      setEndDate(initialDate);
+      setPreferredStart('');
+      setPreferredEnd('');
+    }
+  }, [visible, initialDate]);
+
+  const validationError = validateRequest(startDate, endDate, preferredStart, preferredEnd);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.card}>
+          <Text style={styles.title}>Join Waitlist</Text>
+          <Text style={styles.subtitle}>
+            We'll offer you a {duration} minute session with {therapistName} if one opens up. The first person to claim an opening gets it.
+          </Text>
+
+          <Text style={styles.label}>Dates</Text>
+          <View style={styles.row}>
+            <TextInput
+              style={styles.input}
+              value={startDate}
+              onChangeText={setStartDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#94a3b8"
+              maxLength={10}
+              editable={!submitting}
+              accessibilityLabel="Waitlist start date"
+            />
+            <Text style={styles.separator}>to</Text>
+            <TextInput
+              style={styles.input}
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#94a3b8"
+              maxLength={10}
+              editable={!submitting}
+              accessibilityLabel="Waitlist end date"
+            />
+          </View>
+
+          <Text style={styles.label}>Preferred times (optional)</Text>
+          <View style={styles.row}>
+            <TextInput
+              style={styles.input}
+              value={preferredStart}
+              onChangeText={setPreferredStart}
+              placeholder="Any"
+              placeholderTextColor="#94a3b8"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+              editable={!submitting}
+              accessibilityLabel="Earliest preferred start time"
+            />
+            <Text style={styles.separator}>to</Text>
+            <TextInput
+              style={styles.input}
+              value={preferredEnd}
+              onChangeText={setPreferredEnd}
+              placeholder="Any"
+              placeholderTextColor="#94a3b8"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+              editable={!submitting}
+              accessibilityLabel="Latest preferred end time"
+            />
+          </View>
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDismiss} disabled={submitting}>
+              <Text style={styles.secondaryButtonText}>Not Now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (!!validationError || submitting) && styles.disabledButton]}
+              onPress={() => onConfirm({
+                startDate: startDate.trim(),
+                endDate: endDate.trim(),
+                preferredStart: preferredStart.trim() || null,
+                preferredEnd: preferredEnd.trim() || null,
+              })}
+              disabled={!!validationError || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Join Waitlist</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderColor: '#e2e8f0',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'System',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  separator: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
+  errorText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#ef4444',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#64748B',
+  },
+  primaryButton: {
+    minWidth: 120,
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#14b8a6',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#ffffff',
+  },
+});
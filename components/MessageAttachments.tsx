@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { FileText } from 'lucide-react-native';
+import {
+  MessageAttachment,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+} from '@/lib/message-attachments';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwnMessage: boolean;
+  onOpenImage: (attachment: MessageAttachment) => void;
+}
+
+const AttachmentThumbnail = ({ attachment, onPress }: { attachment: MessageAttachment; onPress: () => void }) => {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAttachmentUrl(attachment.file_url)
+      .then(url => {
+        if (!cancelled) setUri(url);
+      })
+      .catch(error => console.error('Error loading attachment preview:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.file_url]);
+
+  return (
+    <TouchableOpacity style={styles.thumbnail} onPress={onPress} activeOpacity={0.85}>
+      {uri ? (
+        <Image source={{ uri }} style={styles.thumbnailImage} resizeMode="cover" />
+      ) : (
+        <ActivityIndicator color="#10B981" />
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export default function MessageAttachments({ attachments, isOwnMessage, onOpenImage }: MessageAttachmentsProps) {
+  const images = attachments.filter(attachment => isImageAttachment(attachment.file_type));
+  const files = attachments.filter(attachment => !isImageAttachment(attachment.file_type));
+
+  const openFile = async (attachment: MessageAttachment) => {
+    try {
+      await WebBrowser.openBrowserAsync(await getAttachmentUrl(attachment.file_url));
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      Alert.alert('Error', 'Failed to open file');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {images.length > 0 && (
+        <View style={styles.thumbnailGrid}>
+          {images.map(attachment => (
+            <AttachmentThumbnail
+              key={attachment.id}
+              attachment={attachment}
+              onPress={() => onOpenImage(attachment)}
+            />
+          ))}
+        </View>
+      )}
+
+      {files.map(attachment => (
+        <TouchableOpacity
+          key={attachment.id}
+          style={[styles.fileCard, isOwnMessage ? styles.ownFileCard : styles.otherFileCard]}
+          onPress={() => openFile(attachment)}
+        >
+          <FileText size={24} color={isOwnMessage ? '#ffffff' : '#10B981'} />
+          <View style={styles.fileInfo}>
+            <Text
+              style={[styles.fileName, isOwnMessage && styles.ownFileText]}
+              numberOfLines={1}
+            >
+              {attachment.file_name}
+            </Text>
+            <Text style={[styles.fileSize, isOwnMessage && styles.ownFileText]}>
+              {formatFileSize(attachment.file_size)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 4,
+  },
+  thumbnailGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -2,
+  },
+  thumbnail: {
+    width: 140,
+    height: 140,
+    margin: 2,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#e5e7eb',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 12,
+    marginTop: 4,
+    minWidth: 200,
+  },
+  ownFileCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  otherFileCard: {
+    backgroundColor: '#f1f5f9',
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  fileSize: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  ownFileText: {
+    color: '#ffffff',
+  },
+});
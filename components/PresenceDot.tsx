@@ -0,0 +1,38 @@
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { usePresence } from '@/contexts/PresenceContext';
+
+interface PresenceDotProps {
+  userId: string | undefined;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Green dot for the corner of an avatar; renders nothing while the user is offline
+export default function PresenceDot({ userId, size = 12, style }: PresenceDotProps) {
+  const { isOnline } = usePresence();
+
+  if (!userId || !isOnline(userId)) return null;
+
+  return (
+    <View
+      accessibilityLabel="Online"
+      style={[
+        styles.dot,
+        { width: size, height: size, borderRadius: size / 2 },
+        style,
+      ]}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  dot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#22c55e',
+    borderWidth: 2,
+    borderColor: '#ffffff',
+  },
+});
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { BookingError } from '@/lib/appointments';
+import {
+  WaitlistOffer,
+  claimWaitlistOffer,
+  fetchPendingOffers,
+  subscribeToWaitlistOffers,
+} from '@/lib/waitlist';
+
+interface WaitlistOfferBannerProps {
+  clientId: string;
+  onClaimed: () => void;
+}
+
+const minutesLeft = (expiresAt: string, now: number) =>
+  Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 60000));
+
+export default function WaitlistOfferBanner({ clientId, onClaimed }: WaitlistOfferBannerProps) {
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadOffers = async () => {
+    try {
+      setOffers(await fetchPendingOffers(clientId));
+    } catch (error) {
+      console.error('Error loading waitlist offers:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadOffers();
+    const unsubscribe = subscribeToWaitlistOffers(clientId, loadOffers);
+    // Keeps the countdown moving and drops offers once they expire
+    const tick = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(tick);
+    };
+  }, [clientId]);
+
+  const handleClaim = async (offer: WaitlistOffer) => {
+    setClaimingId(offer.id);
+    try {
+      await claimWaitlistOffer(offer.id);
+      Alert.alert('Session Booked!', `You claimed the opening with ${offer.therapist?.name || 'your therapist'}.`);
+      onClaimed();
+    } catch (error) {
+      console.error('Error claiming waitlist offer:', error);
+      const message = error instanceof BookingError && error.code === 'slot_taken'
+        ? 'Someone else claimed this opening first.'
+        : error instanceof BookingError ? error.message : 'An error occurred. Please try again.';
+      Alert.alert('Could Not Claim', message);
+    } finally {
+      setClaimingId(null);
+      loadOffers();
+    }
+  };
+
+  const activeOffers = offers.filter(offer => new Date(offer.expires_at).getTime() > now);
+  if (activeOffers.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {activeOffers.map(offer => (
+        <View key={offer.id} style={styles.offer}>
+          <View style={styles.offerInfo}>
+            <Text style={styles.offerTitle}>A session opened up</Text>
+            <Text style={styles.offerText}>
+              {offer.therapist?.name || 'Your therapist'} ·{' '}
+              {new Date(offer.slot_start).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              {' '}· {offer.duration} min
+            </Text>
+            <Text style={styles.offerExpiry}>Expires in {minutesLeft(offer.expires_at, now)} min</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.claimButton, claimingId === offer.id && styles.disabledButton]}
+            onPress={() => handleClaim(offer)}
+            disabled={!!claimingId}
+          >
+            {claimingId === offer.id ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.claimButtonText}>Claim</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  offer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#f0fdfa',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#99f6e4',
+    padding: 14,
+  },
+  offerInfo: {
+    flex: 1,
+  },
+  offerTitle: {
+    fontSize: 15,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#1E293B',
+  },
+  offerText: {
+    fontSize: 13,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#475569',
+    marginTop: 2,
+  },
+  offerExpiry: {
+    fontSize: 12,
+    fontWeight: '300',
+    fontFamily: 'System',
+    color: '#0f766e',
+    marginTop: 4,
+  },
+  claimButton: {
+    minWidth: 72,
+    alignItems: 'center',
+    backgroundColor: '#10B981',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  claimButtonText: {
+    fontSize: 14,
+    fontWeight: '400',
+    fontFamily: 'System',
+    color: '#ffffff',
+  },
+});
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
+import { getDeviceTimeZone } from '@/lib/timezone';
 import type { User } from '@supabase/supabase-js';
 
 /**
@@ -23,6 +24,7 @@ interface ExtendedUser extends User {
   photo_url?: string;
   condition?: string;
   specialty?: string; // Add specialty field for therapists
+  timezone?: string | null;
 }
 
 interface AuthContextType {
@@ -145,7 +147,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Get custom user data from our database
       const { data: userData, error } = await supabase
         .from('users')
-        .select('role, name, phone, location, photo_url, condition')
+        .select('role, name, phone, location, photo_url, condition, timezone')
         .eq('id', authUser.id)
         .single();
 
@@ -163,6 +165,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return;
       }
 
+      // Keep the stored timezone in step with the device so counterparts see this user's local time
+      const deviceTimeZone = getDeviceTimeZone();
+      if (userData.timezone !== deviceTimeZone) {
+        const { error: timezoneError } = await supabase
+          .from('users')
+          .update({ timezone: deviceTimeZone })
+          .eq('id', authUser.id);
+
+        if (timezoneError) {
+          console.error('❌ Error saving timezone:', timezoneError);
+        } else {
+          userData.timezone = deviceTimeZone;
+        }
+      }
+
       // Merge Supabase user with our custom data
       const extendedUser: ExtendedUser = {
         ...authUser,
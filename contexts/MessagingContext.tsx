@@ -1,8 +1,38 @@
 // Create: contexts/MessagingContext.tsx
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
+import {
+  InboxCursor,
+  InboxRow,
+  MESSAGE_PAGE_SIZE,
+  MessageCursor,
+  deleteMessage,
+  editMessage as editMessageText,
+  fetchConversationInbox,
+  fetchInboxConversation,
+  fetchMessage,
+  fetchMessagePage,
+  fetchNewerMessagePage,
+  markConversationRead,
+  mergeMessages,
+} from '@/lib/messaging';
+import { MessageAttachment, PendingAttachment, sendAttachmentMessage } from '@/lib/message-attachments';
+import { OutboxEntry, createOutboxEntry } from '@/lib/message-outbox';
+import {
+  AppointmentRequest,
+  acceptAppointmentRequest,
+  declineAppointmentRequest,
+  sendAppointmentRequest,
+} from '@/lib/appointment-requests';
+import {
+  MessagingRealtime,
+  MessagingRealtimeHandlers,
+  RealtimeScope,
+  createMessagingRealtime,
+} from '@/lib/messaging-realtime';
 import { useAuth } from './AuthContext';
-import { Alert } from 'react-native';
+import { useMessageOutbox } from '@/hooks/useMessageOutbox';
+import { Alert, AppState, AppStateStatus } from 'react-native';
 
 interface Message {
   id: string;
@@ -10,23 +40,19 @@ interface Message {
   sender_id: string;
   receiver_id: string;
   message: string;
-  message_type: 'text' | 'image' | 'file' | 'appointment_request';
+  message_type: 'text' | 'image' | 'file' | 'appointment_request' | 'missed_call';
   is_system_message: boolean;
   read: boolean;
+  read_at?: string | null;
   created_at: string;
   edited_at?: string;
+  deleted_at?: string | null;
   sender?: any;
   receiver?: any;
   attachments?: MessageAttachment[];
-}
-
-interface MessageAttachment {
-  id: string;
-  message_id: string;
-  file_name: string;
-  file_url: string;
-  file_type: string;
-  file_size: number;
+  appointment_request?: AppointmentRequest | null;
+  // Set while the message is still in this device's outbox
+  delivery_status?: 'sending' | 'failed';
 }
 
 interface Conversation {
@@ -43,17 +69,49 @@ interface Conversation {
 
 interface MessagingContextType {
   conversations: Conversation[];
+  hasMoreConversations: boolean;
+  loadingMoreConversations: boolean;
   activeConversation: Conversation | null;
   messages: Message[];
+  hasOlderMessages: boolean;
+  loadingOlderMessages: boolean;
+  hasNewerMessages: boolean;
+  loadingNewerMessages: boolean;
   loading: boolean;
-  sendMessage: (conversationId: string, message: string, messageType?: string) => Promise<void>;
-  markAsRead: (messageId: string) => Promise<void>;
+  sendMessage: (conversationId: string, message: string) => Promise<void>;
+  retryMessage: (messageId: string) => void;
+  discardMessage: (messageId: string) => void;
+  sendAttachments: (conversationId: string, files: PendingAttachment[], caption?: string) => Promise<boolean>;
+  proposeAppointment: (conversationId: string, slots: Date[], duration: number, note?: string, replyTo?: string) => Promise<void>;
+  acceptAppointment: (request: AppointmentRequest, slot: string) => Promise<void>;
+  declineAppointment: (request: AppointmentRequest) => Promise<void>;
+  editMessage: (messageId: string, text: string) => Promise<void>;
+  removeMessage: (messageId: string) => Promise<void>;
+  markConversationAsRead: (conversationId: string, upToMessageId: string) => Promise<void>;
   loadConversations: () => Promise<void>;
+  loadMoreConversations: () => Promise<void>;
   loadMessages: (conversationId: string) => Promise<void>;
+  loadMessagesAround: (conversationId: string, messageId: string) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
+  loadNewerMessages: () => Promise<void>;
+  findConversation: (conversationId: string) => Promise<Conversation | null>;
   setActiveConversation: (conversation: Conversation | null) => void;
   createConversation: (otherUserId: string) => Promise<string>;
 }
 
+const toUnsentMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  conversation_id: entry.conversation_id,
+  sender_id: entry.sender_id,
+  receiver_id: entry.receiver_id,
+  message: entry.message,
+  message_type: 'text',
+  is_system_message: false,
+  read: false,
+  created_at: entry.created_at,
+  delivery_status: entry.status === 'failed' ? 'failed' : 'sending',
+});
+
 const MessagingContext = createContext<MessagingContextType | undefined>(undefined);
 
 export const useMessaging = () => {
@@ -71,144 +129,236 @@ interface MessagingProviderProps {
 export const MessagingProvider: React.FC<MessagingProviderProps> = ({ children }) => {
   const { userProfile } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationsCursor, setConversationsCursor] = useState<InboxCursor | null>(null);
+  const [loadingMoreConversations, setLoadingMoreConversations] = useState(false);
   const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [messagesCursor, setMessagesCursor] = useState<MessageCursor | null>(null);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  // Set while the loaded window stops short of the newest message, e.g. after jumping to a search result
+  const [messagesNewerCursor, setMessagesNewerCursor] = useState<MessageCursor | null>(null);
+  const [loadingNewerMessages, setLoadingNewerMessages] = useState(false);
+  const windowReachesLatest = useRef(true);
+  // Conversation the loaded message window belongs to; read from realtime handlers and async loads
+  const messagesConversationId = useRef<string | null>(null);
+  const inboxRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [loading, setLoading] = useState(false);
+  const outbox = useMessageOutbox<Message>(message => showSentMessage(message));
+
+  // Unsent messages of the open thread are shown in place until the server confirms them
+  const visibleMessages = useMemo(() => {
+    const unsent = outbox.entries
+      .filter(entry => entry.conversation_id === messagesConversationId.current)
+      .map(toUnsentMessage);
+    return unsent.length > 0 ? mergeMessages(messages, unsent) : messages;
+  }, [messages, outbox.entries]);
+
+  const realtime = useRef<MessagingRealtime | null>(null);
+  // The manager outlives renders, so it reads the latest render's handlers through this ref (set below)
+  const realtimeHandlers = useRef<MessagingRealtimeHandlers<Message> | null>(null);
+
+  useEffect(() => {
+    if (!userProfile) return;
+
+    loadConversations();
+
+    const manager = createMessagingRealtime<Message>(userProfile.id, () => realtimeHandlers.current!);
+    realtime.current = manager;
+
+    let appState = AppState.currentState;
+    const appStateSubscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (appState === 'background' && nextAppState === 'active') {
+        manager.resume();
+      }
+      appState = nextAppState;
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      manager.stop();
+      realtime.current = null;
+      if (inboxRefreshTimer.current) clearTimeout(inboxRefreshTimer.current);
+    };
+  }, [userProfile?.id]);
 
   useEffect(() => {
-    if (userProfile) {
+    realtime.current?.setConversation(activeConversation?.id ?? null);
+  }, [activeConversation?.id, userProfile?.id]);
+
+  // Bursts of changes (one read marks a batch of rows) refresh the inbox once they settle
+  const scheduleInboxRefresh = () => {
+    if (inboxRefreshTimer.current) clearTimeout(inboxRefreshTimer.current);
+    inboxRefreshTimer.current = setTimeout(() => {
+      inboxRefreshTimer.current = null;
       loadConversations();
-      const cleanup = setupRealTimeSubscriptions();
-      return cleanup;
+    }, 500);
+  };
+
+  const handleMessageInsert = (message: Message) => {
+    if (messagesConversationId.current === message.conversation_id) {
+      addIncomingMessage(message);
+
+      if (message.receiver_id === userProfile?.id) {
+        // The thread is open, so the message is read as soon as it arrives
+        markConversationAsRead(message.conversation_id, message.id).finally(scheduleInboxRefresh);
+        return;
+      }
     }
-  }, [userProfile]);
-
-  const setupRealTimeSubscriptions = () => {
-    if (!userProfile) return () => {};
-
-    // Create unique channel names to avoid conflicts
-    const messageChannelName = `messages-${userProfile.id}-${Date.now()}`;
-    const updateChannelName = `message-updates-${userProfile.id}-${Date.now()}`;
-
-    // Subscribe to new messages
-    const messageSubscription = supabase
-      .channel(messageChannelName)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `receiver_id=eq.${userProfile.id}`,
-        },
-        (payload) => {
-          console.log('New message received:', payload.new);
-          // Add new message to current messages if it's for the active conversation
-          const newMessage = payload.new as Message;
-          const conversationKey = [userProfile.id, newMessage.sender_id].sort().join('_');
-          const expectedConversationId = `conv_${conversationKey}`;
-          
-          if (activeConversation && activeConversation.id === expectedConversationId) {
-            setMessages(prev => [...prev, newMessage]);
-          }
-          loadConversations(); // Refresh conversations list
-        }
-      )
-      .subscribe();
-
-    // Subscribe to message read status updates
-    const readStatusSubscription = supabase
-      .channel(updateChannelName)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'messages',
-          filter: `sender_id=eq.${userProfile.id}`,
-        },
-        (payload) => {
-          console.log('Message read status updated:', payload.new);
-          const updatedMessage = payload.new as Message;
-          
-          if (activeConversation) {
-            setMessages(prev => 
-              prev.map(msg => 
-                msg.id === updatedMessage.id ? { ...msg, read: updatedMessage.read } : msg
-              )
-            );
-          }
-        }
+    scheduleInboxRefresh();
+  };
+
+  const handleMessageUpdate = (message: Message) => {
+    applyMessageUpdate(message);
+
+    // Reads on another device change this user's unread counts
+    if (message.receiver_id === userProfile?.id) {
+      scheduleInboxRefresh();
+    }
+  };
+
+  const handleMissedChanges = (scope: RealtimeScope) => {
+    if (scope === 'inbox') {
+      loadConversations();
+    } else {
+      backfillMessages();
+    }
+  };
+
+  // Reloads the newest page of the open thread over the loaded window, for changes missed while disconnected
+  const backfillMessages = async () => {
+    const conversationId = messagesConversationId.current;
+    if (!conversationId || !windowReachesLatest.current) return;
+
+    try {
+      const page = await fetchMessagePage<Message>(conversationId);
+      if (messagesConversationId.current !== conversationId || page.rows.length === 0) return;
+
+      // More than a page arrived since the newest loaded message; start the window over rather than leave a gap
+      const newestLoaded = messages[messages.length - 1];
+      const leftGap = !!page.nextCursor && !!newestLoaded &&
+        new Date(page.rows[0].created_at).getTime() > new Date(newestLoaded.created_at).getTime();
+
+      if (leftGap) {
+        setMessages(page.rows);
+        setMessagesCursor(page.nextCursor);
+      } else {
+        const latest = new Map(page.rows.map(message => [message.id, message]));
+        setMessages(prev => mergeMessages(prev.map(message => latest.get(message.id) ?? message), page.rows));
+      }
+
+      const lastUnread = [...page.rows].reverse().find(msg => 
+        msg.receiver_id === userProfile?.id && !msg.read
+      );
+      if (lastUnread) {
+        await markConversationAsRead(conversationId, lastUnread.id);
+      }
+    } catch (error) {
+      console.error('Error backfilling messages:', error);
+    }
+  };
+
+  // Realtime rows carry no joins, so attachments and appointment requests are fetched before the message is shown
+  const addIncomingMessage = async (message: Message) => {
+    let loaded = message;
+
+    if (message.message_type !== 'text') {
+      try {
+        loaded = await fetchMessage<Message>(message.id);
+      } catch (error) {
+        console.error('Error loading message details:', error);
+      }
+    }
+
+    // A window in the middle of the thread picks the message up when it pages forward
+    if (messagesConversationId.current === message.conversation_id && windowReachesLatest.current) {
+      setMessages(prev => mergeMessages(prev, [loaded]));
+    }
+  };
+
+  // Puts a message this user just sent into the open thread and moves its conversation to the top
+  const showSentMessage = (message: Message) => {
+    if (messagesConversationId.current === message.conversation_id) {
+      setMessages(prev => mergeMessages(prev, [message]));
+    }
+    setConversations(prev => prev
+      .map(c => c.id === message.conversation_id ? { ...c, last_message: message, last_message_at: message.created_at } : c)
+      .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime()));
+  };
+
+  // Realtime rows carry no joins, so the loaded ones are kept; a removed message loses its attachments
+  const applyMessageUpdate = (updated: Message) => {
+    setMessages(prev => 
+      prev.map(msg => 
+        msg.id === updated.id
+          ? { ...msg, ...updated, attachments: updated.deleted_at ? [] : msg.attachments }
+          : msg
       )
-      .subscribe();
+    );
+    setConversations(prev => 
+      prev.map(c => c.last_message?.id === updated.id ? { ...c, last_message: { ...c.last_message, ...updated } } : c)
+    );
+  };
 
-    return () => {
-      messageSubscription.unsubscribe();
-      readStatusSubscription.unsubscribe();
+  const applyAppointmentRequest = (request: AppointmentRequest) => {
+    setMessages(prev => 
+      prev.map(msg => msg.id === request.message_id ? { ...msg, appointment_request: request } : msg)
+    );
+  };
+
+  const toConversation = (row: InboxRow): Conversation => {
+    const self = { id: userProfile!.id, name: userProfile!.name, photo_url: userProfile!.photo_url, role: userProfile!.role };
+    const counterpart = { id: row.counterpart_id, name: row.counterpart_name, photo_url: row.counterpart_photo_url, role: row.counterpart_role };
+
+    return {
+      id: row.id,
+      therapist_id: row.therapist_id,
+      client_id: row.client_id,
+      is_active: row.is_active,
+      last_message_at: row.last_message_at,
+      therapist: row.therapist_id === userProfile!.id ? self : counterpart,
+      client: row.client_id === userProfile!.id ? self : counterpart,
+      unread_count: row.unread_count,
+      last_message: row.last_message_id ? {
+        id: row.last_message_id,
+        conversation_id: row.id,
+        sender_id: row.last_message_sender_id!,
+        receiver_id: row.last_message_sender_id === row.counterpart_id ? userProfile!.id : row.counterpart_id,
+        message: row.last_message || '',
+        message_type: row.last_message_type || 'text',
+        is_system_message: false,
+        read: row.last_message_sender_id === row.counterpart_id ? row.unread_count === 0 : true,
+        created_at: row.last_message_created_at!,
+        deleted_at: row.last_message_deleted_at,
+      } : undefined,
     };
   };
 
+  // Reloads the newest page; threads already paged in below it are kept
   const loadConversations = async () => {
     if (!userProfile) return;
 
     try {
       setLoading(true);
 
-      // Get all messages where user is sender or receiver
-      const { data: messagesData, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          sender:users!sender_id(id, name, photo_url, role),
-          receiver:users!receiver_id(id, name, photo_url, role)
-        `)
-        .or(`sender_id.eq.${userProfile.id},receiver_id.eq.${userProfile.id}`)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const page = await fetchConversationInbox();
+      const firstPage = page.rows.map(toConversation);
 
-      // Group messages by conversation partners
-      const conversationsMap = new Map();
-      
-      (messagesData || []).forEach((message) => {
-        const otherUser = message.sender_id === userProfile.id ? message.receiver : message.sender;
-        const conversationKey = [userProfile.id, otherUser.id].sort().join('_');
-        
-        if (!conversationsMap.has(conversationKey)) {
-          conversationsMap.set(conversationKey, {
-            id: `conv_${conversationKey}`,
-            therapist_id: otherUser.role === 'therapist' ? otherUser.id : userProfile.id,
-            client_id: otherUser.role === 'client' ? otherUser.id : userProfile.id,
-            therapist: otherUser.role === 'therapist' ? otherUser : { id: userProfile.id, name: userProfile.name, photo_url: userProfile.photo_url },
-            client: otherUser.role === 'client' ? otherUser : { id: userProfile.id, name: userProfile.name, photo_url: userProfile.photo_url },
-            is_active: true,
-            last_message_at: message.created_at,
-            last_message: message,
-            unread_count: 0,
-            messages: []
-          });
-        }
-        
-        const conversation = conversationsMap.get(conversationKey);
-        conversation.messages.push(message);
-        
-        // Update last message if this one is more recent
-        if (new Date(message.created_at) > new Date(conversation.last_message_at)) {
-          conversation.last_message_at = message.created_at;
-          conversation.last_message = message;
-        }
-        
-        // Count unread messages
-        if (message.receiver_id === userProfile.id && !message.read) {
-          conversation.unread_count++;
-        }
-      });
+      if (!page.nextCursor) {
+        setConversations(firstPage);
+        setConversationsCursor(null);
+        return;
+      }
 
-      // Convert map to array and sort by last message time
-      const conversationsArray = Array.from(conversationsMap.values())
-        .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime());
+      const cursor = page.nextCursor;
+      const isOlder = (conversation: Conversation) =>
+        conversation.last_message_at < cursor.lastMessageAt ||
+        (conversation.last_message_at === cursor.lastMessageAt && conversation.id < cursor.id);
 
-      setConversations(conversationsArray);
+      setConversations(prev => {
+        const pageIds = new Set(firstPage.map(conversation => conversation.id));
+        return [...firstPage, ...prev.filter(conversation => !pageIds.has(conversation.id) && isOlder(conversation))];
+      });
+      setConversationsCursor(current => current ?? cursor);
     } catch (error) {
       console.error('Error loading conversations:', error);
     } finally {
@@ -216,47 +366,49 @@ export const MessagingProvider: React.FC<MessagingProviderProps> = ({ children }
     }
   };
 
-  const loadMessages = async (conversationId: string) => {
+  const loadMoreConversations = async () => {
+    if (!userProfile || !conversationsCursor || loadingMoreConversations) return;
+
     try {
-      setLoading(true);
+      setLoadingMoreConversations(true);
 
-      // Extract user IDs from conversation ID
-      const conversationKey = conversationId.replace('conv_', '');
-      const userIds = conversationKey.split('_');
-      
-      if (userIds.length !== 2) {
-        throw new Error('Invalid conversation ID');
-      }
+      const page = await fetchConversationInbox(conversationsCursor);
+      const nextPage = page.rows.map(toConversation);
 
-      const otherUserId = userIds.find(id => id !== userProfile?.id);
-      
-      if (!otherUserId) {
-        throw new Error('Could not find other user');
-      }
+      setConversations(prev => [
+        ...prev,
+        ...nextPage.filter(conversation => !prev.some(existing => existing.id === conversation.id)),
+      ]);
+      setConversationsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more conversations:', error);
+    } finally {
+      setLoadingMoreConversations(false);
+    }
+  };
 
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          sender:users!sender_id(id, name, photo_url),
-          receiver:users!receiver_id(id, name, photo_url)
-        `)
-        .or(`and(sender_id.eq.${userProfile?.id},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${userProfile?.id})`)
-        .order('created_at', { ascending: true });
+  // Loads the latest page of a thread; earlier pages come from loadOlderMessages
+  const loadMessages = async (conversationId: string) => {
+    try {
+      setLoading(true);
+      messagesConversationId.current = conversationId;
+      windowReachesLatest.current = true;
+      setMessagesCursor(null);
+      setMessagesNewerCursor(null);
 
-      if (error) throw error;
+      const page = await fetchMessagePage<Message>(conversationId);
+      if (messagesConversationId.current !== conversationId) return;
 
-      setMessages(data || []);
+      setMessages(page.rows);
+      setMessagesCursor(page.nextCursor);
 
-      // Mark unread messages as read
-      const unreadMessages = data?.filter(msg => 
+      // Mark everything up to the newest unread message as read in one call
+      const lastUnread = [...page.rows].reverse().find(msg => 
         msg.receiver_id === userProfile?.id && !msg.read
       );
 
-      if (unreadMessages && unreadMessages.length > 0) {
-        await Promise.all(
-          unreadMessages.map(msg => markAsRead(msg.id))
-        );
+      if (lastUnread) {
+        await markConversationAsRead(conversationId, lastUnread.id);
       }
 
     } catch (error) {
@@ -266,53 +418,195 @@ export const MessagingProvider: React.FC<MessagingProviderProps> = ({ children }
     }
   };
 
-  const sendMessage = async (conversationId: string, message: string, messageType: string = 'text') => {
-    if (!userProfile || !activeConversation) return;
+  // Loads a page either side of one message; the rest of the thread pages in from both ends
+  const loadMessagesAround = async (conversationId: string, messageId: string) => {
+    try {
+      setLoading(true);
+      messagesConversationId.current = conversationId;
+      setMessagesCursor(null);
+      setMessagesNewerCursor(null);
+
+      const target = await fetchMessage<Message>(messageId);
+      const targetCursor = { createdAt: target.created_at, id: target.id };
+      const [older, newer] = await Promise.all([
+        fetchMessagePage<Message>(conversationId, targetCursor, MESSAGE_PAGE_SIZE / 2),
+        fetchNewerMessagePage<Message>(conversationId, targetCursor, MESSAGE_PAGE_SIZE / 2),
+      ]);
+      if (messagesConversationId.current !== conversationId) return;
+
+      windowReachesLatest.current = !newer.nextCursor;
+      setMessages([...older.rows, target, ...newer.rows]);
+      setMessagesCursor(older.nextCursor);
+      setMessagesNewerCursor(newer.nextCursor);
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const conversationId = messagesConversationId.current;
+    if (!conversationId || !messagesNewerCursor || loadingNewerMessages) return;
 
     try {
-      const receiverId = userProfile.id === activeConversation.therapist_id 
-        ? activeConversation.client_id 
-        : activeConversation.therapist_id;
-
-      const { data, error } = await supabase
-        .from('messages')
-        .insert({
-          sender_id: userProfile.id,
-          receiver_id: receiverId,
-          message: message.trim(),
-        })
-        .select()
-        .single();
+      setLoadingNewerMessages(true);
 
-      if (error) throw error;
+      const page = await fetchNewerMessagePage<Message>(conversationId, messagesNewerCursor);
+      if (messagesConversationId.current !== conversationId) return;
 
-      // Add to local messages
-      setMessages(prev => [...prev, data]);
+      windowReachesLatest.current = !page.nextCursor;
+      setMessages(prev => mergeMessages(prev, page.rows));
+      setMessagesNewerCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      setLoadingNewerMessages(false);
+    }
+  };
+
+  // A loaded conversation, or its inbox row fetched on its own when its page isn't loaded yet
+  const findConversation = async (conversationId: string): Promise<Conversation | null> => {
+    const loaded = conversations.find(c => c.id === conversationId);
+    if (loaded || !userProfile) return loaded ?? null;
 
+    try {
+      const row = await fetchInboxConversation(conversationId);
+      return row ? toConversation(row) : null;
     } catch (error) {
-      console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message');
+      console.error('Error loading conversation:', error);
+      return null;
     }
   };
 
-  const markAsRead = async (messageId: string) => {
+  const loadOlderMessages = async () => {
+    const conversationId = messagesConversationId.current;
+    if (!conversationId || !messagesCursor || loadingOlderMessages) return;
+
     try {
-      const { error } = await supabase
-        .from('messages')
-        .update({ read: true })
-        .eq('id', messageId);
+      setLoadingOlderMessages(true);
 
-      if (error) throw error;
+      const page = await fetchMessagePage<Message>(conversationId, messagesCursor);
+      if (messagesConversationId.current !== conversationId) return;
 
-      // Update local state
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === messageId ? { ...msg, read: true } : msg
-        )
+      setMessages(prev => mergeMessages(prev, page.rows));
+      setMessagesCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
+
+  // Queued in the outbox, which shows it at once and delivers it when there is a connection
+  const sendMessage = async (conversationId: string, message: string) => {
+    if (!userProfile) return;
+
+    const conversation = activeConversation?.id === conversationId
+      ? activeConversation
+      : conversations.find(c => c.id === conversationId);
+    if (!conversation) return;
+
+    const receiverId = userProfile.id === conversation.therapist_id 
+      ? conversation.client_id 
+      : conversation.therapist_id;
+
+    // Sending from the middle of the thread returns to its newest messages
+    if (messagesConversationId.current === conversationId && !windowReachesLatest.current) {
+      await loadMessages(conversationId);
+    }
+
+    outbox.enqueue(createOutboxEntry({
+      conversation_id: conversation.id,
+      sender_id: userProfile.id,
+      receiver_id: receiverId,
+      message: message.trim(),
+    }));
+  };
+
+  const retryMessage = (messageId: string) => {
+    outbox.retry(messageId);
+  };
+
+  const discardMessage = (messageId: string) => {
+    outbox.discard(messageId);
+  };
+
+  const sendAttachments = async (conversationId: string, files: PendingAttachment[], caption: string = '') => {
+    if (!userProfile || files.length === 0) return false;
+
+    try {
+      const messageId = await sendAttachmentMessage(conversationId, files, caption.trim());
+      showSentMessage(await fetchMessage<Message>(messageId));
+
+      return true;
+    } catch (error) {
+      console.error('Error sending attachments:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error && error.message === 'attachment_too_large'
+          ? 'Files must be 25 MB or smaller.'
+          : 'Failed to send attachment'
+      );
+      return false;
+    }
+  };
+
+  // Errors are rethrown as BookingErrors for the caller to show
+  const proposeAppointment = async (
+    conversationId: string,
+    slots: Date[],
+    duration: number,
+    note?: string,
+    replyTo?: string
+  ) => {
+    const messageId = await sendAppointmentRequest({ conversationId, slots, duration, note, replyTo });
+    showSentMessage(await fetchMessage<Message>(messageId));
+  };
+
+  const acceptAppointment = async (request: AppointmentRequest, slot: string) => {
+    // The confirmation message arrives over realtime like any other message in the conversation
+    applyAppointmentRequest(await acceptAppointmentRequest(request.id, slot));
+    loadConversations();
+  };
+
+  const declineAppointment = async (request: AppointmentRequest) => {
+    applyAppointmentRequest(await declineAppointmentRequest(request.id));
+  };
+
+  // Errors are rethrown as MessageErrors for the caller to show
+  const editMessage = async (messageId: string, text: string) => {
+    applyMessageUpdate(await editMessageText<Message>(messageId, text));
+  };
+
+  const removeMessage = async (messageId: string) => {
+    applyMessageUpdate(await deleteMessage<Message>(messageId));
+  };
+
+  const markConversationAsRead = async (conversationId: string, upToMessageId: string) => {
+    if (!userProfile) return;
+
+    try {
+      await markConversationRead(conversationId, upToMessageId);
+
+      // Mirror the update locally; the realtime echo fills in the server's read_at
+      const readAt = new Date().toISOString();
+      setMessages(prev => {
+        const upTo = prev.find(msg => msg.id === upToMessageId);
+        if (!upTo) return prev;
+
+        return prev.map(msg => 
+          msg.receiver_id === userProfile.id && !msg.read && new Date(msg.created_at) <= new Date(upTo.created_at)
+            ? { ...msg, read: true, read_at: readAt }
+            : msg
+        );
+      });
+      setConversations(prev => 
+        prev.map(c => c.id === conversationId ? { ...c, unread_count: 0 } : c)
       );
 
     } catch (error) {
-      console.error('Error marking message as read:', error);
+      console.error('Error marking conversation as read:', error);
     }
   };
 
@@ -320,56 +614,20 @@ export const MessagingProvider: React.FC<MessagingProviderProps> = ({ children }
     if (!userProfile) throw new Error('User not authenticated');
 
     try {
-      // Create a deterministic conversation ID from the two user IDs (matching loadConversations format)
-      const sortedIds = [userProfile.id, otherUserId].sort();
-      const conversationKey = sortedIds.join('_');
-      const conversationId = `conv_${conversationKey}`;
-
-      // First, get the other user's information
-      const { data: otherUserData, error: userError } = await supabase
-        .from('users')
-        .select('id, name, photo_url, role')
-        .eq('id', otherUserId)
-        .single();
-
-      if (userError) {
-        console.error('Error fetching other user:', userError);
-        throw userError;
-      }
+      const isTherapist = userProfile.role === 'therapist';
+      const { data: conversationId, error } = await supabase.rpc('get_or_create_conversation', {
+        therapist_uuid: isTherapist ? userProfile.id : otherUserId,
+        client_uuid: isTherapist ? otherUserId : userProfile.id,
+      });
 
-      // Check if conversation already exists
-      const existingConversation = conversations.find(c => c.id === conversationId);
-      if (existingConversation) {
-        return conversationId;
+      if (error) throw error;
+
+      // Make sure the thread is in the list before the caller navigates to it
+      if (!conversations.some(c => c.id === conversationId)) {
+        await loadConversations();
       }
 
-      // Create a virtual conversation entry if it doesn't exist
-      // This will be populated properly when the first message is sent
-      const newConversation: Conversation = {
-        id: conversationId,
-        therapist_id: otherUserData.role === 'therapist' ? otherUserId : userProfile.id,
-        client_id: otherUserData.role === 'client' ? otherUserId : userProfile.id,
-        therapist: otherUserData.role === 'therapist' ? otherUserData : { 
-          id: userProfile.id, 
-          name: userProfile.name, 
-          photo_url: userProfile.photo_url,
-          role: userProfile.role 
-        },
-        client: otherUserData.role === 'client' ? otherUserData : { 
-          id: userProfile.id, 
-          name: userProfile.name, 
-          photo_url: userProfile.photo_url,
-          role: userProfile.role 
-        },
-        is_active: true,
-        last_message_at: new Date().toISOString(),
-        unread_count: 0
-      };
-
-      // Add to conversations list temporarily
-      setConversations(prev => [newConversation, ...prev]);
-
-      return conversationId;
+      return conversationId as string;
 
     } catch (error) {
       console.error('Error creating conversation:', error);
@@ -377,15 +635,41 @@ export const MessagingProvider: React.FC<MessagingProviderProps> = ({ children }
     }
   };
 
+  realtimeHandlers.current = {
+    onMessageInsert: handleMessageInsert,
+    onMessageUpdate: handleMessageUpdate,
+    onAppointmentRequest: applyAppointmentRequest,
+    onMissedChanges: handleMissedChanges,
+  };
+
   const value: MessagingContextType = {
     conversations,
+    hasMoreConversations: !!conversationsCursor,
+    loadingMoreConversations,
     activeConversation,
-    messages,
+    messages: visibleMessages,
+    hasOlderMessages: !!messagesCursor,
+    loadingOlderMessages,
+    hasNewerMessages: !!messagesNewerCursor,
+    loadingNewerMessages,
     loading,
     sendMessage,
-    markAsRead,
+    retryMessage,
+    discardMessage,
+    sendAttachments,
+    proposeAppointment,
+    acceptAppointment,
+    declineAppointment,
+    editMessage,
+    removeMessage,
+    markConversationAsRead,
     loadConversations,
+    loadMoreConversations,
     loadMessages,
+    loadMessagesAround,
+    loadOlderMessages,
+    loadNewerMessages,
+    findConversation,
     setActiveConversation,
     createConversation,
   };
@@ -0,0 +1,104 @@
+// contexts/PresenceContext.tsx
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { ONLINE_CHANNEL, fetchLastSeen, touchLastSeen } from '@/lib/presence';
+import { useAuth } from './AuthContext';
+
+interface PresenceContextType {
+  onlineUserIds: Set<string>;
+  isOnline: (userId: string) => boolean;
+  getLastSeen: (userId: string) => string | null;
+  loadLastSeen: (userIds: string[]) => Promise<void>;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
+
+interface PresenceProviderProps {
+  children: ReactNode;
+}
+
+export const PresenceProvider: React.FC<PresenceProviderProps> = ({ children }) => {
+  const { userProfile } = useAuth();
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const [lastSeen, setLastSeen] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    if (!userProfile) {
+      setOnlineUserIds(new Set());
+      return;
+    }
+
+    const channel = supabase.channel(ONLINE_CHANNEL, {
+      config: { presence: { key: userProfile.id } },
+    });
+
+    const goOnline = async () => {
+      await channel.track({ online_at: new Date().toISOString() });
+      touchLastSeen().catch(error => console.error('Error updating last seen:', error));
+    };
+
+    const goOffline = async () => {
+      await channel.untrack();
+      touchLastSeen().catch(error => console.error('Error updating last seen:', error));
+    };
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => {
+        // The stored value lags until the next fetch, so record the moment they went away
+        setLastSeen(prev => ({ ...prev, [key]: new Date().toISOString() }));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED' && AppState.currentState === 'active') {
+          goOnline();
+        }
+      });
+
+    const appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        goOnline();
+      } else if (state === 'background') {
+        goOffline();
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      goOffline();
+      channel.unsubscribe();
+    };
+  }, [userProfile?.id]);
+
+  const loadLastSeen = async (userIds: string[]) => {
+    try {
+      const fetched = await fetchLastSeen(userIds);
+      setLastSeen(prev => ({ ...prev, ...fetched }));
+    } catch (error) {
+      console.error('Error loading last seen:', error);
+    }
+  };
+
+  const value: PresenceContextType = {
+    onlineUserIds,
+    isOnline: (userId: string) => onlineUserIds.has(userId),
+    getLastSeen: (userId: string) => lastSeen[userId] ?? null,
+    loadLastSeen,
+  };
+
+  return (
+    <PresenceContext.Provider value={value}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
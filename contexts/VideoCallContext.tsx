@@ -1,6 +1,19 @@
 import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
-import { Alert } from 'react-native';
+import { Alert, AppState, AppStateStatus } from 'react-native';
 import { supabase } from '@/lib/supabase';
+import {
+  CallSessionHandlers,
+  CallSessionRecord,
+  CallSessionRow,
+  acceptCallSession,
+  declineCallSession,
+  endCallSession,
+  expireCallSession,
+  fetchCallSession,
+  fetchCallSessions,
+  startCallSession,
+  subscribeToCallSessions,
+} from '@/lib/call-sessions';
 import { useAuth } from './AuthContext';
 
 export interface CallSession {
@@ -13,6 +26,7 @@ export interface CallSession {
   created_at: string;
   started_at?: string;
   ended_at?: string;
+  ring_expires_at?: string;
   caller?: {
     id: string;
     name: string;
@@ -48,8 +62,8 @@ interface VideoCallContextType {
   notifications: CallNotification[];
   
   // Call Actions
-  initiateCall: (calleeId: string, callType: 'video' | 'audio') => Promise<string>;
-  acceptCall: (sessionId: string) => Promise<void>;
+  initiateCall: (calleeId: string, callType: 'video' | 'audio') => Promise<CallSession>;
+  acceptCall: (sessionId: string) => Promise<CallSession>;
   declineCall: (sessionId: string) => Promise<void>;
   endCall: (sessionId: string) => Promise<void>;
   
@@ -63,6 +77,44 @@ interface VideoCallContextType {
   dismissIncomingCall: () => void;
 }
 
+const fromRecord = (record: CallSessionRecord): CallSession => ({
+  id: record.id,
+  channel_name: record.channel_name,
+  caller_id: record.caller_id,
+  callee_id: record.callee_id,
+  status: record.status,
+  call_type: record.call_type,
+  created_at: record.created_at,
+  started_at: record.started_at ?? undefined,
+  ended_at: record.ended_at ?? undefined,
+  ring_expires_at: record.ring_expires_at,
+});
+
+const toCallSession = (row: CallSessionRow): CallSession => ({
+  ...fromRecord(row),
+  caller: { id: row.caller_id, name: row.caller_name, role: row.caller_role, avatar_url: row.caller_photo_url ?? undefined },
+  callee: { id: row.callee_id, name: row.callee_name, role: row.callee_role, avatar_url: row.callee_photo_url ?? undefined },
+});
+
+const isLive = (session: CallSession) => session.status === 'pending' || session.status === 'active';
+
+const isRinging = (session: CallSession) =>
+  session.status === 'pending' && !!session.ring_expires_at && new Date(session.ring_expires_at).getTime() > Date.now();
+
+const toCallNotification = (session: CallSession, type: CallNotification['type']): CallNotification => ({
+  id: `${session.id}_${type}`,
+  session_id: session.id,
+  type,
+  caller_name: session.caller?.name || 'Unknown',
+  caller_role: session.caller?.role || 'User',
+  call_type: session.call_type,
+  created_at: new Date().toISOString(),
+});
+
+// Ring timeouts are checked slightly after they pass, and again after a while if the database's clock is behind
+const RING_TIMEOUT_GRACE_MS = 1000;
+const RING_TIMEOUT_RECHECK_MS = 5000;
+
 const VideoCallContext = createContext<VideoCallContextType | undefined>(undefined);
 
 export function VideoCallProvider({ children }: { children: ReactNode }) {
@@ -72,68 +124,102 @@ export function VideoCallProvider({ children }: { children: ReactNode }) {
   const [callHistory, setCallHistory] = useState<CallSession[]>([]);
   const [incomingCall, setIncomingCall] = useState<CallNotification | null>(null);
   const [notifications, setNotifications] = useState<CallNotification[]>([]);
-  const subscriptionsRef = useRef<any[]>([]);
+  // The subscription outlives renders, so it reads the latest render's handlers through this ref (set below)
+  const callHandlers = useRef<CallSessionHandlers | null>(null);
+  const ringTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
 
   useEffect(() => {
-    if (userProfile) {
-      // For simulation, we'll skip real-time subscriptions
-      loadCallHistory();
-    }
-    
-    // Cleanup subscriptions on unmount
+    if (!userProfile) return;
+
+    loadCallHistory();
+
+    const unsubscribe = subscribeToCallSessions(userProfile.id, () => callHandlers.current!);
+
+    // Call changes can be lost while the app is suspended
+    let appState = AppState.currentState;
+    const appStateSubscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (appState === 'background' && nextAppState === 'active') {
+        loadCallHistory();
+      }
+      appState = nextAppState;
+    });
+
     return () => {
-      subscriptionsRef.current.forEach((subscription: any) => {
-        if (subscription && typeof subscription.unsubscribe === 'function') {
-          subscription.unsubscribe();
-        }
-      });
-      subscriptionsRef.current = [];
+      appStateSubscription.remove();
+      unsubscribe();
+      ringTimers.current.forEach(timer => clearTimeout(timer));
+      ringTimers.current.clear();
     };
-  }, [userProfile]);
+  }, [userProfile?.id]);
+
+  // Both sides of a ringing call ask the database to close it once its ring time is up
+  useEffect(() => {
+    const ringing = new Set(activeSessions.filter(s => s.status === 'pending').map(s => s.id));
+
+    ringTimers.current.forEach((timer, sessionId) => {
+      if (!ringing.has(sessionId)) {
+        clearTimeout(timer);
+        ringTimers.current.delete(sessionId);
+      }
+    });
+
+    activeSessions.forEach(session => {
+      if (session.status !== 'pending' || !session.ring_expires_at || ringTimers.current.has(session.id)) return;
+      scheduleRingTimeout(session.id, new Date(session.ring_expires_at).getTime() - Date.now());
+    });
+  }, [activeSessions]);
+
+  const scheduleRingTimeout = (sessionId: string, delay: number) => {
+    const timer = setTimeout(async () => {
+      ringTimers.current.delete(sessionId);
+
+      try {
+        const record = await expireCallSession(sessionId);
+        if (record.status === 'pending') {
+          scheduleRingTimeout(sessionId, RING_TIMEOUT_RECHECK_MS);
+        } else {
+          callHandlers.current?.onCallUpdate(record);
+        }
+      } catch (error) {
+        console.error('Error expiring call:', error);
+      }
+    }, Math.max(delay, 0) + RING_TIMEOUT_GRACE_MS);
 
-  const setupRealtimeSubscriptions = () => {
-    // Temporarily disabled for simulation
-    // Real implementation would set up Supabase subscriptions here
-    console.log('Video call subscriptions setup (simulated)');
+    ringTimers.current.set(sessionId, timer);
   };
 
-  const handleIncomingCall = async (session: CallSession) => {
-    // Create incoming call notification
-    const notification: CallNotification = {
-      id: `${session.id}_incoming`,
-      session_id: session.id,
-      type: 'incoming_call',
-      caller_name: session.caller?.name || 'Unknown',
-      caller_role: session.caller?.role || 'User',
-      call_type: session.call_type,
-      created_at: new Date().toISOString(),
-    };
+  const handleIncomingCall = async (record: CallSessionRecord) => {
+    let session: CallSession;
+    try {
+      const row = await fetchCallSession(record.id);
+      // Already cancelled, or answered on another device, before it reached this one
+      if (!row || row.status !== 'pending') return;
+      session = toCallSession(row);
+    } catch (error) {
+      console.error('Error loading incoming call:', error);
+      return;
+    }
+
+    setActiveSessions(prev => [...prev.filter(s => s.id !== session.id), session]);
+
+    const notification = toCallNotification(session, 'incoming_call');
 
     setIncomingCall(notification);
     setNotifications(prev => [notification, ...prev]);
-
-    // Auto-decline after 30 seconds
-    setTimeout(() => {
-      if (incomingCall?.session_id === session.id) {
-        declineCall(session.id);
-      }
-    }, 30000);
   };
 
-  const handleSessionUpdate = (session: CallSession) => {
-    setActiveSessions(prev => 
-      prev.map(s => s.id === session.id ? session : s)
-    );
+  const handleSessionUpdate = (record: CallSessionRecord) => {
+    const session = applySessionRecord(record);
 
-    if (currentSession?.id === session.id) {
-      setCurrentSession(session);
+    // Answered on another device, cancelled by the caller or declined elsewhere: stop ringing here
+    if (session.status !== 'pending') {
+      setIncomingCall(current => current?.session_id === session.id ? null : current);
     }
 
-    if (session.status === 'ended' || session.status === 'declined') {
-      setActiveSessions(prev => prev.filter(s => s.id !== session.id));
-      if (currentSession?.id === session.id) {
-        setCurrentSession(null);
-      }
+    // The ring timeout can be reported by both this device's check and realtime
+    if (session.status === 'missed' && session.callee_id === userProfile?.id) {
+      const notification = toCallNotification(session, 'call_missed');
+      setNotifications(prev => prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]);
     }
   };
 
@@ -143,20 +229,30 @@ export function VideoCallProvider({ children }: { children: ReactNode }) {
     return `call_${timestamp}_${random}`;
   };
 
-  const initiateCall = async (calleeId: string, callType: 'video' | 'audio'): Promise<string> => {
+  // Applies a status change returned by the server, keeping the participant profiles already loaded
+  const applySessionRecord = (record: CallSessionRecord): CallSession => {
+    const known = activeSessions.find(s => s.id === record.id)
+      || (currentSession?.id === record.id ? currentSession : undefined)
+      || callHistory.find(s => s.id === record.id);
+    const session: CallSession = { ...known, ...fromRecord(record) };
+
+    if (isLive(session)) {
+      setActiveSessions(prev => [...prev.filter(s => s.id !== session.id), session]);
+      setCurrentSession(current => current?.id === session.id ? session : current);
+    } else {
+      setActiveSessions(prev => prev.filter(s => s.id !== session.id));
+      setCallHistory(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+      setCurrentSession(current => current?.id === session.id ? null : current);
+    }
+
+    return session;
+  };
+
+  const initiateCall = async (calleeId: string, callType: 'video' | 'audio'): Promise<CallSession> => {
     if (!userProfile) throw new Error('User not authenticated');
 
-    const channelName = generateUniqueChannelName();
-    
-    // Create session in database
     const session: CallSession = {
-      id: `session_${Date.now()}`,
-      channel_name: channelName,
-      caller_id: userProfile.id,
-      callee_id: calleeId,
-      status: 'pending',
-      call_type: callType,
-      created_at: new Date().toISOString(),
+      ...fromRecord(await startCallSession(calleeId, callType)),
       caller: {
         id: userProfile.id,
         name: userProfile.name || 'Unknown',
@@ -167,68 +263,51 @@ export function VideoCallProvider({ children }: { children: ReactNode }) {
     setCurrentSession(session);
     setActiveSessions(prev => [...prev, session]);
 
-    return channelName;
+    return session;
   };
 
-  const acceptCall = async (sessionId: string): Promise<void> => {
-    const session = activeSessions.find(s => s.id === sessionId);
-    if (!session) return;
-
-    const updatedSession: CallSession = {
-      ...session,
-      status: 'active',
-      started_at: new Date().toISOString(),
-    };
+  // Throws a CallError when the call stopped ringing before it was answered
+  const acceptCall = async (sessionId: string): Promise<CallSession> => {
+    const session = applySessionRecord(await acceptCallSession(sessionId));
 
-    setCurrentSession(updatedSession);
-    setActiveSessions(prev => 
-      prev.map(s => s.id === sessionId ? updatedSession : s)
-    );
-    
+    setCurrentSession(session);
     setIncomingCall(null);
+
+    return session;
   };
 
   const declineCall = async (sessionId: string): Promise<void> => {
-    const session = activeSessions.find(s => s.id === sessionId);
-    if (!session) return;
-
-    const updatedSession: CallSession = {
-      ...session,
-      status: 'declined',
-      ended_at: new Date().toISOString(),
-    };
-
-    setActiveSessions(prev => prev.filter(s => s.id !== sessionId));
-    setCallHistory(prev => [updatedSession, ...prev]);
-    
-    if (currentSession?.id === sessionId) {
-      setCurrentSession(null);
-    }
-    
+    applySessionRecord(await declineCallSession(sessionId));
     setIncomingCall(null);
   };
 
   const endCall = async (sessionId: string): Promise<void> => {
-    const session = activeSessions.find(s => s.id === sessionId) || currentSession;
-    if (!session) return;
-
-    const updatedSession: CallSession = {
-      ...session,
-      status: 'ended',
-      ended_at: new Date().toISOString(),
-    };
-
-    setActiveSessions(prev => prev.filter(s => s.id !== sessionId));
-    setCallHistory(prev => [updatedSession, ...prev]);
-    
-    if (currentSession?.id === sessionId) {
-      setCurrentSession(null);
-    }
+    applySessionRecord(await endCallSession(sessionId));
   };
 
   const loadCallHistory = async (): Promise<void> => {
-    // In a real implementation, this would fetch from Supabase
-    // For simulation, we'll keep the existing history
+    if (!userProfile) return;
+
+    try {
+      const sessions = (await fetchCallSessions()).map(toCallSession);
+
+      const closed = sessions.filter(session => !isLive(session));
+
+      setCallHistory(closed);
+      setActiveSessions(sessions.filter(isLive));
+      // Calls that closed while their updates could not arrive
+      setCurrentSession(current => current && closed.some(s => s.id === current.id) ? null : current);
+      setIncomingCall(current => {
+        if (current) {
+          return sessions.some(s => s.id === current.session_id && s.status === 'pending') ? current : null;
+        }
+        // A call that started ringing while the app was closed or its update was lost
+        const ringing = sessions.find(s => s.callee_id === userProfile.id && isRinging(s));
+        return ringing ? toCallNotification(ringing, 'incoming_call') : null;
+      });
+    } catch (error) {
+      console.error('Error loading call history:', error);
+    }
   };
 
   const getActiveSession = (userId: string): CallSession | null => {
@@ -246,6 +325,12 @@ export function VideoCallProvider({ children }: { children: ReactNode }) {
     setIncomingCall(null);
   };
 
+  callHandlers.current = {
+    onIncomingCall: handleIncomingCall,
+    onCallUpdate: handleSessionUpdate,
+    onMissedChanges: loadCallHistory,
+  };
+
   const value: VideoCallContextType = {
     currentSession,
     activeSessions,
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  MAX_SEND_ATTEMPTS,
+  OutboxEntry,
+  deliverOutboxEntry,
+  isRetryableSendError,
+  loadOutbox,
+  retryDelay,
+  saveOutbox,
+} from '@/lib/message-outbox';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Persists unsent messages for the signed-in user and delivers them in order, retrying with backoff
+export function useMessageOutbox<T extends { id: string; created_at: string }>(onDelivered: (message: T) => void) {
+  const { userProfile } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  // Timers, NetInfo and AppState callbacks outlive renders, so they work from refs
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const userIdRef = useRef<string | null>(null);
+  const loadedRef = useRef(false);
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onDeliveredRef = useRef(onDelivered);
+  onDeliveredRef.current = onDelivered;
+
+  const update = (updater: (current: OutboxEntry[]) => OutboxEntry[]) => {
+    const next = updater(entriesRef.current);
+    entriesRef.current = next;
+    setEntries(next);
+
+    // Until the stored outbox is loaded, saving would overwrite it
+    if (userIdRef.current && loadedRef.current) {
+      saveOutbox(userIdRef.current, next).catch(error => console.error('Error saving outbox:', error));
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+
+    const pending = entriesRef.current.filter(entry => entry.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pending.map(entry => entry.next_attempt_at));
+    retryTimerRef.current = setTimeout(flush, Math.max(nextAttemptAt - Date.now(), 0));
+  };
+
+  const flush = async () => {
+    if (flushingRef.current || !userIdRef.current || !loadedRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      // A conversation stops at its first message still waiting to retry, so later ones don't overtake it
+      const waiting = new Set<string>();
+
+      for (const entry of [...entriesRef.current]) {
+        if (entry.status !== 'pending' || waiting.has(entry.conversation_id)) continue;
+
+        if (entry.next_attempt_at > Date.now()) {
+          waiting.add(entry.conversation_id);
+          continue;
+        }
+
+        try {
+          const message = await deliverOutboxEntry<T>(entry);
+          update(current => current.filter(e => e.id !== entry.id));
+          onDeliveredRef.current(message);
+        } catch (error) {
+          console.error('Error sending message:', error);
+          const attempts = entry.attempts + 1;
+          const failed = !isRetryableSendError(error as { code?: string }) || attempts >= MAX_SEND_ATTEMPTS;
+
+          update(current => current.map(e => e.id === entry.id ? {
+            ...e,
+            attempts,
+            next_attempt_at: Date.now() + retryDelay(attempts),
+            status: failed ? 'failed' : 'pending',
+          } : e));
+          waiting.add(entry.conversation_id);
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+      // Also picks up anything queued while this pass was running
+      scheduleRetry();
+    }
+  };
+
+  // Skips the remaining backoff, e.g. when the connection comes back
+  const retryPendingNow = () => {
+    if (!entriesRef.current.some(entry => entry.status === 'pending')) return;
+
+    update(current => current.map(entry => entry.status === 'pending' ? { ...entry, next_attempt_at: Date.now() } : entry));
+    flush();
+  };
+
+  const enqueue = (entry: OutboxEntry) => {
+    update(current => [...current, entry]);
+    flush();
+  };
+
+  // Sends a failed message again with a fresh backoff
+  const retry = (entryId: string) => {
+    update(current => current.map(entry => entry.id === entryId
+      ? { ...entry, status: 'pending', attempts: 0, next_attempt_at: Date.now() }
+      : entry));
+    flush();
+  };
+
+  const discard = (entryId: string) => {
+    update(current => current.filter(entry => entry.id !== entryId));
+    scheduleRetry();
+  };
+
+  useEffect(() => {
+    if (!userProfile) return;
+
+    let cancelled = false;
+    userIdRef.current = userProfile.id;
+
+    loadOutbox(userProfile.id)
+      .catch(error => {
+        console.error('Error loading outbox:', error);
+        return [] as OutboxEntry[];
+      })
+      .then(stored => {
+        if (cancelled) return;
+
+        loadedRef.current = true;
+        // Messages queued while loading go after the stored ones
+        update(current => [...stored, ...current.filter(entry => !stored.some(s => s.id === entry.id))]);
+        flush();
+      });
+
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        retryPendingNow();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        retryPendingNow();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+      userIdRef.current = null;
+      loadedRef.current = false;
+      entriesRef.current = [];
+      setEntries([]);
+    };
+  }, [userProfile?.id]);
+
+  return { entries, enqueue, retry, discard };
+}
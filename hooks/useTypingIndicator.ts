@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import {
+  TYPING_EXPIRY_MS,
+  TYPING_IDLE_MS,
+  TYPING_REFRESH_MS,
+  TypingPayload,
+  typingChannelName,
+} from '@/lib/presence';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Broadcasts this user's typing in a conversation and reports whether the counterpart is typing
+export function useTypingIndicator(conversationId: string | undefined) {
+  const { userProfile } = useAuth();
+  const [counterpartTyping, setCounterpartTyping] = useState(false);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isTypingRef = useRef(false);
+  const lastSentAtRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const expiryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const send = (typing: boolean) => {
+    if (!channelRef.current || !userProfile) return;
+
+    const payload: TypingPayload = { user_id: userProfile.id, typing };
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload });
+  };
+
+  const stopTyping = () => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (isTypingRef.current) {
+      isTypingRef.current = false;
+      send(false);
+    }
+  };
+
+  // Call on every keystroke; start, refresh and stop are sent as needed
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (!isTypingRef.current || now - lastSentAtRef.current >= TYPING_REFRESH_MS) {
+      isTypingRef.current = true;
+      lastSentAtRef.current = now;
+      send(true);
+    }
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  useEffect(() => {
+    if (!conversationId || !userProfile) return;
+
+    const channel = supabase
+      .channel(typingChannelName(conversationId))
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { user_id, typing } = payload as TypingPayload;
+        if (user_id === userProfile.id) return;
+
+        if (expiryTimerRef.current) clearTimeout(expiryTimerRef.current);
+        setCounterpartTyping(typing);
+        if (typing) {
+          expiryTimerRef.current = setTimeout(() => setCounterpartTyping(false), TYPING_EXPIRY_MS);
+        }
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      stopTyping();
+      if (expiryTimerRef.current) clearTimeout(expiryTimerRef.current);
+      setCounterpartTyping(false);
+      channelRef.current = null;
+      channel.unsubscribe();
+    };
+  }, [conversationId, userProfile?.id]);
+
+  return { counterpartTyping, notifyTyping, stopTyping };
+}
@@ -0,0 +1,74 @@
+// lib/appointment-requests.ts
+import { supabase } from './supabase';
+import { toBookingError } from './appointments';
+
+export const MAX_PROPOSED_SLOTS = 5;
+
+export type AppointmentRequestStatus = 'pending' | 'accepted' | 'declined' | 'countered';
+
+// The proposal behind an `appointment_request` message
+export type AppointmentRequest = {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  requested_by: string;
+  proposed_slots: string[];
+  duration: number;
+  status: AppointmentRequestStatus;
+  in_reply_to: string | null;
+  accepted_slot: string | null;
+  appointment_id: string | null;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Posts the proposal as a message; `replyTo` turns it into "suggest another time" for that request
+export const sendAppointmentRequest = async ({
+  conversationId,
+  slots,
+  duration,
+  note,
+  replyTo,
+}: {
+  conversationId: string;
+  slots: Date[];
+  duration: number;
+  note?: string;
+  replyTo?: string;
+}): Promise<string> => {
+  const { data, error } = await supabase.rpc('send_appointment_request', {
+    conversation_uuid: conversationId,
+    slots: slots.map(slot => slot.toISOString()),
+    duration_minutes: duration,
+    note: note?.trim() || null,
+    reply_to: replyTo || null,
+  });
+
+  if (error) throw toBookingError(error);
+
+  return data as string;
+};
+
+export const acceptAppointmentRequest = async (requestId: string, slot: string): Promise<AppointmentRequest> => {
+  const { data, error } = await supabase.rpc('respond_to_appointment_request', {
+    request_uuid: requestId,
+    accept: true,
+    slot,
+  });
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRequest;
+};
+
+export const declineAppointmentRequest = async (requestId: string): Promise<AppointmentRequest> => {
+  const { data, error } = await supabase.rpc('respond_to_appointment_request', {
+    request_uuid: requestId,
+    accept: false,
+  });
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRequest;
+};
@@ -0,0 +1,159 @@
+// lib/appointment-series.ts
+import { supabase } from './supabase';
+import { AppointmentRecord, BookingError, toBookingError } from './appointments';
+import { BusyInterval, generateAvailableSlots, isSlotFree } from './booking-slots';
+import type { TherapistAvailability } from '@/types/database';
+
+export const MAX_SERIES_OCCURRENCES = 26;
+export const SERIES_INTERVALS = [1, 2, 3, 4] as const;
+
+export type SeriesInterval = typeof SERIES_INTERVALS[number];
+
+export type RecurrenceRule = {
+  intervalWeeks: SeriesInterval;
+  // Exactly one of these ends the series
+  occurrenceCount?: number;
+  endsOn?: Date;
+};
+
+export type OccurrenceConflict = 'unavailable' | 'taken' | null;
+
+export type SeriesOccurrence = {
+  start: Date;
+  conflict: OccurrenceConflict;
+};
+
+// Start times of every occurrence, capped at MAX_SERIES_OCCURRENCES
+export const generateOccurrences = (firstStart: Date, rule: RecurrenceRule): Date[] => {
+  const starts: Date[] = [];
+  const endOfLastDay = rule.endsOn
+    ? new Date(rule.endsOn.getFullYear(), rule.endsOn.getMonth(), rule.endsOn.getDate(), 23, 59, 59, 999)
+    : null;
+
+  for (let index = 0; index < MAX_SERIES_OCCURRENCES; index++) {
+    if (rule.occurrenceCount !== undefined && index >= rule.occurrenceCount) break;
+    if (rule.occurrenceCount === undefined && !endOfLastDay) break;
+
+    // Step by calendar days rather than raw milliseconds so the wall-clock time survives DST changes
+    const start = new Date(firstStart);
+    start.setDate(firstStart.getDate() + index * rule.intervalWeeks * 7);
+    if (endOfLastDay && start.getTime() > endOfLastDay.getTime()) break;
+    starts.push(start);
+  }
+
+  return starts;
+};
+
+/**
+ * Flags each occurrence that falls outside the therapist's working hours (or on time off) and
+ * each one that collides with an existing appointment, so the client can see which weeks fail
+ * before anything is booked.
+ */
+export const checkOccurrences = ({
+  availability,
+  starts,
+  duration,
+  busy,
+  now = new Date(),
+}: {
+  availability: TherapistAvailability;
+  starts: Date[];
+  duration: number;
+  busy: BusyInterval[];
+  now?: Date;
+}): SeriesOccurrence[] =>
+  starts.map(start => {
+    const offered = generateAvailableSlots({ availability, date: start, duration, busy: [], now })
+      .some(slot => slot.start.getTime() === start.getTime());
+    if (!offered) return { start, conflict: 'unavailable' };
+    if (!isSlotFree(start, duration, busy)) return { start, conflict: 'taken' };
+    return { start, conflict: null };
+  });
+
+// Range to fetch busy intervals for: from the first occurrence to the end of the last one
+export const getOccurrenceRange = (starts: Date[], duration: number): [Date, Date] | null => {
+  if (starts.length === 0) return null;
+  const first = new Date(starts[0]);
+  first.setHours(0, 0, 0, 0);
+  const last = new Date(starts[starts.length - 1].getTime() + duration * 60 * 1000);
+  last.setHours(23, 59, 59, 999);
+  return [first, last];
+};
+
+// Shifts the later occurrences of a series by the same offset as the anchor, mirroring reschedule_appointment_series
+export const shiftOccurrences = (starts: Date[], anchor: Date, newStart: Date): Date[] => {
+  const offset = newStart.getTime() - anchor.getTime();
+  return starts
+    .filter(start => start.getTime() >= anchor.getTime())
+    .map(start => new Date(start.getTime() + offset));
+};
+
+export const bookAppointmentSeries = async ({
+  therapistUserId,
+  firstStart,
+  duration,
+  rule,
+  notes,
+}: {
+  therapistUserId: string;
+  firstStart: Date;
+  duration: number;
+  rule: RecurrenceRule;
+  notes?: string;
+}): Promise<AppointmentRecord[]> => {
+  const starts = generateOccurrences(firstStart, rule);
+  if (starts.length < 2) throw new BookingError('series_too_long');
+
+  const { data, error } = await supabase.rpc('book_appointment_series', {
+    therapist_uuid: therapistUserId,
+    occurrence_starts: starts.map(start => start.toISOString()),
+    duration_minutes: duration,
+    interval_weeks: rule.intervalWeeks,
+    appointment_notes: notes || null,
+  });
+
+  if (error) throw toBookingError(error);
+
+  return (data || []) as AppointmentRecord[];
+};
+
+// Cancels the given occurrence and every later booked occurrence in its series
+export const cancelAppointmentSeries = async (fromAppointmentId: string, reason: string): Promise<AppointmentRecord[]> => {
+  if (!reason.trim()) throw new BookingError('reason_required');
+
+  const { data, error } = await supabase.rpc('cancel_appointment_series', {
+    from_appointment: fromAppointmentId,
+    cancellation_reason: reason.trim(),
+  });
+
+  if (error) throw toBookingError(error);
+
+  return (data || []) as AppointmentRecord[];
+};
+
+// Moves the given occurrence to `newStart` and every later booked occurrence by the same offset
+export const rescheduleAppointmentSeries = async (fromAppointmentId: string, newStart: Date): Promise<AppointmentRecord[]> => {
+  const { data, error } = await supabase.rpc('reschedule_appointment_series', {
+    from_appointment: fromAppointmentId,
+    new_start: newStart.toISOString(),
+  });
+
+  if (error) throw toBookingError(error);
+
+  return (data || []) as AppointmentRecord[];
+};
+
+// Start times of the booked occurrences in a series, from `from` onwards
+export const fetchSeriesOccurrences = async (seriesId: string, from: Date): Promise<AppointmentRecord[]> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('*')
+    .eq('series_id', seriesId)
+    .eq('status', 'booked')
+    .gte('scheduled_at', from.toISOString())
+    .order('scheduled_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as AppointmentRecord[];
+};
@@ -0,0 +1,411 @@
+// lib/appointments.ts
+import { supabase } from './supabase';
+import { PublicProfile, fetchPublicProfiles } from './public-profiles';
+
+export type AppointmentStatus = 'booked' | 'completed' | 'cancelled' | 'no_show';
+
+export type AppointmentRecord = {
+  id: string;
+  client_id: string;
+  therapist_id: string;
+  scheduled_at: string;
+  duration: number;
+  status: AppointmentStatus;
+  notes?: string | null;
+  meeting_link?: string | null;
+  series_id?: string | null;
+  cancellation_reason?: string | null;
+  cancelled_by?: string | null;
+  cancelled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AppointmentEventType = 'created' | 'status_changed' | 'rescheduled';
+
+// One row of the appointment_events audit trail
+export type AppointmentEvent = {
+  id: string;
+  appointment_id: string;
+  actor_id: string | null;
+  event_type: AppointmentEventType;
+  old_status: AppointmentStatus | null;
+  new_status: AppointmentStatus | null;
+  reason: string | null;
+  old_scheduled_at: string | null;
+  new_scheduled_at: string | null;
+  old_duration: number | null;
+  new_duration: number | null;
+  created_at: string;
+};
+
+// Used when a therapist has no profile row to read the window from
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+// Mirrors the transitions allowed by the validate_appointment_update trigger
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  booked: ['completed', 'cancelled', 'no_show'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_TRANSITIONS[from].includes(to);
+
+// Codes raised by the booking RPCs and the appointment update trigger
+export type BookingErrorCode =
+  | 'slot_taken'
+  | 'client_double_booked'
+  | 'slot_in_past'
+  | 'invalid_duration'
+  | 'therapist_unavailable'
+  | 'not_authenticated'
+  | 'invalid_transition'
+  | 'not_permitted'
+  | 'session_not_started'
+  | 'reason_required'
+  | 'cancellation_window_passed'
+  | 'series_conflict'
+  | 'series_too_long'
+  | 'offer_expired'
+  | 'invalid_request'
+  | 'request_closed'
+  | 'slot_not_offered'
+  | 'unknown';
+
+const BOOKING_ERROR_CODES: BookingErrorCode[] = [
+  'slot_taken',
+  'client_double_booked',
+  'slot_in_past',
+  'invalid_duration',
+  'therapist_unavailable',
+  'not_authenticated',
+  'invalid_transition',
+  'not_permitted',
+  'session_not_started',
+  'reason_required',
+  'cancellation_window_passed',
+  'series_conflict',
+  'series_too_long',
+  'offer_expired',
+  'invalid_request',
+  'request_closed',
+  'slot_not_offered',
+];
+
+// Exclusion constraints surface as raw constraint violations on direct updates
+const OVERLAP_CONSTRAINT_CODES: Record<string, BookingErrorCode> = {
+  appointments_no_therapist_overlap: 'slot_taken',
+  appointments_no_client_overlap: 'client_double_booked',
+};
+
+const BOOKING_ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  slot_taken: 'That time was just booked by someone else. Please pick another slot.',
+  client_double_booked: 'You already have another session at this time.',
+  slot_in_past: 'That time has already passed. Please pick a later slot.',
+  invalid_duration: 'Please choose a 30, 60 or 90 minute session.',
+  therapist_unavailable: 'This therapist is not accepting bookings right now.',
+  not_authenticated: 'Please sign in to book an appointment.',
+  invalid_transition: 'This appointment can no longer be changed.',
+  not_permitted: 'You are not allowed to make this change.',
+  session_not_started: 'This session has not started yet.',
+  reason_required: 'Please give a reason for cancelling.',
+  cancellation_window_passed: 'It is too close to the session to cancel or reschedule. Please contact your therapist.',
+  series_conflict: 'Some sessions in this series clash with existing appointments or fall outside the therapist\'s hours. Adjust the series and try again.',
+  series_too_long: 'A series needs between 2 and 26 sessions.',
+  offer_expired: 'This offer has expired or was already claimed.',
+  invalid_request: 'Pick between one and five future times for a 30, 60 or 90 minute session.',
+  request_closed: 'This request has already been answered.',
+  slot_not_offered: 'That time is not one of the proposed times.',
+  unknown: 'An error occurred. Please try again.',
+};
+
+export class BookingError extends Error {
+  code: BookingErrorCode;
+
+  constructor(code: BookingErrorCode, message?: string) {
+    super(message || BOOKING_ERROR_MESSAGES[code]);
+    this.name = 'BookingError';
+    this.code = code;
+  }
+}
+
+// Maps a PostgREST error from a booking RPC onto a typed BookingError
+export const toBookingError = (error: { message?: string } | null | undefined): BookingError => {
+  const message = error?.message?.trim() || '';
+  const code = BOOKING_ERROR_CODES.find(c => c === message)
+    || Object.entries(OVERLAP_CONSTRAINT_CODES).find(([constraint]) => message.includes(constraint))?.[1];
+  return code ? new BookingError(code) : new BookingError('unknown', error?.message);
+};
+
+export const bookAppointment = async ({
+  therapistUserId,
+  scheduledAt,
+  duration,
+  notes,
+}: {
+  therapistUserId: string;
+  scheduledAt: Date;
+  duration: number;
+  notes?: string;
+}): Promise<AppointmentRecord> => {
+  const { data, error } = await supabase.rpc('book_appointment', {
+    therapist_uuid: therapistUserId,
+    scheduled_start: scheduledAt.toISOString(),
+    duration_minutes: duration,
+    appointment_notes: notes || null,
+  });
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRecord;
+};
+
+export const cancelAppointment = async (appointmentId: string, reason: string): Promise<AppointmentRecord> => {
+  if (!reason.trim()) throw new BookingError('reason_required');
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({ status: 'cancelled', cancellation_reason: reason.trim() })
+    .eq('id', appointmentId)
+    .select()
+    .single();
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRecord;
+};
+
+export const rescheduleAppointment = async (appointmentId: string, scheduledAt: Date): Promise<AppointmentRecord> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({ scheduled_at: scheduledAt.toISOString() })
+    .eq('id', appointmentId)
+    .select()
+    .single();
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRecord;
+};
+
+// Therapist-only: record how a session that has started turned out
+export const recordAppointmentOutcome = async (
+  appointmentId: string,
+  status: Extract<AppointmentStatus, 'completed' | 'no_show'>
+): Promise<AppointmentRecord> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({ status })
+    .eq('id', appointmentId)
+    .select()
+    .single();
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRecord;
+};
+
+export type AppointmentSegment = 'upcoming' | 'past' | 'cancelled';
+
+export const APPOINTMENTS_PAGE_SIZE = 20;
+
+export type AppointmentParticipant = Pick<PublicProfile, 'id' | 'name' | 'photo_url' | 'timezone'>;
+
+export type AppointmentCounterparty = {
+  id: string;
+  name: string;
+  timezone: string | null;
+};
+
+export type AppointmentListItem = AppointmentRecord & {
+  client: AppointmentParticipant | null;
+  therapist: AppointmentParticipant | null;
+};
+
+// Position after the last row of a page: (scheduled_at, id) in the segment's sort order
+export type AppointmentCursor = {
+  scheduledAt: string;
+  id: string;
+};
+
+export type AppointmentPage = {
+  appointments: AppointmentListItem[];
+  nextCursor: AppointmentCursor | null;
+};
+
+// Upcoming reads soonest first; past and cancelled read most recent first
+const SEGMENT_ASCENDING: Record<AppointmentSegment, boolean> = {
+  upcoming: true,
+  past: false,
+  cancelled: false,
+};
+
+/**
+ * Loads one page of the user's appointments in a segment. Upcoming covers booked sessions that
+ * have not started yet; past covers every started session that was not cancelled (including
+ * booked ones still waiting for an outcome); cancelled covers cancellations at any time.
+ */
+export const fetchAppointmentsPage = async ({
+  userId,
+  role,
+  segment,
+  from,
+  to,
+  counterpartyId,
+  cursor,
+  pageSize = APPOINTMENTS_PAGE_SIZE,
+  now = new Date(),
+}: {
+  userId: string;
+  role: 'client' | 'therapist';
+  segment: AppointmentSegment;
+  from?: Date | null;
+  to?: Date | null;
+  counterpartyId?: string | null;
+  cursor?: AppointmentCursor | null;
+  pageSize?: number;
+  now?: Date;
+}): Promise<AppointmentPage> => {
+  const ascending = SEGMENT_ASCENDING[segment];
+
+  let query = supabase
+    .from('appointments')
+    .select('*')
+    .eq(role === 'therapist' ? 'therapist_id' : 'client_id', userId);
+
+  if (counterpartyId) {
+    query = query.eq(role === 'therapist' ? 'client_id' : 'therapist_id', counterpartyId);
+  }
+
+  if (segment === 'upcoming') {
+    query = query.eq('status', 'booked').gte('scheduled_at', now.toISOString());
+  } else if (segment === 'past') {
+    query = query.neq('status', 'cancelled').lt('scheduled_at', now.toISOString());
+  } else {
+    query = query.eq('status', 'cancelled');
+  }
+
+  if (from) query = query.gte('scheduled_at', from.toISOString());
+  if (to) query = query.lt('scheduled_at', to.toISOString());
+
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    query = query.or(`scheduled_at.${op}.${cursor.scheduledAt},and(scheduled_at.eq.${cursor.scheduledAt},id.${op}.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('scheduled_at', { ascending })
+    .order('id', { ascending })
+    .limit(pageSize);
+
+  if (error) throw error;
+
+  // Participants come from get_public_profiles, since the counterpart's users row is not readable
+  const records = (data || []) as AppointmentRecord[];
+  const profiles = await fetchPublicProfiles(records.flatMap(record => [record.client_id, record.therapist_id]));
+  const appointments: AppointmentListItem[] = records.map(record => ({
+    ...record,
+    client: profiles[record.client_id] ?? null,
+    therapist: profiles[record.therapist_id] ?? null,
+  }));
+  const last = appointments[appointments.length - 1];
+
+  return {
+    appointments,
+    nextCursor: appointments.length === pageSize && last ? { scheduledAt: last.scheduled_at, id: last.id } : null,
+  };
+};
+
+// Everyone the calling user has had an appointment with, for the counterparty filter
+export const fetchAppointmentCounterparties = async (): Promise<AppointmentCounterparty[]> => {
+  const { data, error } = await supabase.rpc('get_appointment_counterparties');
+
+  if (error) throw error;
+
+  return (data || []) as AppointmentCounterparty[];
+};
+
+// Oldest first, so the list reads as a timeline
+export const fetchAppointmentEvents = async (appointmentId: string): Promise<AppointmentEvent[]> => {
+  const { data, error } = await supabase
+    .from('appointment_events')
+    .select('*')
+    .eq('appointment_id', appointmentId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as AppointmentEvent[];
+};
+
+type CancellationWindowRow = {
+  user_id: string;
+  cancellation_window_hours: number | null;
+};
+
+// Cancellation windows keyed by therapist user id
+export const fetchCancellationWindows = async (therapistUserIds: string[]): Promise<Record<string, number>> => {
+  if (therapistUserIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('therapist_profiles')
+    .select('user_id, cancellation_window_hours')
+    .in('user_id', therapistUserIds);
+
+  if (error) throw error;
+
+  return ((data || []) as CancellationWindowRow[]).reduce((acc: Record<string, number>, row) => {
+    acc[row.user_id] = row.cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
+    return acc;
+  }, {});
+};
+
+export const updateCancellationWindow = async (therapistUserId: string, hours: number): Promise<void> => {
+  const { error } = await supabase
+    .from('therapist_profiles')
+    .update({ cancellation_window_hours: hours })
+    .eq('user_id', therapistUserId);
+
+  if (error) throw error;
+};
+
+export type AppointmentActions = {
+  canCancel: boolean;
+  canReschedule: boolean;
+  canComplete: boolean;
+  canMarkNoShow: boolean;
+  // Client is inside the window and must contact the therapist instead
+  insideCancellationWindow: boolean;
+};
+
+export const getAppointmentActions = (
+  appointment: Pick<AppointmentRecord, 'status' | 'scheduled_at'>,
+  role: 'client' | 'therapist',
+  cancellationWindowHours: number = DEFAULT_CANCELLATION_WINDOW_HOURS,
+  now: Date = new Date()
+): AppointmentActions => {
+  const startsAt = new Date(appointment.scheduled_at).getTime();
+  const hasStarted = startsAt <= now.getTime();
+  const insideWindow = startsAt - now.getTime() < cancellationWindowHours * 60 * 60 * 1000;
+  const isBooked = appointment.status === 'booked';
+
+  if (role === 'therapist') {
+    return {
+      canCancel: isBooked && canTransition(appointment.status, 'cancelled'),
+      canReschedule: false,
+      canComplete: isBooked && hasStarted && canTransition(appointment.status, 'completed'),
+      canMarkNoShow: isBooked && hasStarted && canTransition(appointment.status, 'no_show'),
+      insideCancellationWindow: false,
+    };
+  }
+
+  return {
+    canCancel: isBooked && !insideWindow,
+    canReschedule: isBooked && !insideWindow,
+    canComplete: false,
+    canMarkNoShow: false,
+    insideCancellationWindow: isBooked && !hasStarted && insideWindow,
+  };
+};
@@ -0,0 +1,229 @@
+// lib/availability.ts
+import { supabase } from './supabase';
+import { getDeviceTimeZone, isValidTimeZone } from './timezone';
+import type {
+  SessionLength,
+  TherapistAvailability,
+  TimeOffRange,
+  TimeRange,
+  Weekday,
+  WeeklySchedule,
+} from '@/types/database';
+
+export const SESSION_LENGTHS: SessionLength[] = [30, 60, 90];
+
+// Display order for the editor: Monday first
+export const WEEKDAYS: { day: Weekday; label: string; short: string }[] = [
+  { day: 1, label: 'Monday', short: 'Mon' },
+  { day: 2, label: 'Tuesday', short: 'Tue' },
+  { day: 3, label: 'Wednesday', short: 'Wed' },
+  { day: 4, label: 'Thursday', short: 'Thu' },
+  { day: 5, label: 'Friday', short: 'Fri' },
+  { day: 6, label: 'Saturday', short: 'Sat' },
+  { day: 0, label: 'Sunday', short: 'Sun' },
+];
+
+export const EMPTY_AVAILABILITY: TherapistAvailability = {
+  weekly: [],
+  time_off: [],
+};
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Converts "HH:mm" into minutes since midnight, or null when malformed
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_OF_DAY_PATTERN.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+export const formatTimeOfDay = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Local midnight for a "YYYY-MM-DD" string, or null when malformed
+export const parseDateKey = (value: string): Date | null => {
+  const trimmed = value.trim();
+  if (!isValidDate(trimmed)) return null;
+  const [year, month, day] = trimmed.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// "YYYY-MM-DD" for the local calendar date
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+// Sensible starting point for a therapist who has never set hours: weekdays 9-5 with a lunch break
+export const createDefaultSchedule = (day: Weekday): WeeklySchedule => ({
+  day,
+  working_hours: [{ start: '09:00', end: '17:00', session_lengths: [...SESSION_LENGTHS] }],
+  breaks: [{ start: '12:00', end: '13:00' }],
+});
+
+// Accepts whatever is stored in the jsonb column (including the legacy `[]` default)
+export const normalizeAvailability = (raw: unknown): TherapistAvailability => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { weekly: [], time_off: [] };
+  }
+
+  const value = raw as Partial<TherapistAvailability>;
+
+  return {
+    ...(typeof value.timezone === 'string' && isValidTimeZone(value.timezone) ? { timezone: value.timezone } : {}),
+    weekly: Array.isArray(value.weekly)
+      ? value.weekly.map(schedule => ({
+          day: schedule.day,
+          working_hours: (schedule.working_hours || []).map(block => ({
+            start: block.start,
+            end: block.end,
+            session_lengths: (block.session_lengths || []).filter(length =>
+              SESSION_LENGTHS.includes(length)
+            ),
+          })),
+          breaks: schedule.breaks || [],
+        }))
+      : [],
+    time_off: Array.isArray(value.time_off) ? value.time_off : [],
+  };
+};
+
+// Zone the schedule is written in; schedules saved before zones were recorded read in the viewer's zone
+export const getAvailabilityTimeZone = (availability: TherapistAvailability): string =>
+  availability.timezone || getDeviceTimeZone();
+
+export const getScheduleForDay = (
+  availability: TherapistAvailability,
+  day: Weekday
+): WeeklySchedule | undefined => availability.weekly.find(schedule => schedule.day === day);
+
+const rangesOverlap = (a: [number, number], b: [number, number]) => a[0] < b[1] && b[0] < a[1];
+
+const toMinutesRange = (range: TimeRange): [number, number] | null => {
+  const start = parseTimeOfDay(range.start);
+  const end = parseTimeOfDay(range.end);
+  if (start === null || end === null) return null;
+  return [start, end];
+};
+
+// Returns human-readable problems; an empty array means the schedule can be saved
+export const validateAvailability = (availability: TherapistAvailability): string[] => {
+  const errors: string[] = [];
+
+  if (availability.timezone !== undefined && !isValidTimeZone(availability.timezone)) {
+    errors.push(`Unknown timezone "${availability.timezone}". Use a name like Europe/London`);
+  }
+
+  availability.weekly.forEach(schedule => {
+    const dayLabel = WEEKDAYS.find(w => w.day === schedule.day)?.label || `Day ${schedule.day}`;
+    const blocks: [number, number][] = [];
+
+    schedule.working_hours.forEach(block => {
+      const range = toMinutesRange(block);
+      if (!range) {
+        errors.push(`${dayLabel}: working hours must use HH:mm times`);
+        return;
+      }
+      if (range[1] <= range[0]) {
+        errors.push(`${dayLabel}: working hours ${block.start}-${block.end} must end after they start`);
+        return;
+      }
+      if (block.session_lengths.length === 0) {
+        errors.push(`${dayLabel}: pick at least one session length for ${block.start}-${block.end}`);
+      } else if (range[1] - range[0] < Math.min(...block.session_lengths)) {
+        errors.push(`${dayLabel}: ${block.start}-${block.end} is shorter than its shortest session`);
+      }
+      if (blocks.some(existing => rangesOverlap(existing, range))) {
+        errors.push(`${dayLabel}: working hours ${block.start}-${block.end} overlap another block`);
+      }
+      blocks.push(range);
+    });
+
+    schedule.breaks.forEach(breakRange => {
+      const range = toMinutesRange(breakRange);
+      if (!range) {
+        errors.push(`${dayLabel}: breaks must use HH:mm times`);
+        return;
+      }
+      if (range[1] <= range[0]) {
+        errors.push(`${dayLabel}: break ${breakRange.start}-${breakRange.end} must end after it starts`);
+        return;
+      }
+      if (!blocks.some(block => range[0] >= block[0] && range[1] <= block[1])) {
+        errors.push(`${dayLabel}: break ${breakRange.start}-${breakRange.end} is outside working hours`);
+      }
+    });
+  });
+
+  availability.time_off.forEach((timeOff: TimeOffRange) => {
+    if (!isValidDate(timeOff.start_date) || !isValidDate(timeOff.end_date)) {
+      errors.push('Time off dates must use YYYY-MM-DD');
+      return;
+    }
+    if (timeOff.end_date < timeOff.start_date) {
+      errors.push(`Time off ${timeOff.start_date} to ${timeOff.end_date} ends before it starts`);
+    }
+  });
+
+  return errors;
+};
+
+// Drops empty days and keeps blocks sorted so the stored document stays tidy
+const compactAvailability = (availability: TherapistAvailability): TherapistAvailability => {
+  const byStart = (a: TimeRange, b: TimeRange) =>
+    (parseTimeOfDay(a.start) ?? 0) - (parseTimeOfDay(b.start) ?? 0);
+
+  return {
+    ...(availability.timezone ? { timezone: availability.timezone.trim() } : {}),
+    weekly: availability.weekly
+      .filter(schedule => schedule.working_hours.length > 0)
+      .map(schedule => ({
+        ...schedule,
+        working_hours: [...schedule.working_hours].sort(byStart),
+        breaks: [...schedule.breaks].sort(byStart),
+      }))
+      .sort((a, b) => a.day - b.day),
+    time_off: [...availability.time_off].sort((a, b) => a.start_date.localeCompare(b.start_date)),
+  };
+};
+
+export const loadTherapistAvailability = async (userId: string): Promise<TherapistAvailability> => {
+  const { data, error } = await supabase
+    .from('therapist_profiles')
+    .select('availability')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+
+  return normalizeAvailability(data?.availability);
+};
+
+export const saveTherapistAvailability = async (
+  userId: string,
+  availability: TherapistAvailability
+): Promise<TherapistAvailability> => {
+  const errors = validateAvailability(availability);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const compacted = compactAvailability(availability);
+
+  const { error } = await supabase
+    .from('therapist_profiles')
+    .update({ availability: compacted })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return compacted;
+};
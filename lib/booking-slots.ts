@@ -0,0 +1,153 @@
+// lib/booking-slots.ts
+import { supabase } from './supabase';
+import {
+  SESSION_LENGTHS,
+  formatTimeOfDay,
+  getAvailabilityTimeZone,
+  getScheduleForDay,
+  parseTimeOfDay,
+} from './availability';
+import { getZonedMinutes, toZonedDateKey, zonedTimeToDate } from './timezone';
+import type { TherapistAvailability, Weekday } from '@/types/database';
+
+// An existing appointment that blocks the therapist's calendar
+export type BusyInterval = {
+  scheduled_at: string;
+  duration: number;
+};
+
+export type BookableSlot = {
+  time: string; // "HH:mm" in the viewer's timezone
+  therapistTime: string; // "HH:mm" in the timezone the therapist's schedule is written in
+  start: Date;
+};
+
+// Candidate start times are offered on this grid inside each working-hours block
+export const SLOT_INTERVAL_MINUTES = 30;
+
+// Minimum gap kept free between the end of one session and the start of the next
+export const DEFAULT_BUFFER_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export const isOnTimeOff = (availability: TherapistAvailability, dateKey: string): boolean =>
+  availability.time_off.some(timeOff => dateKey >= timeOff.start_date && dateKey <= timeOff.end_date);
+
+// Dates on the therapist's calendar that overlap the viewer's local day containing `date`
+const getScheduleDateKeys = (date: Date, timeZone: string): string[] => {
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  const midday = new Date(dayStart.getTime() + (dayEnd.getTime() - dayStart.getTime()) / 2);
+  const keys = new Set([dayStart, midday, new Date(dayEnd.getTime() - 1)].map(instant => toZonedDateKey(instant, timeZone)));
+  return Array.from(keys).sort();
+};
+
+const weekdayOfDateKey = (dateKey: string) => new Date(`${dateKey}T00:00:00Z`).getUTCDay() as Weekday;
+
+// Every start inside working hours and outside breaks, converted from the therapist's zone and
+// kept only when it falls on the viewer's local day
+const getCandidateSlots = (availability: TherapistAvailability, date: Date, duration: number): BookableSlot[] => {
+  const timeZone = getAvailabilityTimeZone(availability);
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+  const slots = new Map<number, BookableSlot>();
+
+  getScheduleDateKeys(date, timeZone).forEach(dateKey => {
+    if (isOnTimeOff(availability, dateKey)) return;
+
+    const schedule = getScheduleForDay(availability, weekdayOfDateKey(dateKey));
+    if (!schedule) return;
+
+    const breaks = schedule.breaks
+      .map(range => [parseTimeOfDay(range.start), parseTimeOfDay(range.end)])
+      .filter((range): range is [number, number] => range[0] !== null && range[1] !== null);
+
+    schedule.working_hours.forEach(block => {
+      if (!block.session_lengths.some(length => length === duration)) return;
+
+      const blockStart = parseTimeOfDay(block.start);
+      const blockEnd = parseTimeOfDay(block.end);
+      if (blockStart === null || blockEnd === null) return;
+
+      for (let minute = blockStart; minute + duration <= blockEnd; minute += SLOT_INTERVAL_MINUTES) {
+        const overlapsBreak = breaks.some(([breakStart, breakEnd]) => minute < breakEnd && breakStart < minute + duration);
+        if (overlapsBreak) continue;
+
+        const start = zonedTimeToDate(dateKey, minute, timeZone);
+        // Skipped by a DST jump in the therapist's zone
+        if (getZonedMinutes(start, timeZone) !== minute) continue;
+        if (start.getTime() < dayStart || start.getTime() >= dayEnd) continue;
+
+        slots.set(start.getTime(), {
+          time: formatTimeOfDay(start.getHours() * 60 + start.getMinutes()),
+          therapistTime: formatTimeOfDay(minute),
+          start,
+        });
+      }
+    });
+  });
+
+  return Array.from(slots.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// Session lengths the therapist offers on the viewer's local day (empty when they do not work then)
+export const getSessionLengthsForDate = (availability: TherapistAvailability, date: Date): number[] =>
+  SESSION_LENGTHS.filter(length => getCandidateSlots(availability, date, length).length > 0);
+
+// True when [start, start + duration) is clear of every busy interval padded by the buffer
+export const isSlotFree = (
+  start: Date,
+  duration: number,
+  busy: BusyInterval[],
+  bufferMinutes: number = DEFAULT_BUFFER_MINUTES
+): boolean => {
+  const slotStart = start.getTime();
+  const slotEnd = slotStart + duration * MINUTE_MS;
+
+  return !busy.some(interval => {
+    const busyStart = new Date(interval.scheduled_at).getTime() - bufferMinutes * MINUTE_MS;
+    const busyEnd = new Date(interval.scheduled_at).getTime() + (interval.duration + bufferMinutes) * MINUTE_MS;
+    return slotStart < busyEnd && busyStart < slotEnd;
+  });
+};
+
+/**
+ * Returns the start times on the viewer's local day `date` at which a `duration`-minute session
+ * fits inside the therapist's working hours (read in the schedule's timezone), avoids breaks and
+ * time off, has not already started and does not collide with an existing appointment
+ * (including the buffer on either side).
+ */
+export const generateAvailableSlots = ({
+  availability,
+  date,
+  duration,
+  busy,
+  bufferMinutes = DEFAULT_BUFFER_MINUTES,
+  now = new Date(),
+}: {
+  availability: TherapistAvailability;
+  date: Date;
+  duration: number;
+  busy: BusyInterval[];
+  bufferMinutes?: number;
+  now?: Date;
+}): BookableSlot[] =>
+  getCandidateSlots(availability, date, duration)
+    .filter(slot => slot.start.getTime() > now.getTime())
+    .filter(slot => isSlotFree(slot.start, duration, busy, bufferMinutes));
+
+export const fetchTherapistBusyIntervals = async (
+  therapistUserId: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<BusyInterval[]> => {
+  const { data, error } = await supabase.rpc('get_therapist_busy_intervals', {
+    therapist_uuid: therapistUserId,
+    range_start: rangeStart.toISOString(),
+    range_end: rangeEnd.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return (data || []) as BusyInterval[];
+};
@@ -0,0 +1,189 @@
+// lib/call-sessions.ts
+import { Platform } from 'react-native';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { queueChannelTask } from './messaging-realtime';
+
+export type CallStatus = 'pending' | 'active' | 'ended' | 'declined' | 'missed';
+export type CallType = 'video' | 'audio';
+
+export const CALL_HISTORY_PAGE_SIZE = 50;
+
+// A row of call_sessions as returned by the call functions
+export type CallSessionRecord = {
+  id: string;
+  channel_name: string;
+  caller_id: string;
+  callee_id: string;
+  status: CallStatus;
+  call_type: CallType;
+  created_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+  // Unanswered calls are marked missed by the database once this passes
+  ring_expires_at: string;
+};
+
+// One row of get_call_sessions
+export type CallSessionRow = CallSessionRecord & {
+  caller_name: string;
+  caller_role: 'client' | 'therapist';
+  caller_photo_url: string | null;
+  callee_name: string;
+  callee_role: 'client' | 'therapist';
+  callee_photo_url: string | null;
+};
+
+export type CallErrorCode = 'not_permitted' | 'invalid_call' | 'call_closed' | 'unknown';
+
+const CALL_ERROR_MESSAGES: Record<CallErrorCode, string> = {
+  not_permitted: 'You can only call people you have a conversation with.',
+  invalid_call: 'This call could not be started.',
+  call_closed: 'This call has already ended.',
+  unknown: 'An error occurred. Please try again.',
+};
+
+export class CallError extends Error {
+  code: CallErrorCode;
+
+  constructor(code: CallErrorCode, message?: string) {
+    super(message || CALL_ERROR_MESSAGES[code]);
+    this.name = 'CallError';
+    this.code = code;
+  }
+}
+
+// Maps a PostgREST error from a call RPC onto a typed CallError
+export const toCallError = (error: { message?: string } | null | undefined): CallError => {
+  const message = error?.message?.trim() || '';
+  const code = (Object.keys(CALL_ERROR_MESSAGES) as CallErrorCode[]).find(c => c !== 'unknown' && c === message);
+  return code ? new CallError(code) : new CallError('unknown', error?.message);
+};
+
+export const startCallSession = async (calleeId: string, callType: CallType): Promise<CallSessionRecord> => {
+  const { data, error } = await supabase.rpc('start_call', {
+    callee_uuid: calleeId,
+    session_type: callType,
+  });
+
+  if (error) throw toCallError(error);
+
+  return data as CallSessionRecord;
+};
+
+export const acceptCallSession = async (sessionId: string): Promise<CallSessionRecord> => {
+  const { data, error } = await supabase.rpc('accept_call', { session_uuid: sessionId });
+
+  if (error) throw toCallError(error);
+
+  return data as CallSessionRecord;
+};
+
+export const declineCallSession = async (sessionId: string): Promise<CallSessionRecord> => {
+  const { data, error } = await supabase.rpc('decline_call', { session_uuid: sessionId });
+
+  if (error) throw toCallError(error);
+
+  return data as CallSessionRecord;
+};
+
+export const endCallSession = async (sessionId: string): Promise<CallSessionRecord> => {
+  const { data, error } = await supabase.rpc('end_call', { session_uuid: sessionId });
+
+  if (error) throw toCallError(error);
+
+  return data as CallSessionRecord;
+};
+
+// Has the call marked missed if its ring time is up; a call still within it comes back unchanged
+export const expireCallSession = async (sessionId: string): Promise<CallSessionRecord> => {
+  const { data, error } = await supabase.rpc('expire_call', { session_uuid: sessionId });
+
+  if (error) throw toCallError(error);
+
+  return data as CallSessionRecord;
+};
+
+// The user's calls, newest first, with both participants' profiles
+export const fetchCallSessions = async (pageSize: number = CALL_HISTORY_PAGE_SIZE): Promise<CallSessionRow[]> => {
+  const { data, error } = await supabase.rpc('get_call_sessions', { page_size: pageSize });
+
+  if (error) throw error;
+
+  return (data || []) as CallSessionRow[];
+};
+
+export const fetchCallSession = async (sessionId: string): Promise<CallSessionRow | null> => {
+  const { data, error } = await supabase.rpc('get_call_sessions', {
+    page_size: 1,
+    only_session: sessionId,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as CallSessionRow[])[0] ?? null;
+};
+
+export type CallSessionHandlers = {
+  // A call to this user started ringing
+  onIncomingCall: (record: CallSessionRecord) => void;
+  // One of this user's calls changed status, on this device or another
+  onCallUpdate: (record: CallSessionRecord) => void;
+  // The channel rejoined after a drop, so changes may have been missed
+  onMissedChanges: () => void;
+};
+
+// Handlers are read through `getHandlers` on every event; returns the unsubscribe
+export const subscribeToCallSessions = (userId: string, getHandlers: () => CallSessionHandlers) => {
+  let channel: RealtimeChannel | null = null;
+  let stopped = false;
+  let joined = false;
+
+  queueChannelTask(() => {
+    if (stopped) return;
+
+    channel = supabase
+      .channel(`call-sessions-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'call_sessions', filter: `callee_id=eq.${userId}` },
+        (payload) => getHandlers().onIncomingCall(payload.new as CallSessionRecord)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'call_sessions', filter: `callee_id=eq.${userId}` },
+        (payload) => getHandlers().onCallUpdate(payload.new as CallSessionRecord)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'call_sessions', filter: `caller_id=eq.${userId}` },
+        (payload) => getHandlers().onCallUpdate(payload.new as CallSessionRecord)
+      )
+      .subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          if (joined) getHandlers().onMissedChanges();
+          joined = true;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Realtime call channel ${status}:`, error);
+        }
+      });
+  });
+
+  return () => {
+    stopped = true;
+
+    // Runs after the join, so the channel it creates is the one removed
+    queueChannelTask(async () => {
+      if (channel) await supabase.removeChannel(channel);
+      channel = null;
+    });
+  };
+};
+
+// Native builds hold the call in-app over WebRTC; the web build joins the browser meeting room
+export const callScreenHref = (session: Pick<CallSessionRecord, 'id' | 'channel_name' | 'call_type'>, participantName: string) => {
+  const screen = Platform.OS === 'web' ? 'video-call' : 'webrtc-video-call';
+  const audioOnly = session.call_type === 'audio' ? '&audioOnly=true' : '';
+
+  return `/${screen}/${session.channel_name}?participantName=${encodeURIComponent(participantName)}&sessionId=${session.id}${audioOnly}`;
+};
@@ -0,0 +1,128 @@
+// lib/message-attachments.ts
+import { supabase } from './supabase';
+
+export const ATTACHMENTS_BUCKET = 'message-attachments';
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Matches the bucket's allowed_mime_types
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/heic',
+  'image/webp',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+];
+
+// Signed URLs are requested for an hour and refreshed a few minutes before they lapse
+const SIGNED_URL_SECONDS = 60 * 60;
+const SIGNED_URL_MARGIN_MS = 5 * 60 * 1000;
+
+export type MessageAttachment = {
+  id: string;
+  message_id: string;
+  file_name: string;
+  // Object path inside the private bucket
+  file_url: string;
+  file_type: string;
+  file_size: number;
+};
+
+// A picked file that has not been uploaded yet
+export type PendingAttachment = {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number | null;
+};
+
+type UploadedAttachment = Omit<MessageAttachment, 'id' | 'message_id'>;
+
+export const isImageAttachment = (fileType: string) => fileType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const toObjectName = (fileName: string) => {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').slice(-80) || 'file';
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}-${safeName}`;
+};
+
+const uploadAttachment = async (conversationId: string, file: PendingAttachment): Promise<UploadedAttachment> => {
+  const response = await fetch(file.uri);
+  const body = await response.arrayBuffer();
+
+  if (body.byteLength > MAX_ATTACHMENT_BYTES) {
+    throw new Error('attachment_too_large');
+  }
+
+  const path = `${conversationId}/${toObjectName(file.name)}`;
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, body, { contentType: file.mimeType, upsert: false });
+
+  if (error) throw error;
+
+  return {
+    file_name: file.name,
+    file_url: path,
+    file_type: file.mimeType,
+    file_size: body.byteLength,
+  };
+};
+
+// Uploads the files and posts them as one message; returns the new message id
+export const sendAttachmentMessage = async (
+  conversationId: string,
+  files: PendingAttachment[],
+  caption: string = ''
+): Promise<string> => {
+  const uploaded: UploadedAttachment[] = [];
+
+  try {
+    for (const file of files) {
+      uploaded.push(await uploadAttachment(conversationId, file));
+    }
+
+    const { data, error } = await supabase.rpc('send_attachment_message', {
+      conversation_uuid: conversationId,
+      body: caption,
+      attachments: uploaded,
+    });
+
+    if (error) throw error;
+
+    return data as string;
+  } catch (error) {
+    // Don't leave orphaned objects behind when the message was not created
+    if (uploaded.length > 0) {
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploaded.map(file => file.file_url));
+    }
+    throw error;
+  }
+};
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+export const getAttachmentUrl = async (path: string): Promise<string> => {
+  const cached = signedUrls.get(path);
+  if (cached && cached.expiresAt - SIGNED_URL_MARGIN_MS > Date.now()) {
+    return cached.url;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error) throw error;
+
+  signedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 });
+  return data.signedUrl;
+};
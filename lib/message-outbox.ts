@@ -0,0 +1,86 @@
+// lib/message-outbox.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import { fetchMessage } from './messaging';
+
+// After this many failed attempts a message stops retrying on its own and waits for the user
+export const MAX_SEND_ATTEMPTS = 8;
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+
+const outboxKey = (userId: string) => `message-outbox:${userId}`;
+
+// A text message written on this device that the server has not confirmed yet
+export type OutboxEntry = {
+  // Generated here and used as the message's primary key, so a retried insert can't create a second row
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  receiver_id: string;
+  message: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: number;
+  // `failed` entries are only sent again when the user retries them
+  status: 'pending' | 'failed';
+};
+
+type SendError = { code?: string; message?: string };
+
+// RFC 4122 version 4 from a secure random source; Hermes has no crypto.randomUUID
+export const generateMessageId = () => Crypto.randomUUID();
+
+export const createOutboxEntry = (
+  message: Pick<OutboxEntry, 'conversation_id' | 'sender_id' | 'receiver_id' | 'message'>
+): OutboxEntry => ({
+  ...message,
+  id: generateMessageId(),
+  created_at: new Date().toISOString(),
+  attempts: 0,
+  next_attempt_at: Date.now(),
+  status: 'pending',
+});
+
+export const loadOutbox = async (userId: string): Promise<OutboxEntry[]> => {
+  const stored = await AsyncStorage.getItem(outboxKey(userId));
+  return stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+};
+
+export const saveOutbox = async (userId: string, entries: OutboxEntry[]) => {
+  if (entries.length === 0) {
+    await AsyncStorage.removeItem(outboxKey(userId));
+  } else {
+    await AsyncStorage.setItem(outboxKey(userId), JSON.stringify(entries));
+  }
+};
+
+// Exponential backoff with jitter: 2s, 4s, 8s ... capped at a minute
+export const retryDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Network failures and server errors are worth retrying; a rejected row (bad data, RLS) is not
+export const isRetryableSendError = (error: SendError) =>
+  !error.code || !/^(22|23|42)/.test(error.code);
+
+// Inserts the entry as a message and returns the stored row, including when an earlier attempt already made it
+export const deliverOutboxEntry = async <T extends { id: string; created_at: string }>(entry: OutboxEntry): Promise<T> => {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      id: entry.id,
+      conversation_id: entry.conversation_id,
+      sender_id: entry.sender_id,
+      receiver_id: entry.receiver_id,
+      message: entry.message,
+      message_type: 'text',
+    });
+
+  // unique_violation on the primary key: the row was stored but the response never arrived
+  if (error && error.code !== '23505') throw error;
+
+  return fetchMessage<T>(entry.id);
+};
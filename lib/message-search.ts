@@ -0,0 +1,76 @@
+// lib/message-search.ts
+import { supabase } from './supabase';
+import { MessageCursor, MessageType } from './messaging';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// search_messages wraps each match in the snippet with these control characters
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// One row of search_messages
+export type MessageSearchResult = {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  message_type: MessageType;
+  created_at: string;
+  snippet: string;
+  counterpart_id: string | null;
+  counterpart_name: string | null;
+  counterpart_photo_url: string | null;
+  counterpart_role: 'client' | 'therapist' | null;
+};
+
+export type MessageSearchPage = {
+  rows: MessageSearchResult[];
+  nextCursor: MessageCursor | null;
+};
+
+export type SnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+// Newest matches first; pass the previous page's cursor for older ones
+export const searchMessages = async (
+  query: string,
+  cursor: MessageCursor | null = null,
+  pageSize: number = SEARCH_PAGE_SIZE
+): Promise<MessageSearchPage> => {
+  if (!query.trim()) return { rows: [], nextCursor: null };
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    search_query: query.trim(),
+    page_size: pageSize,
+    before_created_at: cursor?.createdAt ?? null,
+    before_id: cursor?.id ?? null,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as MessageSearchResult[];
+  const last = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor: rows.length === pageSize && last ? { createdAt: last.created_at, id: last.id } : null,
+  };
+};
+
+// Splits a snippet into plain and highlighted runs
+export const splitSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+
+  for (const chunk of snippet.split(MATCH_START)) {
+    const end = chunk.indexOf(MATCH_END);
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      continue;
+    }
+    if (end > 0) parts.push({ text: chunk.slice(0, end), match: true });
+    if (end < chunk.length - 1) parts.push({ text: chunk.slice(end + 1), match: false });
+  }
+
+  return parts;
+};
@@ -0,0 +1,171 @@
+// lib/messaging-realtime.ts
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { AppointmentRequest } from './appointment-requests';
+
+// How many recent change events are remembered for de-duplication
+const SEEN_EVENTS_LIMIT = 500;
+
+// One channel per scope, so names are stable; a channel is fully removed before one of the same name is joined
+export const inboxChannelName = (userId: string) => `inbox-${userId}`;
+export const conversationChannelName = (conversationId: string) => `conversation-${conversationId}`;
+
+// Joins and leaves run one after another, across every subscription in the app, so a name is never
+// joined while its old channel is still leaving (supabase.channel would hand back the leaving one)
+let channelTasks: Promise<void> = Promise.resolve();
+
+export const queueChannelTask = (task: () => void | Promise<void>) => {
+  channelTasks = channelTasks
+    .then(task)
+    .catch(error => console.error('Error updating realtime channels:', error));
+};
+
+export type RealtimeScope = 'inbox' | 'conversation';
+
+type MessageRow = {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  receiver_id: string;
+};
+
+export type MessagingRealtimeHandlers<T extends MessageRow> = {
+  onMessageInsert: (message: T) => void;
+  onMessageUpdate: (message: T) => void;
+  onAppointmentRequest: (request: AppointmentRequest) => void;
+  // Changes may have been missed (the channel rejoined after a drop, or the app was in the background);
+  // whatever the scope shows should be reloaded
+  onMissedChanges: (scope: RealtimeScope) => void;
+};
+
+export type MessagingRealtime = {
+  // Follows the open thread; pass null when no thread is open
+  setConversation: (conversationId: string | null) => void;
+  // Call when the app returns to the foreground: reconnects the socket if it dropped and reports missed changes
+  resume: () => void;
+  stop: () => void;
+};
+
+// Keeps a user's inbox channel and the open conversation's channel joined. Handlers are read through
+// `getHandlers` on every event, so they always see the caller's latest state.
+export const createMessagingRealtime = <T extends MessageRow>(
+  userId: string,
+  getHandlers: () => MessagingRealtimeHandlers<T>
+): MessagingRealtime => {
+  let inboxChannel: RealtimeChannel | null = null;
+  let conversationChannel: RealtimeChannel | null = null;
+  let conversationId: string | null = null;
+  let stopped = false;
+
+  // A change can reach both channels (and a rejoin can replay it); each one is handled once
+  const seenEvents = new Set<string>();
+  const isDuplicate = (payload: RealtimePostgresChangesPayload<{ [key: string]: any }>) => {
+    const row = payload.new as { id?: string };
+    const key = `${payload.table}:${payload.eventType}:${row.id}:${payload.commit_timestamp}`;
+
+    if (seenEvents.has(key)) return true;
+
+    seenEvents.add(key);
+    if (seenEvents.size > SEEN_EVENTS_LIMIT) {
+      seenEvents.delete(seenEvents.values().next().value as string);
+    }
+    return false;
+  };
+
+  const handleMessageChange = (payload: RealtimePostgresChangesPayload<{ [key: string]: any }>) => {
+    if (isDuplicate(payload)) return;
+
+    if (payload.eventType === 'INSERT') {
+      getHandlers().onMessageInsert(payload.new as T);
+    } else if (payload.eventType === 'UPDATE') {
+      getHandlers().onMessageUpdate(payload.new as T);
+    }
+  };
+
+  const join = (channel: RealtimeChannel, scope: RealtimeScope) => {
+    let joined = false;
+
+    return channel.subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        // Later SUBSCRIBED statuses are the client rejoining after a drop
+        if (joined) getHandlers().onMissedChanges(scope);
+        joined = true;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Realtime ${scope} channel ${status}:`, error);
+      }
+    });
+  };
+
+  const joinInbox = () => {
+    const channel = supabase
+      .channel(inboxChannelName(userId))
+      // Messages to this user, and from this user on other devices, for unread counts and previews
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` }, handleMessageChange)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `sender_id=eq.${userId}` }, handleMessageChange)
+      // Reads from other devices, and the counterpart's edits and removals
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` }, handleMessageChange);
+
+    inboxChannel = join(channel, 'inbox');
+  };
+
+  const joinConversation = () => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(conversationChannelName(conversationId))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` }, handleMessageChange)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'appointment_requests', filter: `conversation_id=eq.${conversationId}` },
+        (payload) => {
+          if (isDuplicate(payload) || !payload.new || !('id' in payload.new)) return;
+          getHandlers().onAppointmentRequest(payload.new as AppointmentRequest);
+        }
+      );
+
+    conversationChannel = join(channel, 'conversation');
+  };
+
+  const leave = async (channel: RealtimeChannel | null) => {
+    if (channel) await supabase.removeChannel(channel);
+  };
+
+  queueChannelTask(() => {
+    if (!stopped) joinInbox();
+  });
+
+  return {
+    setConversation: (nextConversationId) => {
+      if (stopped || nextConversationId === conversationId) return;
+
+      const previous = conversationChannel;
+      conversationChannel = null;
+      conversationId = nextConversationId;
+
+      queueChannelTask(async () => {
+        await leave(previous);
+        // Skip if the thread changed again (or the manager stopped) while the old channel was leaving
+        if (!stopped && conversationId === nextConversationId && !conversationChannel) joinConversation();
+      });
+    },
+    resume: () => {
+      if (stopped) return;
+
+      // A dropped socket rejoins its channels on connect, and they report missed changes when they do;
+      // a socket that survived may still have lost events while the app was suspended
+      supabase.realtime.connect();
+      getHandlers().onMissedChanges('inbox');
+      if (conversationId) getHandlers().onMissedChanges('conversation');
+    },
+    stop: () => {
+      stopped = true;
+
+      // Runs after any pending join, so the channels it creates are the ones removed
+      queueChannelTask(async () => {
+        await Promise.all([leave(inboxChannel), leave(conversationChannel)]);
+        inboxChannel = null;
+        conversationChannel = null;
+      });
+    },
+  };
+};
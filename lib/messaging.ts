@@ -0,0 +1,301 @@
+// lib/messaging.ts
+import { supabase } from './supabase';
+import { fetchPublicProfiles } from './public-profiles';
+
+export const INBOX_PAGE_SIZE = 20;
+
+export type MessageType = 'text' | 'image' | 'file' | 'appointment_request' | 'missed_call';
+
+// One row of get_conversation_inbox
+export type InboxRow = {
+  id: string;
+  therapist_id: string;
+  client_id: string;
+  is_active: boolean;
+  last_message_at: string;
+  counterpart_id: string;
+  counterpart_name: string;
+  counterpart_photo_url: string | null;
+  counterpart_role: 'client' | 'therapist';
+  last_message_id: string | null;
+  last_message: string | null;
+  last_message_type: MessageType | null;
+  last_message_sender_id: string | null;
+  last_message_created_at: string | null;
+  last_message_deleted_at: string | null;
+  unread_count: number;
+};
+
+// Position after the last conversation of a page, in last_message_at DESC, id DESC order
+export type InboxCursor = {
+  lastMessageAt: string;
+  id: string;
+};
+
+export type InboxPage = {
+  rows: InboxRow[];
+  nextCursor: InboxCursor | null;
+};
+
+export const fetchConversationInbox = async (
+  cursor: InboxCursor | null = null,
+  pageSize: number = INBOX_PAGE_SIZE
+): Promise<InboxPage> => {
+  const { data, error } = await supabase.rpc('get_conversation_inbox', {
+    page_size: pageSize,
+    before_last_message_at: cursor?.lastMessageAt ?? null,
+    before_id: cursor?.id ?? null,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as InboxRow[];
+  const last = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor: rows.length === pageSize && last ? { lastMessageAt: last.last_message_at, id: last.id } : null,
+  };
+};
+
+// The inbox row of one conversation, for threads opened before their inbox page is loaded
+export const fetchInboxConversation = async (conversationId: string): Promise<InboxRow | null> => {
+  const { data, error } = await supabase.rpc('get_conversation_inbox', {
+    page_size: 1,
+    only_conversation: conversationId,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as InboxRow[])[0] ?? null;
+};
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Columns loaded for every chat message, with the rows that hang off it. The other participant's
+// `users` row is not readable, so `sender` and `receiver` are filled in by withParticipants.
+const MESSAGE_SELECT = `
+  *,
+  attachments:message_attachments(*),
+  appointment_request:appointment_requests(*)
+`;
+
+type MessageParticipantIds = {
+  sender_id: string;
+  receiver_id: string;
+};
+
+const withParticipants = async <T>(rows: T[]): Promise<T[]> => {
+  const participantRows = rows as (T & MessageParticipantIds)[];
+  const profiles = await fetchPublicProfiles(participantRows.flatMap(row => [row.sender_id, row.receiver_id]));
+  const participant = (userId: string) => {
+    const profile = profiles[userId];
+    return profile ? { id: profile.id, name: profile.name, photo_url: profile.photo_url } : null;
+  };
+
+  return participantRows.map(row => ({
+    ...row,
+    sender: participant(row.sender_id),
+    receiver: participant(row.receiver_id),
+  }));
+};
+
+// Position of the oldest message of a page, in created_at DESC, id DESC order
+export type MessageCursor = {
+  createdAt: string;
+  id: string;
+};
+
+type PagedMessage = {
+  id: string;
+  created_at: string;
+};
+
+export type MessagePage<T extends PagedMessage> = {
+  // Oldest first, ready to render
+  rows: T[];
+  nextCursor: MessageCursor | null;
+};
+
+// Latest page of a thread when no cursor is given, otherwise the page just before the cursor
+export const fetchMessagePage = async <T extends PagedMessage>(
+  conversationId: string,
+  cursor: MessageCursor | null = null,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage<T>> => {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('conversation_id', conversationId);
+
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize);
+
+  if (error) throw error;
+
+  const rows = await withParticipants((data || []) as T[]);
+  const oldest = rows[rows.length - 1];
+
+  return {
+    rows: rows.reverse(),
+    nextCursor: rows.length === pageSize && oldest ? { createdAt: oldest.created_at, id: oldest.id } : null,
+  };
+};
+
+// The page just after the cursor, for a window opened in the middle of a thread
+export const fetchNewerMessagePage = async <T extends PagedMessage>(
+  conversationId: string,
+  cursor: MessageCursor,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage<T>> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('conversation_id', conversationId)
+    .or(`created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.gt.${cursor.id})`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(pageSize);
+
+  if (error) throw error;
+
+  const rows = await withParticipants((data || []) as T[]);
+  const newest = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor: rows.length === pageSize && newest ? { createdAt: newest.created_at, id: newest.id } : null,
+  };
+};
+
+export const fetchMessage = async <T extends PagedMessage>(messageId: string): Promise<T> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .single();
+
+  if (error) throw error;
+
+  const [message] = await withParticipants([data as T]);
+  return message;
+};
+
+const compareMessages = (a: PagedMessage, b: PagedMessage) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Adds messages to a loaded window, skipping ones already in it, and keeps it oldest first
+export const mergeMessages = <T extends PagedMessage>(current: T[], incoming: T[]): T[] => {
+  const known = new Set(current.map(message => message.id));
+  const added = incoming.filter(message => !known.has(message.id));
+  if (added.length === 0) return current;
+
+  return [...current, ...added].sort(compareMessages);
+};
+
+// Marks everything the caller received in the thread up to and including the message as read
+export const markConversationRead = async (conversationId: string, upToMessageId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('mark_conversation_read', {
+    conversation_uuid: conversationId,
+    up_to_message_id: upToMessageId,
+  });
+
+  if (error) throw error;
+
+  return (data as number) ?? 0;
+};
+
+// One-line summary of a message for the inbox, falling back to its type when there is no text
+export const getMessagePreview = (message: { message: string; message_type?: MessageType | null; deleted_at?: string | null }) => {
+  if (message.deleted_at) return 'Message removed';
+  if (message.message.trim()) return message.message;
+
+  switch (message.message_type) {
+    case 'image':
+      return 'Photo';
+    case 'file':
+      return 'Attachment';
+    case 'appointment_request':
+      return 'Appointment request';
+    default:
+      // Text messages are only ever empty once removed
+      return 'Message removed';
+  }
+};
+
+// Mirrors message_edit_window() in the database
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export type MessageErrorCode =
+  | 'not_permitted'
+  | 'message_removed'
+  | 'not_editable'
+  | 'edit_window_passed'
+  | 'empty_message'
+  | 'unknown';
+
+const MESSAGE_ERROR_MESSAGES: Record<MessageErrorCode, string> = {
+  not_permitted: 'You can only change messages you sent.',
+  message_removed: 'This message was already removed.',
+  not_editable: 'This message cannot be changed.',
+  edit_window_passed: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.`,
+  empty_message: 'A message cannot be empty.',
+  unknown: 'An error occurred. Please try again.',
+};
+
+export class MessageError extends Error {
+  code: MessageErrorCode;
+
+  constructor(code: MessageErrorCode, message?: string) {
+    super(message || MESSAGE_ERROR_MESSAGES[code]);
+    this.name = 'MessageError';
+    this.code = code;
+  }
+}
+
+// Maps a PostgREST error from a message RPC onto a typed MessageError
+export const toMessageError = (error: { message?: string } | null | undefined): MessageError => {
+  const message = error?.message?.trim() || '';
+  const code = (Object.keys(MESSAGE_ERROR_MESSAGES) as MessageErrorCode[]).find(c => c !== 'unknown' && c === message);
+  return code ? new MessageError(code) : new MessageError('unknown', error?.message);
+};
+
+type EditableMessage = {
+  created_at: string;
+  message_type?: MessageType;
+  is_system_message?: boolean;
+  deleted_at?: string | null;
+};
+
+export const canRemoveMessage = (message: EditableMessage) =>
+  !message.deleted_at && !message.is_system_message && message.message_type !== 'appointment_request';
+
+export const canEditMessage = (message: EditableMessage, now: Date = new Date()) =>
+  canRemoveMessage(message) &&
+  now.getTime() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+// Both return the updated message row; the other participant gets it over realtime
+export const editMessage = async <T extends PagedMessage>(messageId: string, text: string): Promise<T> => {
+  const { data, error } = await supabase.rpc('edit_message', {
+    message_uuid: messageId,
+    new_message: text,
+  });
+
+  if (error) throw toMessageError(error);
+
+  return data as T;
+};
+
+export const deleteMessage = async <T extends PagedMessage>(messageId: string): Promise<T> => {
+  const { data, error } = await supabase.rpc('delete_message', { message_uuid: messageId });
+
+  if (error) throw toMessageError(error);
+
+  return data as T;
+};
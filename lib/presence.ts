@@ -0,0 +1,48 @@
+// lib/presence.ts
+import { supabase } from './supabase';
+
+// Every signed-in user joins this one presence channel, so its name must not be made unique
+export const ONLINE_CHANNEL = 'online-users';
+
+// A typing burst ends after this long without a keystroke
+export const TYPING_IDLE_MS = 2000;
+// While typing continues, "typing" is re-sent at most this often
+export const TYPING_REFRESH_MS = 3000;
+// The counterpart's indicator is hidden if no refresh or stop arrives in time (e.g. they lost connection)
+export const TYPING_EXPIRY_MS = 6000;
+
+export const typingChannelName = (conversationId: string) => `typing-${conversationId}`;
+
+export type TypingPayload = {
+  user_id: string;
+  typing: boolean;
+};
+
+export const touchLastSeen = async () => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) throw error;
+};
+
+export const fetchLastSeen = async (userIds: string[]): Promise<Record<string, string | null>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_last_seen', { user_ids: userIds });
+  if (error) throw error;
+
+  const lastSeen: Record<string, string | null> = {};
+  for (const row of (data || []) as { id: string; last_seen_at: string | null }[]) {
+    lastSeen[row.id] = row.last_seen_at;
+  }
+  return lastSeen;
+};
+
+export const formatLastSeen = (dateString: string, now: Date = new Date()) => {
+  const date = new Date(dateString);
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Last seen ${Math.floor(minutes / 60)}h ago`;
+
+  return `Last seen ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+};
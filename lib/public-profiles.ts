@@ -0,0 +1,27 @@
+// lib/public-profiles.ts
+import { supabase } from './supabase';
+
+// The columns of another user's record the app may show; `users` rows are readable only by their owner
+export type PublicProfile = {
+  id: string;
+  name: string;
+  role: 'client' | 'therapist';
+  photo_url: string | null;
+  location: string | null;
+  timezone: string | null;
+};
+
+// Profiles keyed by user id; users the caller may not see are left out
+export const fetchPublicProfiles = async (userIds: string[]): Promise<Record<string, PublicProfile>> => {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_public_profiles', { user_ids: ids });
+
+  if (error) throw error;
+
+  return ((data || []) as PublicProfile[]).reduce((acc: Record<string, PublicProfile>, profile) => {
+    acc[profile.id] = profile;
+    return acc;
+  }, {});
+};
@@ -0,0 +1,65 @@
+// lib/therapist-directory.ts
+import { supabase } from './supabase';
+
+export type TherapistDirectoryEntry = {
+  id: string;
+  user_id: string;
+  name: string;
+  bio: string;
+  specialties: string[];
+  credentials: string;
+  experience_years: number;
+  hourly_rate: number | null;
+  photo_url: string | null;
+  location: string | null;
+  created_at: string;
+};
+
+// Keyset cursor: the (created_at, id) of the last row on the previous page
+export type DirectoryCursor = {
+  created_at: string;
+  id: string;
+};
+
+export type DirectoryPage = {
+  therapists: TherapistDirectoryEntry[];
+  nextCursor: DirectoryCursor | null;
+};
+
+export const DIRECTORY_PAGE_SIZE = 20;
+
+export const searchTherapists = async ({
+  query,
+  specialty,
+  cursor,
+  pageSize = DIRECTORY_PAGE_SIZE,
+}: {
+  query?: string;
+  specialty?: string;
+  cursor?: DirectoryCursor | null;
+  pageSize?: number;
+}): Promise<DirectoryPage> => {
+  const { data, error } = await supabase.rpc('search_therapists', {
+    search_query: query?.trim() || null,
+    specialty_filter: specialty || null,
+    cursor_created_at: cursor?.created_at ?? null,
+    cursor_id: cursor?.id ?? null,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+
+  const therapists = ((data || []) as TherapistDirectoryEntry[]).map(therapist => ({
+    ...therapist,
+    specialties: therapist.specialties || [],
+  }));
+  const last = therapists[therapists.length - 1];
+
+  return {
+    therapists,
+    // A short page means we reached the end of the directory
+    nextCursor: therapists.length === pageSize && last
+      ? { created_at: last.created_at, id: last.id }
+      : null,
+  };
+};
@@ -0,0 +1,123 @@
+// lib/timezone.ts
+// IANA timezone helpers built on Intl so appointment times can be shown and computed in a zone
+// other than the device's (the therapist's schedule, the other participant's local time)
+
+const MINUTE_MS = 60 * 1000;
+
+type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone.trim()) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timeZone.trim() });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock reading of `date` in `timeZone`
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const values: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = parseInt(part.value, 10);
+  });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    // Some engines render midnight as "24" with hour12: false
+    hour: values.hour % 24,
+    minute: values.minute,
+  };
+};
+
+// Minutes `timeZone` is ahead of UTC at the given instant (negative west of Greenwich)
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return Math.round((asUtc - truncated) / MINUTE_MS);
+};
+
+/**
+ * The instant at which the wall clock in `timeZone` reads `minutes` past midnight on
+ * `dateKey` ("YYYY-MM-DD"). Repeated times resolve to their first occurrence. Times skipped by
+ * a DST jump never occur, so the result reads differently; check it with getZonedMinutes.
+ */
+export const zonedTimeToDate = (dateKey: string, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * MINUTE_MS;
+  const correctedOffset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - correctedOffset * MINUTE_MS);
+};
+
+// "YYYY-MM-DD" for the calendar date `date` falls on in `timeZone`
+export const toZonedDateKey = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}-${parts.month.toString().padStart(2, '0')}-${parts.day.toString().padStart(2, '0')}`;
+};
+
+// Minutes past midnight that `date` reads on the wall clock in `timeZone`
+export const getZonedMinutes = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  return parts.hour * 60 + parts.minute;
+};
+
+export const formatInTimeZone = (
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+): string => date.toLocaleString('en-US', { ...options, timeZone });
+
+// Short zone label such as "EST" or "GMT+1" at the given instant
+export const getTimeZoneLabel = (date: Date, timeZone: string): string => {
+  try {
+    const zonePart = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find(part => part.type === 'timeZoneName');
+    return zonePart?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+// True when both zones read the same wall-clock time at `date`
+export const isSameWallClock = (date: Date, a: string, b: string): boolean =>
+  a === b || getTimeZoneOffset(date, a) === getTimeZoneOffset(date, b);
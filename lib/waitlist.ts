@@ -0,0 +1,164 @@
+// lib/waitlist.ts
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { AppointmentRecord, toBookingError } from './appointments';
+import { queueChannelTask } from './messaging-realtime';
+import { fetchPublicProfiles } from './public-profiles';
+
+export type WaitlistEntryStatus = 'waiting' | 'fulfilled' | 'withdrawn';
+export type WaitlistOfferStatus = 'pending' | 'claimed' | 'withdrawn';
+
+export type WaitlistEntry = {
+  id: string;
+  client_id: string;
+  therapist_id: string;
+  start_date: string; // "YYYY-MM-DD"
+  end_date: string;
+  preferred_start: string | null; // "HH:mm:ss" in the client's local time
+  preferred_end: string | null;
+  utc_offset_minutes: number;
+  duration: number;
+  status: WaitlistEntryStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WaitlistOffer = {
+  id: string;
+  entry_id: string;
+  client_id: string;
+  therapist_id: string;
+  slot_start: string;
+  duration: number;
+  expires_at: string;
+  status: WaitlistOfferStatus;
+  appointment_id: string | null;
+  created_at: string;
+  therapist: { id: string; name: string } | null;
+};
+
+export const joinWaitlist = async ({
+  clientId,
+  therapistUserId,
+  startDate,
+  endDate,
+  preferredStart,
+  preferredEnd,
+  duration,
+}: {
+  clientId: string;
+  therapistUserId: string;
+  startDate: string;
+  endDate: string;
+  preferredStart?: string | null;
+  preferredEnd?: string | null;
+  duration: number;
+}): Promise<WaitlistEntry> => {
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .insert({
+      client_id: clientId,
+      therapist_id: therapistUserId,
+      start_date: startDate,
+      end_date: endDate,
+      preferred_start: preferredStart || null,
+      preferred_end: preferredEnd || null,
+      // Preferred times are matched against freed slots in the client's local time
+      utc_offset_minutes: new Date().getTimezoneOffset(),
+      duration,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as WaitlistEntry;
+};
+
+export const fetchWaitlistEntries = async (clientId: string, therapistUserId?: string): Promise<WaitlistEntry[]> => {
+  let query = supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('status', 'waiting')
+    .order('start_date', { ascending: true });
+
+  if (therapistUserId) {
+    query = query.eq('therapist_id', therapistUserId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as WaitlistEntry[];
+};
+
+export const withdrawWaitlistEntry = async (entryId: string): Promise<void> => {
+  const { error } = await supabase.rpc('withdraw_waitlist_entry', { entry_uuid: entryId });
+
+  if (error) throw toBookingError(error);
+};
+
+// Offers the client can still claim, soonest expiry first
+export const fetchPendingOffers = async (clientId: string): Promise<WaitlistOffer[]> => {
+  const { data, error } = await supabase
+    .from('waitlist_offers')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true });
+
+  if (error) throw error;
+
+  const offers = (data || []) as Omit<WaitlistOffer, 'therapist'>[];
+  const profiles = await fetchPublicProfiles(offers.map(offer => offer.therapist_id));
+
+  return offers.map(offer => {
+    const therapist = profiles[offer.therapist_id];
+    return { ...offer, therapist: therapist ? { id: therapist.id, name: therapist.name } : null };
+  });
+};
+
+export const claimWaitlistOffer = async (offerId: string): Promise<AppointmentRecord> => {
+  const { data, error } = await supabase.rpc('claim_waitlist_offer', { offer_uuid: offerId });
+
+  if (error) throw toBookingError(error);
+
+  return data as AppointmentRecord;
+};
+
+// Calls `onChange` whenever one of the client's offers is created or updated; returns the unsubscribe
+export const subscribeToWaitlistOffers = (clientId: string, onChange: () => void) => {
+  let channel: RealtimeChannel | null = null;
+  let stopped = false;
+
+  queueChannelTask(() => {
+    if (stopped) return;
+
+    channel = supabase
+      .channel(`waitlist-offers-${clientId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'waitlist_offers',
+          filter: `client_id=eq.${clientId}`,
+        },
+        () => onChange()
+      )
+      .subscribe();
+  });
+
+  return () => {
+    stopped = true;
+
+    // Runs after the join, so the channel it creates is the one removed
+    queueChannelTask(async () => {
+      if (channel) await supabase.removeChannel(channel);
+      channel = null;
+    });
+  };
+};
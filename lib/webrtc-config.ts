@@ -0,0 +1,33 @@
+// lib/webrtc-config.ts
+import Constants from 'expo-constants';
+
+export type IceServer = {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+};
+
+const DEFAULT_ICE_SERVERS: IceServer[] = [
+  { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] },
+];
+
+// `extra.iceServers` in app.json, or EXPO_PUBLIC_WEBRTC_ICE_SERVERS as JSON, lists the STUN and TURN servers,
+// e.g. [{"urls":"turn:turn.example.com:3478","username":"user","credential":"secret"}].
+// Without a TURN server, calls between some networks will not connect.
+const loadIceServers = (): IceServer[] => {
+  const configured = Constants.expoConfig?.extra?.iceServers || process.env.EXPO_PUBLIC_WEBRTC_ICE_SERVERS;
+  if (!configured) return DEFAULT_ICE_SERVERS;
+
+  try {
+    const servers = typeof configured === 'string' ? JSON.parse(configured) : configured;
+    if (Array.isArray(servers) && servers.length > 0) return servers as IceServer[];
+  } catch (error) {
+    console.error('Invalid WebRTC ICE server configuration:', error);
+  }
+
+  return DEFAULT_ICE_SERVERS;
+};
+
+export const WEBRTC_CONFIG = {
+  iceServers: loadIceServers(),
+};
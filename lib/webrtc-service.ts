@@ -0,0 +1,280 @@
+// lib/webrtc-service.ts
+import {
+  MediaStream,
+  RTCIceCandidate,
+  RTCPeerConnection,
+  RTCSessionDescription,
+  mediaDevices,
+} from 'react-native-webrtc';
+import type RTCIceCandidateEvent from 'react-native-webrtc/lib/typescript/RTCIceCandidateEvent';
+import type { RTCSessionDescriptionInit } from 'react-native-webrtc/lib/typescript/RTCSessionDescription';
+import type RTCTrackEvent from 'react-native-webrtc/lib/typescript/RTCTrackEvent';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { queueChannelTask } from './messaging-realtime';
+import { WEBRTC_CONFIG } from './webrtc-config';
+
+export type SignalKind = 'offer' | 'answer' | 'candidate';
+
+type RTCIceCandidateInit = ReturnType<RTCIceCandidate['toJSON']>;
+
+// What each kind of signal carries
+type SignalPayloads = {
+  offer: RTCSessionDescriptionInit;
+  answer: RTCSessionDescriptionInit;
+  candidate: RTCIceCandidateInit;
+};
+
+// A row of webrtc_signals
+type WebRTCSignal = {
+  [K in SignalKind]: {
+    id: string;
+    session_id: string;
+    sender_id: string;
+    kind: K;
+    payload: SignalPayloads[K];
+    created_at: string;
+  };
+}[SignalKind];
+
+type PeerConnectionEvents = {
+  icecandidate: RTCIceCandidateEvent<'icecandidate'>;
+  track: RTCTrackEvent<'track'>;
+  connectionstatechange: { type: 'connectionstatechange' };
+};
+
+// react-native-webrtc ships RTCPeerConnection's typings without the event-target-shim base class they
+// extend, so addEventListener is missing from its type
+const onPeerEvent = <K extends keyof PeerConnectionEvents>(
+  peer: RTCPeerConnection,
+  type: K,
+  listener: (event: PeerConnectionEvents[K]) => void
+) => {
+  const target = peer as RTCPeerConnection & {
+    addEventListener: (type: K, listener: (event: PeerConnectionEvents[K]) => void) => void;
+  };
+  target.addEventListener(type, listener);
+};
+
+export type PeerConnectionState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
+
+export type WebRTCCallOptions = {
+  sessionId: string;
+  userId: string;
+  // The caller sends the offer once the call is answered; the callee answers it
+  role: 'caller' | 'callee';
+  audioOnly?: boolean;
+};
+
+export type WebRTCCallHandlers = {
+  onLocalStream: (stream: MediaStream) => void;
+  onRemoteStream: (stream: MediaStream) => void;
+  onConnectionStateChange: (state: PeerConnectionState) => void;
+  onError: (error: unknown) => void;
+};
+
+export type WebRTCCall = {
+  // Opens the camera and microphone and starts receiving signals; safe to call more than once
+  start: () => Promise<void>;
+  sendOffer: () => Promise<void>;
+  setMuted: (muted: boolean) => void;
+  setCameraEnabled: (enabled: boolean) => void;
+  switchCamera: () => Promise<void>;
+  close: () => void;
+};
+
+// One peer-to-peer call for a call session. Offers, answers and ICE candidates travel through
+// webrtc_signals, which keeps them until the call closes, so either side may join first.
+export const createWebRTCCall = (options: WebRTCCallOptions, handlers: WebRTCCallHandlers): WebRTCCall => {
+  const { sessionId, userId, role, audioOnly } = options;
+  const peer = new RTCPeerConnection({ iceServers: WEBRTC_CONFIG.iceServers });
+
+  let localStream: MediaStream | null = null;
+  let channel: RealtimeChannel | null = null;
+  let started: Promise<void> | null = null;
+  let offerSent = false;
+  let closed = false;
+  let facingMode: 'user' | 'environment' = 'user';
+
+  // Loaded and realtime signals can overlap; each one is handled once, in arrival order
+  const handledSignals = new Set<string>();
+  let signalQueue: Promise<void> = Promise.resolve();
+  // Candidates can arrive before the description they belong to
+  let pendingCandidates: RTCIceCandidateInit[] = [];
+
+  const sendSignal = async <K extends SignalKind>(kind: K, payload: SignalPayloads[K]) => {
+    const { error } = await supabase.from('webrtc_signals').insert({
+      session_id: sessionId,
+      sender_id: userId,
+      kind,
+      payload,
+    });
+
+    if (error) throw error;
+  };
+
+  const applyRemoteDescription = async (description: RTCSessionDescriptionInit) => {
+    await peer.setRemoteDescription(new RTCSessionDescription(description));
+
+    const candidates = pendingCandidates;
+    pendingCandidates = [];
+    for (const candidate of candidates) {
+      await peer.addIceCandidate(new RTCIceCandidate(candidate));
+    }
+  };
+
+  const processSignal = async (signal: WebRTCSignal) => {
+    switch (signal.kind) {
+      case 'offer': {
+        if (role !== 'callee') return;
+
+        await applyRemoteDescription(signal.payload);
+        const answer = await peer.createAnswer();
+        await peer.setLocalDescription(answer);
+        await sendSignal('answer', { type: answer.type, sdp: answer.sdp });
+        break;
+      }
+      case 'answer':
+        if (peer.signalingState !== 'have-local-offer') return;
+        await applyRemoteDescription(signal.payload);
+        break;
+      case 'candidate':
+        if (peer.remoteDescription) {
+          await peer.addIceCandidate(new RTCIceCandidate(signal.payload));
+        } else {
+          pendingCandidates.push(signal.payload);
+        }
+        break;
+    }
+  };
+
+  const handleSignal = (signal: WebRTCSignal) => {
+    if (signal.sender_id === userId || handledSignals.has(signal.id)) return;
+    handledSignals.add(signal.id);
+
+    signalQueue = signalQueue
+      .then(() => (closed ? undefined : processSignal(signal)))
+      .catch(error => handlers.onError(error));
+  };
+
+  onPeerEvent(peer, 'icecandidate', event => {
+    if (!event.candidate || closed) return;
+    sendSignal('candidate', event.candidate.toJSON()).catch(error => handlers.onError(error));
+  });
+
+  onPeerEvent(peer, 'track', event => {
+    const [stream] = event.streams;
+    if (stream) handlers.onRemoteStream(stream);
+  });
+
+  onPeerEvent(peer, 'connectionstatechange', () => {
+    handlers.onConnectionStateChange(peer.connectionState);
+  });
+
+  const joinSignals = () =>
+    new Promise<void>((resolve, reject) => {
+      queueChannelTask(() => {
+        // Hung up before the join's turn came
+        if (closed) {
+          resolve();
+          return;
+        }
+
+        channel = supabase
+          .channel(`webrtc-signals-${sessionId}`)
+          .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'webrtc_signals', filter: `session_id=eq.${sessionId}` },
+            (payload) => handleSignal(payload.new as WebRTCSignal)
+          )
+          .subscribe((status, error) => {
+            if (status === 'SUBSCRIBED') {
+              resolve();
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              reject(error || new Error(`Signaling channel ${status}`));
+            }
+          });
+      });
+    });
+
+  const start = () => {
+    started = started || (async () => {
+      const stream = await mediaDevices.getUserMedia({
+        audio: true,
+        video: audioOnly ? false : { facingMode },
+      });
+
+      // Hung up while the camera was opening
+      if (closed) {
+        stream.getTracks().forEach(track => track.stop());
+        stream.release();
+        return;
+      }
+
+      localStream = stream;
+      localStream.getTracks().forEach(track => peer.addTrack(track, localStream!));
+      handlers.onLocalStream(localStream);
+
+      // Subscribe before loading, so nothing sent in between is missed
+      await joinSignals();
+
+      const { data, error } = await supabase
+        .from('webrtc_signals')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      ((data || []) as WebRTCSignal[]).forEach(handleSignal);
+    })();
+
+    return started;
+  };
+
+  return {
+    start,
+    sendOffer: async () => {
+      if (role !== 'caller' || offerSent) return;
+      offerSent = true;
+
+      await start();
+      if (closed) return;
+
+      const offer = await peer.createOffer({});
+      await peer.setLocalDescription(offer);
+      await sendSignal('offer', { type: offer.type, sdp: offer.sdp });
+    },
+    setMuted: (muted) => {
+      localStream?.getAudioTracks().forEach(track => {
+        track.enabled = !muted;
+      });
+    },
+    setCameraEnabled: (enabled) => {
+      localStream?.getVideoTracks().forEach(track => {
+        track.enabled = enabled;
+      });
+    },
+    switchCamera: async () => {
+      const [videoTrack] = localStream?.getVideoTracks() || [];
+      if (!videoTrack) return;
+
+      facingMode = facingMode === 'user' ? 'environment' : 'user';
+      await videoTrack.applyConstraints({ facingMode });
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+
+      localStream?.getTracks().forEach(track => track.stop());
+      localStream?.release();
+      localStream = null;
+      peer.close();
+      // Runs after any pending join, so the channel it creates is the one removed
+      queueChannelTask(async () => {
+        if (channel) await supabase.removeChannel(channel);
+        channel = null;
+      });
+    },
+  };
+};
@@ -0,0 +1 @@
+-- Intentionally empty. The call_sessions table is created in 20250801000000_call_sessions.sql.
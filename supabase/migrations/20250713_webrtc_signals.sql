@@ -0,0 +1,2 @@
+-- Intentionally empty. The webrtc_signals table is created in 20250804000000_webrtc_signals.sql,
+-- once the call_sessions table it references exists.
@@ -0,0 +1,93 @@
+/*
+  # Therapist Directory
+
+  1. Security
+    - Allow authenticated users to read the public user record of approved therapists
+      (needed by the profile and booking screens, which join `therapist_profiles` to `users`)
+
+  2. Database Functions
+    - `search_therapists` returns one page of approved therapist profiles joined to their
+      user record, filtered by free text (name, bio, credentials, location, specialties)
+      and an optional specialty, ordered newest first with a (created_at, id) keyset cursor
+
+  3. Indexes
+    - Composite index backing the directory ordering
+*/
+
+CREATE POLICY "Authenticated users can read approved therapists"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (
+    role = 'therapist' AND
+    EXISTS (
+      SELECT 1 FROM therapist_profiles tp
+      WHERE tp.user_id = users.id
+      AND tp.is_approved = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION search_therapists(
+  search_query text DEFAULT NULL,
+  specialty_filter text DEFAULT NULL,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  bio text,
+  specialties text[],
+  credentials text,
+  experience_years integer,
+  hourly_rate numeric,
+  photo_url text,
+  location text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    -- Escape LIKE wildcards so the query is matched literally
+    SELECT '%' || replace(replace(replace(btrim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+           NULLIF(btrim(search_query), '') IS NOT NULL AS has_query
+  )
+  SELECT
+    tp.id,
+    tp.user_id,
+    u.name,
+    tp.bio,
+    tp.specialties,
+    tp.credentials,
+    tp.experience_years,
+    tp.hourly_rate,
+    u.photo_url,
+    u.location,
+    tp.created_at
+  FROM therapist_profiles tp
+  JOIN users u ON u.id = tp.user_id
+  CROSS JOIN params p
+  WHERE tp.is_approved = true
+    AND (
+      NOT p.has_query
+      OR u.name ILIKE p.pattern
+      OR tp.bio ILIKE p.pattern
+      OR tp.credentials ILIKE p.pattern
+      OR u.location ILIKE p.pattern
+      OR array_to_string(tp.specialties, ' ') ILIKE p.pattern
+    )
+    AND (NULLIF(specialty_filter, '') IS NULL OR specialty_filter = ANY(tp.specialties))
+    AND (
+      cursor_created_at IS NULL
+      OR (tp.created_at, tp.id) < (cursor_created_at, cursor_id)
+    )
+  ORDER BY tp.created_at DESC, tp.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 50);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_therapist_profiles_directory ON therapist_profiles(created_at DESC, id DESC) WHERE is_approved = true;
@@ -0,0 +1,31 @@
+/*
+  # Structured Therapist Availability
+
+  1. Updates to existing tables
+    - `therapist_profiles.availability` becomes a structured object instead of a free-form array:
+      {
+        "weekly":   [{ "day": 0-6, "working_hours": [{ "start", "end", "session_lengths" }], "breaks": [{ "start", "end" }] }],
+        "time_off": [{ "start_date", "end_date", "reason" }]
+      }
+    - Existing rows (all still the unused default `[]`) are converted to an empty schedule
+
+  2. Constraints
+    - Check constraint keeping the top-level shape of the column consistent
+*/
+
+ALTER TABLE therapist_profiles
+  ALTER COLUMN availability SET DEFAULT '{"weekly": [], "time_off": []}'::jsonb;
+
+UPDATE therapist_profiles
+SET availability = '{"weekly": [], "time_off": []}'::jsonb
+WHERE availability IS NULL OR jsonb_typeof(availability) <> 'object';
+
+ALTER TABLE therapist_profiles
+  ALTER COLUMN availability SET NOT NULL;
+
+ALTER TABLE therapist_profiles
+  ADD CONSTRAINT therapist_profiles_availability_shape CHECK (
+    jsonb_typeof(availability) = 'object'
+    AND jsonb_typeof(availability -> 'weekly') = 'array'
+    AND jsonb_typeof(availability -> 'time_off') = 'array'
+  );
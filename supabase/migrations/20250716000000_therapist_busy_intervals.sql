@@ -0,0 +1,31 @@
+/*
+  # Therapist Busy Intervals
+
+  1. Database Functions
+    - `get_therapist_busy_intervals` returns the start and duration of a therapist's booked or
+      completed appointments inside a time range. Clients cannot read other clients' appointments
+      through RLS, so slot generation uses this function, which exposes timing only.
+*/
+
+CREATE OR REPLACE FUNCTION get_therapist_busy_intervals(
+  therapist_uuid uuid,
+  range_start timestamptz,
+  range_end timestamptz
+)
+RETURNS TABLE (
+  scheduled_at timestamptz,
+  duration integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.scheduled_at, COALESCE(a.duration, 60)
+  FROM appointments a
+  WHERE a.therapist_id = therapist_uuid
+    AND a.status IN ('booked', 'completed')
+    AND a.scheduled_at < range_end
+    AND a.scheduled_at + make_interval(mins => COALESCE(a.duration, 60)) > range_start
+  ORDER BY a.scheduled_at;
+$$;
@@ -0,0 +1,162 @@
+/*
+  # Atomic Appointment Booking
+
+  1. Extensions
+    - `btree_gist` so exclusion constraints can mix uuid equality with range overlap
+
+  2. Database Functions
+    - `appointment_period` builds the [scheduled_at, scheduled_at + duration) range of an appointment
+    - `book_appointment` books a session for the calling client inside one transaction, rejecting
+      overlaps with the therapist's or the client's other booked sessions
+
+  3. Constraints
+    - Booked appointments may not overlap for the same therapist or the same client. This is the
+      backstop for writes that bypass `book_appointment`.
+    - Existing overlapping booked appointments are not changed: the migration lists them and stops,
+      so they can be rescheduled or cancelled by hand before it is run again.
+
+  4. Security
+    - Direct client inserts into `appointments` are removed; bookings go through `book_appointment`
+
+  5. Error codes
+    `book_appointment` raises with the message set to a stable code the app switches on:
+    - `slot_taken`            (23P01) therapist already has a session in that window
+    - `client_double_booked`  (23P01) client already has a session in that window
+    - `slot_in_past`          (22023) start time is not in the future
+    - `invalid_duration`      (22023) duration is not 30, 60 or 90 minutes
+    - `therapist_unavailable` (P0002) therapist does not exist or is not approved
+    - `not_permitted`         (42501) the caller is not a client, or is booking with themselves
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Declared IMMUTABLE so it can back an index: adding whole minutes does not depend on the session time zone
+CREATE OR REPLACE FUNCTION appointment_period(start_at timestamptz, duration_minutes integer)
+RETURNS tstzrange
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT tstzrange(start_at, start_at + make_interval(mins => COALESCE(duration_minutes, 60)), '[)');
+$$;
+
+DO $$
+DECLARE
+  overlap_count integer;
+  examples text;
+BEGIN
+  SELECT count(*), string_agg(first_id::text || ' / ' || second_id::text, ', ') FILTER (WHERE example_rank <= 10)
+  INTO overlap_count, examples
+  FROM (
+    SELECT a.id AS first_id, b.id AS second_id, row_number() OVER (ORDER BY a.scheduled_at, a.id, b.id) AS example_rank
+    FROM appointments a
+    JOIN appointments b
+      ON a.id < b.id
+      AND (a.therapist_id = b.therapist_id OR a.client_id = b.client_id)
+      AND appointment_period(a.scheduled_at, a.duration) && appointment_period(b.scheduled_at, b.duration)
+    WHERE a.status = 'booked' AND b.status = 'booked'
+  ) overlaps;
+
+  IF overlap_count > 0 THEN
+    RAISE EXCEPTION '% pairs of booked appointments overlap for the same therapist or client', overlap_count
+      USING DETAIL = 'For example: ' || examples,
+            HINT = 'Cancel or reschedule one appointment of each pair, then run this migration again.';
+  END IF;
+END;
+$$;
+
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_no_therapist_overlap
+  EXCLUDE USING gist (therapist_id WITH =, appointment_period(scheduled_at, duration) WITH &&)
+  WHERE (status = 'booked');
+
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_no_client_overlap
+  EXCLUDE USING gist (client_id WITH =, appointment_period(scheduled_at, duration) WITH &&)
+  WHERE (status = 'booked');
+
+DROP POLICY IF EXISTS "Clients can create appointments" ON appointments;
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  therapist_uuid uuid,
+  scheduled_start timestamptz,
+  duration_minutes integer DEFAULT 60,
+  appointment_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client_uuid uuid := auth.uid();
+  requested_period tstzrange;
+  new_appointment appointments;
+  violated_constraint text;
+BEGIN
+  IF client_uuid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF client_uuid = therapist_uuid OR NOT EXISTS (
+    SELECT 1 FROM users WHERE id = client_uuid AND role = 'client'
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF duration_minutes IS NULL OR duration_minutes NOT IN (30, 60, 90) THEN
+    RAISE EXCEPTION 'invalid_duration' USING ERRCODE = '22023';
+  END IF;
+
+  IF scheduled_start <= now() THEN
+    RAISE EXCEPTION 'slot_in_past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM therapist_profiles
+    WHERE user_id = therapist_uuid AND is_approved = true
+  ) THEN
+    RAISE EXCEPTION 'therapist_unavailable' USING ERRCODE = 'P0002';
+  END IF;
+
+  requested_period := appointment_period(scheduled_start, duration_minutes);
+
+  -- Serialize concurrent bookings for the same therapist or client; lock in a fixed order to avoid deadlocks
+  PERFORM pg_advisory_xact_lock(hashtextextended(LEAST(therapist_uuid, client_uuid)::text, 0));
+  PERFORM pg_advisory_xact_lock(hashtextextended(GREATEST(therapist_uuid, client_uuid)::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE therapist_id = therapist_uuid
+    AND status = 'booked'
+    AND appointment_period(scheduled_at, duration) && requested_period
+  ) THEN
+    RAISE EXCEPTION 'slot_taken' USING ERRCODE = '23P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE client_id = client_uuid
+    AND status = 'booked'
+    AND appointment_period(scheduled_at, duration) && requested_period
+  ) THEN
+    RAISE EXCEPTION 'client_double_booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO appointments (client_id, therapist_id, scheduled_at, duration, status, notes)
+  VALUES (client_uuid, therapist_uuid, scheduled_start, duration_minutes, 'booked', NULLIF(btrim(appointment_notes), ''))
+  RETURNING * INTO new_appointment;
+
+  RETURN new_appointment;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    GET STACKED DIAGNOSTICS violated_constraint = CONSTRAINT_NAME;
+    -- Our own checks above raise with no constraint name; pass those through unchanged
+    IF violated_constraint IS NULL OR violated_constraint = '' THEN
+      RAISE;
+    ELSIF violated_constraint = 'appointments_no_client_overlap' THEN
+      RAISE EXCEPTION 'client_double_booked' USING ERRCODE = '23P01';
+    ELSE
+      RAISE EXCEPTION 'slot_taken' USING ERRCODE = '23P01';
+    END IF;
+END;
+$$;
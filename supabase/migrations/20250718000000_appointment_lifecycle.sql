@@ -0,0 +1,116 @@
+/*
+  # Appointment Lifecycle
+
+  1. Updates to existing tables
+    - `therapist_profiles.cancellation_window_hours` - how close to the start time a client may still
+      cancel or reschedule (therapists can always cancel)
+    - `appointments.cancellation_reason`, `cancelled_by`, `cancelled_at`
+
+  2. Triggers
+    - `validate_appointment_update` runs before every appointment update and enforces:
+      - only `booked` appointments change status (`booked` -> `completed` | `cancelled` | `no_show`)
+      - only the therapist marks a session `completed` or `no_show`, and only once it has started
+      - cancelling requires a reason; clients must cancel outside the therapist's window
+      - only `booked` appointments are rescheduled, to a future time, by a client outside the window
+        (overlaps are still rejected by the exclusion constraints from the booking migration)
+      - participants cannot be reassigned
+      - `cancelled_by`, `cancelled_at` and `cancellation_reason` are written only when the status
+        moves to `cancelled`; any other update keeps their previous values
+
+  3. Error codes
+    Raised with the message set to a stable code:
+    - `invalid_transition`          (22023)
+    - `not_permitted`               (42501)
+    - `session_not_started`         (22023)
+    - `reason_required`             (22023)
+    - `cancellation_window_passed`  (22023)
+    - `slot_in_past`                (22023)
+*/
+
+ALTER TABLE therapist_profiles
+  ADD COLUMN IF NOT EXISTS cancellation_window_hours integer NOT NULL DEFAULT 24
+  CHECK (cancellation_window_hours >= 0 AND cancellation_window_hours <= 168);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancellation_reason text;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancelled_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+-- True when `starts_at` is still further away than the therapist's cancellation window
+CREATE OR REPLACE FUNCTION is_outside_cancellation_window(therapist_uuid uuid, starts_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT starts_at - now() >= make_interval(hours => COALESCE(
+    (SELECT cancellation_window_hours FROM therapist_profiles WHERE user_id = therapist_uuid LIMIT 1),
+    24
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION validate_appointment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- NULL for service-role and migration updates, which skip the per-role rules
+  actor uuid := auth.uid();
+BEGIN
+  IF NEW.client_id IS DISTINCT FROM OLD.client_id OR NEW.therapist_id IS DISTINCT FROM OLD.therapist_id THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  -- The cancellation audit trail is set below and nowhere else
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'cancelled' THEN
+    NEW.cancelled_by := OLD.cancelled_by;
+    NEW.cancelled_at := OLD.cancelled_at;
+    NEW.cancellation_reason := OLD.cancellation_reason;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'booked' THEN
+      RAISE EXCEPTION 'invalid_transition' USING ERRCODE = '22023',
+        DETAIL = format('%s -> %s', OLD.status, NEW.status);
+    END IF;
+
+    IF NEW.status IN ('completed', 'no_show') THEN
+      IF actor IS NOT NULL AND actor <> OLD.therapist_id THEN
+        RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+      END IF;
+      IF OLD.scheduled_at > now() THEN
+        RAISE EXCEPTION 'session_not_started' USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    IF NEW.status = 'cancelled' THEN
+      IF NULLIF(btrim(COALESCE(NEW.cancellation_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+      END IF;
+      IF actor = OLD.client_id AND NOT is_outside_cancellation_window(OLD.therapist_id, OLD.scheduled_at) THEN
+        RAISE EXCEPTION 'cancellation_window_passed' USING ERRCODE = '22023';
+      END IF;
+      NEW.cancelled_by := actor;
+      NEW.cancelled_at := now();
+    END IF;
+  END IF;
+
+  IF NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at OR NEW.duration IS DISTINCT FROM OLD.duration THEN
+    IF OLD.status <> 'booked' OR NEW.status <> 'booked' THEN
+      RAISE EXCEPTION 'invalid_transition' USING ERRCODE = '22023';
+    END IF;
+    IF NEW.scheduled_at <= now() THEN
+      RAISE EXCEPTION 'slot_in_past' USING ERRCODE = '22023';
+    END IF;
+    IF actor = OLD.client_id AND NOT is_outside_cancellation_window(OLD.therapist_id, OLD.scheduled_at) THEN
+      RAISE EXCEPTION 'cancellation_window_passed' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_appointment_update BEFORE UPDATE ON appointments FOR EACH ROW EXECUTE FUNCTION validate_appointment_update();
@@ -0,0 +1,104 @@
+/*
+  # Appointment Status History
+
+  1. New Tables
+    - `appointment_events` - append-only audit trail for appointments: who made a change, when,
+      the status before and after, the reason given and the schedule (start and length) before and after
+
+  2. Triggers
+    - `log_appointment_event` runs after every insert and after updates that change `status`,
+      `scheduled_at` or `duration`, so bookings, lifecycle actions and direct updates are all recorded
+
+  3. Security
+    - Participants can read the events of their own appointments
+    - There are no insert, update or delete policies; only the trigger writes to the table
+
+  4. Data
+    - Existing appointments get a `created` event at their original `created_at`
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  -- NULL when the change came from the service role or a migration
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'rescheduled')),
+  old_status appointment_status,
+  new_status appointment_status,
+  reason text,
+  old_scheduled_at timestamptz,
+  new_scheduled_at timestamptz,
+  old_duration integer,
+  new_duration integer,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_events_appointment
+  ON appointment_events (appointment_id, created_at);
+
+ALTER TABLE appointment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read appointment events"
+  ON appointment_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.id = appointment_events.appointment_id
+      AND (a.client_id = auth.uid() OR a.therapist_id = auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION log_appointment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO appointment_events (appointment_id, actor_id, event_type, new_status, new_scheduled_at, new_duration)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status, NEW.scheduled_at, NEW.duration);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO appointment_events (
+      appointment_id, actor_id, event_type, old_status, new_status, reason,
+      old_scheduled_at, new_scheduled_at, old_duration, new_duration
+    )
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'status_changed',
+      OLD.status,
+      NEW.status,
+      CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END,
+      OLD.scheduled_at,
+      NEW.scheduled_at,
+      OLD.duration,
+      NEW.duration
+    );
+  ELSIF NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at OR NEW.duration IS DISTINCT FROM OLD.duration THEN
+    INSERT INTO appointment_events (
+      appointment_id, actor_id, event_type, old_status, new_status,
+      old_scheduled_at, new_scheduled_at, old_duration, new_duration
+    )
+    VALUES (
+      NEW.id, auth.uid(), 'rescheduled', OLD.status, NEW.status,
+      OLD.scheduled_at, NEW.scheduled_at, OLD.duration, NEW.duration
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_appointment_insert AFTER INSERT ON appointments FOR EACH ROW EXECUTE FUNCTION log_appointment_event();
+CREATE TRIGGER log_appointment_update AFTER UPDATE OF status, scheduled_at, duration ON appointments FOR EACH ROW EXECUTE FUNCTION log_appointment_event();
+
+INSERT INTO appointment_events (appointment_id, actor_id, event_type, new_status, new_scheduled_at, new_duration, created_at)
+SELECT a.id, a.client_id, 'created', 'booked', a.scheduled_at, a.duration, a.created_at
+FROM appointments a
+WHERE NOT EXISTS (SELECT 1 FROM appointment_events e WHERE e.appointment_id = a.id);
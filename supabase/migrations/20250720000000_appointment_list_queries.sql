@@ -0,0 +1,35 @@
+/*
+  # Appointment List Queries
+
+  1. Indexes
+    - `(therapist_id, scheduled_at, id)` and `(client_id, scheduled_at, id)` back the keyset-paged
+      Upcoming / Past / Cancelled lists in the Appointments tab
+
+  2. Database Functions
+    - `get_appointment_counterparties` returns the distinct people the calling user has had
+      appointments with. `users` rows are only readable by their owner, so the counterparty filter
+      reads names through this function rather than joining `users` directly.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_appointments_therapist_schedule
+  ON appointments (therapist_id, scheduled_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_client_schedule
+  ON appointments (client_id, scheduled_at, id);
+
+CREATE OR REPLACE FUNCTION get_appointment_counterparties()
+RETURNS TABLE (
+  id uuid,
+  name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT u.id, u.name
+  FROM appointments a
+  JOIN users u ON u.id = CASE WHEN a.therapist_id = auth.uid() THEN a.client_id ELSE a.therapist_id END
+  WHERE a.therapist_id = auth.uid() OR a.client_id = auth.uid()
+  ORDER BY u.name;
+$$;
@@ -0,0 +1,281 @@
+/*
+  # Recurring Appointment Series
+
+  1. New Tables
+    - `appointment_series` - a weekly (or every N weeks) run of sessions between one client and one
+      therapist; each occurrence is still an ordinary `appointments` row
+
+  2. Updates to existing tables
+    - `appointments.series_id` links an occurrence to its series
+
+  3. Database Functions
+    - `is_within_availability` checks a session against the therapist's stored schedule the way the
+      app's slot picker does: on the 30-minute grid of a working-hours block that offers the session
+      length, clear of breaks and not on time off
+    - `book_appointment_series` books every occurrence for the calling client in one transaction.
+      If any occurrence is taken, outside the therapist's availability, in the past or overlaps
+      another of the client's sessions, nothing is booked and `series_conflict` is raised with the
+      conflicting start times in DETAIL.
+    - `cancel_appointment_series` cancels an occurrence and every later booked occurrence
+    - `reschedule_appointment_series` moves an occurrence and every later booked occurrence by the
+      same offset. If a moved occurrence falls outside the therapist's availability, nothing moves
+      and `series_conflict` is raised the same way.
+    Both run as the caller, so RLS and the `validate_appointment_update` rules apply to each row.
+
+  4. Security
+    - Participants can read their own series
+
+  5. Error codes
+    - `series_conflict`   (23P01) one or more occurrences cannot be booked or moved
+    - `series_too_long`   (22023) fewer than 2 or more than 26 occurrences
+    - plus the `book_appointment` codes for the shared checks
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  interval_weeks integer NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 4),
+  occurrence_count integer NOT NULL CHECK (occurrence_count BETWEEN 2 AND 26),
+  duration integer NOT NULL DEFAULT 60,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES appointment_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON appointments (series_id, scheduled_at);
+
+ALTER TABLE appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read own appointment series"
+  ON appointment_series
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid() OR therapist_id = auth.uid());
+
+CREATE TRIGGER update_appointment_series_updated_at BEFORE UPDATE ON appointment_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION time_of_day_minutes(time_of_day text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT split_part(time_of_day, ':', 1)::integer * 60 + split_part(time_of_day, ':', 2)::integer;
+$$;
+
+-- Schedules are read in UTC until they record a zone. Definer rights so invoker functions can call it.
+CREATE OR REPLACE FUNCTION is_within_availability(
+  therapist_uuid uuid,
+  start_at timestamptz,
+  duration_minutes integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule jsonb;
+  local_start timestamp;
+  date_key text;
+  start_minute integer;
+BEGIN
+  SELECT availability INTO schedule FROM therapist_profiles WHERE user_id = therapist_uuid;
+
+  IF schedule IS NULL THEN
+    RETURN false;
+  END IF;
+
+  local_start := start_at AT TIME ZONE 'UTC';
+  date_key := to_char(local_start, 'YYYY-MM-DD');
+  start_minute := extract(hour FROM local_start)::integer * 60 + extract(minute FROM local_start)::integer;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(schedule -> 'time_off') time_off
+    WHERE date_key BETWEEN time_off ->> 'start_date' AND time_off ->> 'end_date'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(schedule -> 'weekly') day_schedule,
+      jsonb_array_elements(day_schedule -> 'working_hours') block
+    WHERE (day_schedule ->> 'day')::integer = extract(dow FROM local_start)::integer
+      AND block -> 'session_lengths' @> to_jsonb(duration_minutes)
+      AND start_minute >= time_of_day_minutes(block ->> 'start')
+      AND start_minute + duration_minutes <= time_of_day_minutes(block ->> 'end')
+      AND (start_minute - time_of_day_minutes(block ->> 'start')) % 30 = 0
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(day_schedule -> 'breaks') break_range
+        WHERE start_minute < time_of_day_minutes(break_range ->> 'end')
+          AND time_of_day_minutes(break_range ->> 'start') < start_minute + duration_minutes
+      )
+  );
+END;
+$$;
+
+-- The app expands the recurrence rule in the client's local calendar (so sessions keep their
+-- wall-clock time across DST changes) and passes the resulting start times here
+CREATE OR REPLACE FUNCTION book_appointment_series(
+  therapist_uuid uuid,
+  occurrence_starts timestamptz[],
+  duration_minutes integer DEFAULT 60,
+  interval_weeks integer DEFAULT 1,
+  appointment_notes text DEFAULT NULL
+)
+RETURNS SETOF appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client_uuid uuid := auth.uid();
+  starts timestamptz[];
+  conflicts text[] := ARRAY[]::text[];
+  occurrence_start timestamptz;
+  new_series_id uuid;
+BEGIN
+  IF client_uuid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF client_uuid = therapist_uuid OR NOT EXISTS (
+    SELECT 1 FROM users WHERE id = client_uuid AND role = 'client'
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF duration_minutes IS NULL OR duration_minutes NOT IN (30, 60, 90) THEN
+    RAISE EXCEPTION 'invalid_duration' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(DISTINCT s ORDER BY s) INTO starts FROM unnest(occurrence_starts) AS s;
+
+  IF interval_weeks IS NULL OR interval_weeks NOT BETWEEN 1 AND 4
+    OR COALESCE(array_length(starts, 1), 0) NOT BETWEEN 2 AND 26 THEN
+    RAISE EXCEPTION 'series_too_long' USING ERRCODE = '22023';
+  END IF;
+
+  IF starts[1] <= now() THEN
+    RAISE EXCEPTION 'slot_in_past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM therapist_profiles
+    WHERE user_id = therapist_uuid AND is_approved = true
+  ) THEN
+    RAISE EXCEPTION 'therapist_unavailable' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(LEAST(therapist_uuid, client_uuid)::text, 0));
+  PERFORM pg_advisory_xact_lock(hashtextextended(GREATEST(therapist_uuid, client_uuid)::text, 0));
+
+  FOREACH occurrence_start IN ARRAY starts LOOP
+    IF NOT is_within_availability(therapist_uuid, occurrence_start, duration_minutes) OR EXISTS (
+      SELECT 1 FROM appointments
+      WHERE (therapist_id = therapist_uuid OR client_id = client_uuid)
+      AND status = 'booked'
+      AND appointment_period(scheduled_at, duration) && appointment_period(occurrence_start, duration_minutes)
+    ) THEN
+      conflicts := conflicts || occurrence_start::text;
+    END IF;
+  END LOOP;
+
+  IF array_length(conflicts, 1) > 0 THEN
+    RAISE EXCEPTION 'series_conflict' USING ERRCODE = '23P01', DETAIL = array_to_string(conflicts, ',');
+  END IF;
+
+  INSERT INTO appointment_series (client_id, therapist_id, interval_weeks, occurrence_count, duration)
+  VALUES (client_uuid, therapist_uuid, interval_weeks, array_length(starts, 1), duration_minutes)
+  RETURNING id INTO new_series_id;
+
+  RETURN QUERY
+  INSERT INTO appointments (client_id, therapist_id, scheduled_at, duration, status, notes, series_id)
+  SELECT client_uuid, therapist_uuid, s, duration_minutes, 'booked', NULLIF(btrim(appointment_notes), ''), new_series_id
+  FROM unnest(starts) AS s
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_appointment_series(
+  from_appointment uuid,
+  cancellation_reason text
+)
+RETURNS SETOF appointments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  anchor appointments;
+BEGIN
+  SELECT * INTO anchor FROM appointments WHERE id = from_appointment;
+  IF anchor.id IS NULL OR anchor.series_id IS NULL THEN
+    RAISE EXCEPTION 'invalid_transition' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE appointments
+  SET status = 'cancelled', cancellation_reason = cancel_appointment_series.cancellation_reason
+  WHERE series_id = anchor.series_id
+    AND status = 'booked'
+    AND scheduled_at >= anchor.scheduled_at
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_appointment_series(
+  from_appointment uuid,
+  new_start timestamptz
+)
+RETURNS SETOF appointments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  anchor appointments;
+  shift interval;
+  occurrence appointments;
+  conflicts text[];
+BEGIN
+  SELECT * INTO anchor FROM appointments WHERE id = from_appointment;
+  IF anchor.id IS NULL OR anchor.series_id IS NULL OR anchor.status <> 'booked' THEN
+    RAISE EXCEPTION 'invalid_transition' USING ERRCODE = '22023';
+  END IF;
+
+  shift := new_start - anchor.scheduled_at;
+
+  SELECT array_agg((scheduled_at + shift)::text ORDER BY scheduled_at) INTO conflicts
+  FROM appointments
+  WHERE series_id = anchor.series_id
+    AND status = 'booked'
+    AND scheduled_at >= anchor.scheduled_at
+    AND NOT is_within_availability(therapist_id, scheduled_at + shift, duration);
+
+  IF array_length(conflicts, 1) > 0 THEN
+    RAISE EXCEPTION 'series_conflict' USING ERRCODE = '23P01', DETAIL = array_to_string(conflicts, ',');
+  END IF;
+
+  -- Move the occurrence furthest in the direction of travel first so the series never overlaps itself
+  FOR occurrence IN
+    SELECT * FROM appointments
+    WHERE series_id = anchor.series_id
+      AND status = 'booked'
+      AND scheduled_at >= anchor.scheduled_at
+    ORDER BY
+      CASE WHEN shift > interval '0' THEN scheduled_at END DESC,
+      CASE WHEN shift <= interval '0' THEN scheduled_at END ASC
+  LOOP
+    UPDATE appointments SET scheduled_at = occurrence.scheduled_at + shift WHERE id = occurrence.id;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT * FROM appointments
+  WHERE series_id = anchor.series_id
+    AND status = 'booked'
+    AND scheduled_at >= new_start
+  ORDER BY scheduled_at;
+END;
+$$;
@@ -0,0 +1,212 @@
+/*
+  # Therapist Waitlist
+
+  1. New Tables
+    - `waitlist_entries` - a client waiting for a session with a therapist on a date or date range,
+      optionally within preferred times of day (in the client's local time)
+    - `waitlist_offers` - a freed-up slot offered to a waiting client until `expires_at`
+
+  2. Triggers
+    - `offer_cancelled_slot` runs when a future booked appointment is cancelled and offers the freed
+      slot to every matching waiting client at once. The first to claim it gets it.
+
+  3. Database Functions
+    - `claim_waitlist_offer` books the offered slot for the calling client through
+      `book_appointment`, marks their entry fulfilled and withdraws the same slot from everyone else
+    - `withdraw_waitlist_entry` takes the calling client's waiting entry off the waitlist along with
+      its unclaimed offers. Entries that are already fulfilled or withdrawn are returned unchanged.
+
+  4. Security
+    - Clients add their own entries and read their own entries and offers; entries are withdrawn
+      only through `withdraw_waitlist_entry`, so the rest of an entry never changes after it is added
+    - Therapists can read the entries waiting on them
+    - Offers are written only by the trigger and the claim function
+
+  5. Realtime
+    - `waitlist_offers` is added to the `supabase_realtime` publication so offers appear in-app
+
+  6. Error codes
+    - `offer_expired`      (22023) the offer has expired or was already claimed or withdrawn
+    - `not_permitted`      (42501) the offer or entry belongs to someone else
+    - plus the `book_appointment` codes (for example `slot_taken`)
+*/
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  preferred_start time,
+  preferred_end time,
+  -- Minutes to add to the client's local time to get UTC (JavaScript getTimezoneOffset)
+  utc_offset_minutes integer NOT NULL DEFAULT 0,
+  duration integer NOT NULL DEFAULT 60 CHECK (duration IN (30, 60, 90)),
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'fulfilled', 'withdrawn')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (preferred_start IS NULL OR preferred_end IS NULL OR preferred_end > preferred_start)
+);
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  slot_start timestamptz NOT NULL,
+  duration integer NOT NULL,
+  expires_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'withdrawn')),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (entry_id, slot_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_therapist ON waitlist_entries (therapist_id, status, start_date);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_client ON waitlist_offers (client_id, status, expires_at);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can read own waitlist entries"
+  ON waitlist_entries
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid() OR therapist_id = auth.uid());
+
+CREATE POLICY "Clients can join waitlists"
+  ON waitlist_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (client_id = auth.uid() AND status = 'waiting');
+
+CREATE POLICY "Clients can read own waitlist offers"
+  ON waitlist_offers
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- How long a waiting client has to claim a freed slot
+CREATE OR REPLACE FUNCTION waitlist_offer_ttl()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '2 hours';
+$$;
+
+CREATE OR REPLACE FUNCTION offer_cancelled_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status <> 'booked' OR NEW.scheduled_at <= now() THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO waitlist_offers (entry_id, client_id, therapist_id, slot_start, duration, expires_at)
+  SELECT
+    e.id,
+    e.client_id,
+    e.therapist_id,
+    NEW.scheduled_at,
+    e.duration,
+    LEAST(now() + waitlist_offer_ttl(), NEW.scheduled_at)
+  FROM waitlist_entries e,
+    LATERAL (
+      SELECT (NEW.scheduled_at AT TIME ZONE 'UTC') - make_interval(mins => e.utc_offset_minutes) AS local_start
+    ) slot
+  WHERE e.therapist_id = NEW.therapist_id
+    AND e.status = 'waiting'
+    AND e.client_id <> NEW.client_id
+    AND e.duration <= COALESCE(NEW.duration, 60)
+    AND slot.local_start::date BETWEEN e.start_date AND e.end_date
+    AND (e.preferred_start IS NULL OR slot.local_start::time >= e.preferred_start)
+    AND (e.preferred_end IS NULL OR (slot.local_start + make_interval(mins => e.duration))::time <= e.preferred_end)
+  ON CONFLICT (entry_id, slot_start) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER offer_cancelled_slot AFTER UPDATE OF status ON appointments FOR EACH ROW EXECUTE FUNCTION offer_cancelled_slot();
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(offer_uuid uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer waitlist_offers;
+  claimed appointments;
+BEGIN
+  SELECT * INTO offer FROM waitlist_offers WHERE id = offer_uuid FOR UPDATE;
+
+  IF offer.id IS NULL OR offer.client_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF offer.status <> 'pending' OR offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'offer_expired' USING ERRCODE = '22023';
+  END IF;
+
+  -- Raises slot_taken when another waiting client claimed it first
+  SELECT * INTO claimed FROM book_appointment(offer.therapist_id, offer.slot_start, offer.duration, NULL);
+
+  UPDATE waitlist_offers SET status = 'claimed', appointment_id = claimed.id WHERE id = offer.id;
+  UPDATE waitlist_entries SET status = 'fulfilled' WHERE id = offer.entry_id;
+
+  -- The slot is gone for everyone else, and this client no longer needs their other offers
+  UPDATE waitlist_offers
+  SET status = 'withdrawn'
+  WHERE status = 'pending'
+    AND id <> offer.id
+    AND (
+      (therapist_id = offer.therapist_id AND slot_start = offer.slot_start)
+      OR entry_id = offer.entry_id
+    );
+
+  RETURN claimed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_waitlist_entry(entry_uuid uuid)
+RETURNS waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry waitlist_entries;
+BEGIN
+  SELECT * INTO entry FROM waitlist_entries WHERE id = entry_uuid FOR UPDATE;
+
+  IF entry.id IS NULL OR entry.client_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF entry.status <> 'waiting' THEN
+    RETURN entry;
+  END IF;
+
+  UPDATE waitlist_entries
+  SET status = 'withdrawn'
+  WHERE id = entry.id
+  RETURNING * INTO entry;
+
+  UPDATE waitlist_offers
+  SET status = 'withdrawn'
+  WHERE entry_id = entry.id AND status = 'pending';
+
+  RETURN entry;
+END;
+$$;
+
+-- Lets the app show new offers as they arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE waitlist_offers;
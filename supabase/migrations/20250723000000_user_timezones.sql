@@ -0,0 +1,191 @@
+/*
+  # User Timezones
+
+  1. Changes
+    - `users.timezone` holds the IANA zone of the user's device (for example `Europe/London`).
+      The app keeps it current on sign-in so a travelling user's counterpart sees the right local time.
+    - `therapist_profiles.availability` may carry a `timezone` key naming the zone the weekly
+      hours and time off are written in. Schedules without one read in the viewer's zone as before.
+
+  2. Database Functions
+    - `is_valid_time_zone` checks a name against `pg_timezone_names`
+    - `validate_user_time_zone` and `validate_availability_time_zone` reject unknown zones. They run
+      as triggers only when the zone is set or changed, so other writes skip the `pg_timezone_names` scan.
+    - `get_appointment_counterparties` also returns each counterparty's timezone
+    - `is_within_availability` reads the schedule in its own zone, or like the app in the zone of the
+      user asking (the booking client) when it has none
+    - `offer_cancelled_slot` matches waitlist preferred times in the client's stored timezone
+      when there is one, so offers stay correct across DST changes
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_time_zone(zone_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = zone_name);
+$$;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+CREATE OR REPLACE FUNCTION validate_user_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.timezone IS DISTINCT FROM OLD.timezone)
+    AND NOT is_valid_time_zone(NEW.timezone) THEN
+    RAISE EXCEPTION 'invalid_time_zone' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_user_time_zone
+  BEFORE INSERT OR UPDATE OF timezone ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_user_time_zone();
+
+CREATE OR REPLACE FUNCTION validate_availability_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.availability ? 'timezone'
+    AND (TG_OP = 'INSERT' OR (NEW.availability ->> 'timezone') IS DISTINCT FROM (OLD.availability ->> 'timezone'))
+    AND NOT COALESCE(is_valid_time_zone(NEW.availability ->> 'timezone'), false) THEN
+    RAISE EXCEPTION 'invalid_time_zone' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_availability_time_zone
+  BEFORE INSERT OR UPDATE OF availability ON therapist_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_availability_time_zone();
+
+CREATE OR REPLACE FUNCTION is_within_availability(
+  therapist_uuid uuid,
+  start_at timestamptz,
+  duration_minutes integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule jsonb;
+  schedule_zone text;
+  local_start timestamp;
+  date_key text;
+  start_minute integer;
+BEGIN
+  SELECT availability INTO schedule FROM therapist_profiles WHERE user_id = therapist_uuid;
+
+  IF schedule IS NULL THEN
+    RETURN false;
+  END IF;
+
+  schedule_zone := COALESCE(
+    schedule ->> 'timezone',
+    (SELECT timezone FROM users WHERE id = auth.uid()),
+    'UTC'
+  );
+
+  local_start := start_at AT TIME ZONE schedule_zone;
+  date_key := to_char(local_start, 'YYYY-MM-DD');
+  start_minute := extract(hour FROM local_start)::integer * 60 + extract(minute FROM local_start)::integer;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(schedule -> 'time_off') time_off
+    WHERE date_key BETWEEN time_off ->> 'start_date' AND time_off ->> 'end_date'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(schedule -> 'weekly') day_schedule,
+      jsonb_array_elements(day_schedule -> 'working_hours') block
+    WHERE (day_schedule ->> 'day')::integer = extract(dow FROM local_start)::integer
+      AND block -> 'session_lengths' @> to_jsonb(duration_minutes)
+      AND start_minute >= time_of_day_minutes(block ->> 'start')
+      AND start_minute + duration_minutes <= time_of_day_minutes(block ->> 'end')
+      AND (start_minute - time_of_day_minutes(block ->> 'start')) % 30 = 0
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(day_schedule -> 'breaks') break_range
+        WHERE start_minute < time_of_day_minutes(break_range ->> 'end')
+          AND time_of_day_minutes(break_range ->> 'start') < start_minute + duration_minutes
+      )
+  );
+END;
+$$;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_appointment_counterparties();
+
+CREATE FUNCTION get_appointment_counterparties()
+RETURNS TABLE (
+  id uuid,
+  name text,
+  timezone text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT u.id, u.name, u.timezone
+  FROM appointments a
+  JOIN users u ON u.id = CASE WHEN a.therapist_id = auth.uid() THEN a.client_id ELSE a.therapist_id END
+  WHERE a.therapist_id = auth.uid() OR a.client_id = auth.uid()
+  ORDER BY u.name;
+$$;
+
+CREATE OR REPLACE FUNCTION offer_cancelled_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status <> 'booked' OR NEW.scheduled_at <= now() THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO waitlist_offers (entry_id, client_id, therapist_id, slot_start, duration, expires_at)
+  SELECT
+    e.id,
+    e.client_id,
+    e.therapist_id,
+    NEW.scheduled_at,
+    e.duration,
+    LEAST(now() + waitlist_offer_ttl(), NEW.scheduled_at)
+  FROM waitlist_entries e
+    JOIN users u ON u.id = e.client_id,
+    LATERAL (
+      SELECT CASE
+        WHEN u.timezone IS NOT NULL THEN NEW.scheduled_at AT TIME ZONE u.timezone
+        -- Entries from clients without a stored zone fall back to the offset captured on joining
+        ELSE (NEW.scheduled_at AT TIME ZONE 'UTC') - make_interval(mins => e.utc_offset_minutes)
+      END AS local_start
+    ) slot
+  WHERE e.therapist_id = NEW.therapist_id
+    AND e.status = 'waiting'
+    AND e.client_id <> NEW.client_id
+    AND e.duration <= COALESCE(NEW.duration, 60)
+    AND slot.local_start::date BETWEEN e.start_date AND e.end_date
+    AND (e.preferred_start IS NULL OR slot.local_start::time >= e.preferred_start)
+    AND (e.preferred_end IS NULL OR (slot.local_start + make_interval(mins => e.duration))::time <= e.preferred_end)
+  ON CONFLICT (entry_id, slot_start) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,100 @@
+/*
+  # Conversation Threads
+
+  1. Changes
+    - Messages sent before the app wrote `conversation_id` are attached to their conversation
+      (creating it when needed); until now they were hidden by the conversation-based RLS policies
+    - `conversations.last_message_at` is kept current by a trigger on new messages
+
+  2. Database Functions
+    - `get_or_create_conversation` no longer bumps `last_message_at` when the conversation
+      already exists, so opening a thread does not reorder the inbox
+    - It now only works for conversations the caller takes part in
+
+  3. Error codes
+    - `not_permitted` (42501) the caller is not one of the two participants
+*/
+
+INSERT INTO conversations (therapist_id, client_id)
+SELECT DISTINCT therapist.id, client.id
+FROM messages m
+  JOIN users therapist ON therapist.id IN (m.sender_id, m.receiver_id) AND therapist.role = 'therapist'
+  JOIN users client ON client.id IN (m.sender_id, m.receiver_id) AND client.role = 'client'
+WHERE m.conversation_id IS NULL
+ON CONFLICT (therapist_id, client_id) DO NOTHING;
+
+UPDATE messages m
+SET conversation_id = c.id
+FROM conversations c
+WHERE m.conversation_id IS NULL
+  AND (
+    (c.therapist_id = m.sender_id AND c.client_id = m.receiver_id)
+    OR (c.therapist_id = m.receiver_id AND c.client_id = m.sender_id)
+  );
+
+UPDATE conversations c
+SET last_message_at = latest.created_at
+FROM (
+  SELECT conversation_id, max(created_at) AS created_at
+  FROM messages
+  WHERE conversation_id IS NOT NULL
+  GROUP BY conversation_id
+) latest
+WHERE latest.conversation_id = c.id;
+
+CREATE OR REPLACE FUNCTION touch_conversation_last_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_at = GREATEST(last_message_at, NEW.created_at)
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation_last_message AFTER INSERT ON messages FOR EACH ROW EXECUTE FUNCTION touch_conversation_last_message();
+
+CREATE OR REPLACE FUNCTION get_or_create_conversation(
+  therapist_uuid uuid,
+  client_uuid uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation_id uuid;
+  therapist_role text;
+  client_role text;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() NOT IN (therapist_uuid, client_uuid) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT role INTO therapist_role FROM users WHERE id = therapist_uuid;
+  SELECT role INTO client_role FROM users WHERE id = client_uuid;
+
+  IF therapist_role IS DISTINCT FROM 'therapist' OR client_role IS DISTINCT FROM 'client' THEN
+    RAISE EXCEPTION 'Invalid user roles for conversation';
+  END IF;
+
+  INSERT INTO conversations (therapist_id, client_id)
+  VALUES (therapist_uuid, client_uuid)
+  ON CONFLICT (therapist_id, client_id) DO NOTHING
+  RETURNING id INTO conversation_id;
+
+  IF conversation_id IS NULL THEN
+    SELECT c.id INTO conversation_id
+    FROM conversations c
+    WHERE c.therapist_id = therapist_uuid AND c.client_id = client_uuid;
+  END IF;
+
+  RETURN conversation_id;
+END;
+$$;
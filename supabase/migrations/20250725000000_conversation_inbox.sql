@@ -0,0 +1,95 @@
+/*
+  # Conversation Inbox
+
+  1. Indexes
+    - `(conversation_id, created_at, id)` on messages for the latest message per thread
+    - partial index on unread messages per conversation and receiver for the unread counts
+    - `(therapist_id | client_id, last_message_at, id)` on conversations for the keyset-paged inbox
+
+  2. Database Functions
+    - `get_conversation_inbox` returns one page of the caller's conversations, newest activity
+      first, each with the counterpart's profile, the last message and the caller's unread count.
+      `users` rows are only readable by their owner (and approved therapists by everyone), so the
+      counterpart profile is read here rather than by joining `users` from the client.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+  ON messages (conversation_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON messages (conversation_id, receiver_id)
+  WHERE read = false;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_therapist_inbox
+  ON conversations (therapist_id, last_message_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_client_inbox
+  ON conversations (client_id, last_message_at DESC, id DESC);
+
+CREATE OR REPLACE FUNCTION get_conversation_inbox(
+  page_size integer DEFAULT 20,
+  before_last_message_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  therapist_id uuid,
+  client_id uuid,
+  is_active boolean,
+  last_message_at timestamptz,
+  counterpart_id uuid,
+  counterpart_name text,
+  counterpart_photo_url text,
+  counterpart_role user_role,
+  last_message_id uuid,
+  last_message text,
+  last_message_type message_type,
+  last_message_sender_id uuid,
+  last_message_created_at timestamptz,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.therapist_id,
+    c.client_id,
+    c.is_active,
+    c.last_message_at,
+    u.id,
+    u.name,
+    u.photo_url,
+    u.role,
+    lm.id,
+    lm.message,
+    lm.message_type,
+    lm.sender_id,
+    lm.created_at,
+    COALESCE(unread.total, 0)::integer
+  FROM conversations c
+    JOIN users u ON u.id = CASE WHEN c.therapist_id = auth.uid() THEN c.client_id ELSE c.therapist_id END
+    LEFT JOIN LATERAL (
+      SELECT m.id, m.message, m.message_type, m.sender_id, m.created_at
+      FROM messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT 1
+    ) lm ON true
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS total
+      FROM messages m
+      WHERE m.conversation_id = c.id
+        AND m.receiver_id = auth.uid()
+        AND m.read = false
+    ) unread ON true
+  WHERE (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    AND (
+      before_last_message_at IS NULL
+      OR (c.last_message_at, c.id) < (before_last_message_at, before_id)
+    )
+  ORDER BY c.last_message_at DESC, c.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
@@ -0,0 +1,73 @@
+/*
+  # Message Read Receipts
+
+  1. Changes
+    - `messages.read_at` records when the receiver read the message. Messages read before this
+      migration keep `read = true` with no `read_at`.
+
+  2. Database Functions
+    - `mark_conversation_read` marks every unread message the caller received in a conversation,
+      up to and including the given message, as read in one statement and returns how many changed
+
+  3. Realtime
+    - `messages` is added to the `supabase_realtime` publication (when it is not already in it), so
+      senders see their messages flip to seen and the reader's other devices clear their unread badges
+
+  4. Error codes
+    - `not_permitted`      (42501) the caller is not one of the two participants
+    - `message_not_found`  (P0002) the message does not belong to the conversation
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+  conversation_uuid uuid,
+  up_to_message_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  up_to messages%ROWTYPE;
+  updated_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id = conversation_uuid
+      AND auth.uid() IN (c.therapist_id, c.client_id)
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO up_to
+  FROM messages
+  WHERE id = up_to_message_id AND conversation_id = conversation_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'message_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE messages
+  SET read = true, read_at = now()
+  WHERE conversation_id = conversation_uuid
+    AND receiver_id = auth.uid()
+    AND read = false
+    AND (created_at, id) <= (up_to.created_at, up_to.id);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END;
+$$;
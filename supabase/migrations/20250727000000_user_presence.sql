@@ -0,0 +1,51 @@
+/*
+  # User Presence
+
+  1. Changes
+    - `users.last_seen_at` is when the user last had the app in the foreground. Live online state and
+      typing go over Realtime presence and broadcast and are not stored.
+
+  2. Database Functions
+    - `touch_last_seen` stamps the caller's `last_seen_at` with the server time
+    - `get_last_seen` returns `last_seen_at` for the given users, limited to people the caller shares
+      a conversation or an appointment with. `users` rows are only readable by their owner (and
+      approved therapists by everyone), so it is read here.
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_seen_at timestamptz;
+
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE users SET last_seen_at = now() WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION get_last_seen(user_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  last_seen_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.last_seen_at
+  FROM users u
+  WHERE u.id = ANY(user_ids)
+    AND (
+      EXISTS (
+        SELECT 1 FROM conversations c
+        WHERE (c.therapist_id = auth.uid() AND c.client_id = u.id)
+           OR (c.client_id = auth.uid() AND c.therapist_id = u.id)
+      )
+      OR EXISTS (
+        SELECT 1 FROM appointments a
+        WHERE (a.therapist_id = auth.uid() AND a.client_id = u.id)
+           OR (a.client_id = auth.uid() AND a.therapist_id = u.id)
+      )
+    );
+$$;
@@ -0,0 +1,144 @@
+/*
+  # Message Attachment Storage
+
+  1. Storage
+    - Private `message-attachments` bucket (25 MB per file, images and common documents)
+    - Objects live under `<conversation_id>/`; only the two participants of that conversation can
+      upload or read them. Files are shown through short-lived signed URLs.
+    - Uploaders can delete only their own objects that no `message_attachments` row points to yet,
+      such as the uploads of a send that failed. Objects of sent messages stay for the audit record.
+
+  2. Changes
+    - `message_attachments.file_url` holds the object path inside the bucket, not a public URL
+
+  3. Database Functions
+    - `send_attachment_message` inserts the message and its attachment rows in one transaction, so the
+      realtime insert of the message is only seen once its attachments can be read
+
+  4. Error codes
+    - `not_permitted`       (42501) the caller is not one of the two participants
+    - `invalid_attachment`  (22023) no attachments, more than 10, or a path outside the conversation
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  26214400,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/heic',
+    'image/webp',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can read conversation attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id::text = (storage.foldername(name))[1]
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Participants can upload conversation attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-attachments' AND
+    EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id::text = (storage.foldername(name))[1]
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Uploaders can delete own conversation attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    owner = auth.uid() AND
+    NOT EXISTS (SELECT 1 FROM public.message_attachments a WHERE a.file_url = objects.name)
+  );
+
+COMMENT ON COLUMN message_attachments.file_url IS 'Object path in the private message-attachments bucket';
+
+CREATE OR REPLACE FUNCTION send_attachment_message(
+  conversation_uuid uuid,
+  body text,
+  attachments jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation conversations%ROWTYPE;
+  new_message_id uuid;
+  attachment jsonb;
+  kind message_type := 'image';
+BEGIN
+  SELECT * INTO conversation
+  FROM conversations
+  WHERE id = conversation_uuid
+    AND auth.uid() IN (therapist_id, client_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(attachments) IS DISTINCT FROM 'array'
+    OR jsonb_array_length(attachments) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'invalid_attachment' USING ERRCODE = '22023';
+  END IF;
+
+  FOR attachment IN SELECT * FROM jsonb_array_elements(attachments) LOOP
+    IF attachment->>'file_url' IS NULL
+      OR attachment->>'file_url' NOT LIKE conversation_uuid::text || '/%'
+      OR attachment->>'file_name' IS NULL
+      OR attachment->>'file_type' IS NULL THEN
+      RAISE EXCEPTION 'invalid_attachment' USING ERRCODE = '22023';
+    END IF;
+
+    IF attachment->>'file_type' NOT LIKE 'image/%' THEN
+      kind := 'file';
+    END IF;
+  END LOOP;
+
+  INSERT INTO messages (conversation_id, sender_id, receiver_id, message, message_type)
+  VALUES (
+    conversation.id,
+    auth.uid(),
+    CASE WHEN conversation.therapist_id = auth.uid() THEN conversation.client_id ELSE conversation.therapist_id END,
+    COALESCE(btrim(body), ''),
+    kind
+  )
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO message_attachments (message_id, file_name, file_url, file_type, file_size)
+  SELECT
+    new_message_id,
+    a->>'file_name',
+    a->>'file_url',
+    a->>'file_type',
+    COALESCE((a->>'file_size')::integer, 0)
+  FROM jsonb_array_elements(attachments) a;
+
+  RETURN new_message_id;
+END;
+$$;
@@ -0,0 +1,357 @@
+/*
+  # Appointment Request Messages
+
+  1. New Tables
+    - `appointment_requests` - the proposal behind an `appointment_request` message: one to five
+      candidate start times of one duration, sent by either participant of a conversation.
+      "Suggest another time" is a new request that marks the one it answers `countered`.
+
+  2. Database Functions
+    - `create_booked_appointment` holds the booking checks that used to live in `book_appointment`,
+      for a given client. It is not callable by app users.
+    - `book_appointment` now books for the calling client through `create_booked_appointment`
+    - `send_appointment_request` posts an `appointment_request` message with its proposal
+    - `respond_to_appointment_request` lets the receiver decline, or accept one of the proposed
+      times. Accepting books the session for the conversation's client and posts a system message
+      giving the time in both participants' zones.
+
+  3. Security
+    - Participants can read the requests of their conversations; writes go through the functions
+    - Messages inserted directly can only be plain text from the sender. System messages, request
+      cards and the other message kinds are created only by the functions that back them.
+
+  4. Realtime
+    - `appointment_requests` is added to the `supabase_realtime` publication so cards update in place
+
+  5. Error codes
+    - `not_permitted`      (42501) not a participant, or responding to one's own request
+    - `invalid_request`    (22023) no times, more than five, a time in the past or a bad duration
+    - `request_closed`     (22023) the request was already accepted, declined or countered
+    - `slot_not_offered`   (22023) the accepted time is not one of the proposed times
+    - plus the `book_appointment` codes (for example `slot_taken`)
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  requested_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  proposed_slots timestamptz[] NOT NULL,
+  duration integer NOT NULL DEFAULT 60 CHECK (duration IN (30, 60, 90)),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'countered')),
+  in_reply_to uuid REFERENCES appointment_requests(id) ON DELETE SET NULL,
+  accepted_slot timestamptz,
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (cardinality(proposed_slots) BETWEEN 1 AND 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_requests_conversation ON appointment_requests (conversation_id, status);
+
+ALTER TABLE appointment_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read appointment requests"
+  ON appointment_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id = appointment_requests.conversation_id
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can send messages to own conversations" ON messages;
+
+CREATE POLICY "Users can send messages to own conversations"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid() AND
+    NOT is_system_message AND
+    message_type = 'text' AND
+    EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id = messages.conversation_id
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    )
+  );
+
+CREATE TRIGGER update_appointment_requests_updated_at BEFORE UPDATE ON appointment_requests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION create_booked_appointment(
+  client_uuid uuid,
+  therapist_uuid uuid,
+  scheduled_start timestamptz,
+  duration_minutes integer DEFAULT 60,
+  appointment_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requested_period tstzrange;
+  new_appointment appointments;
+  violated_constraint text;
+BEGIN
+  IF client_uuid IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF client_uuid = therapist_uuid OR NOT EXISTS (
+    SELECT 1 FROM users WHERE id = client_uuid AND role = 'client'
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF duration_minutes IS NULL OR duration_minutes NOT IN (30, 60, 90) THEN
+    RAISE EXCEPTION 'invalid_duration' USING ERRCODE = '22023';
+  END IF;
+
+  IF scheduled_start <= now() THEN
+    RAISE EXCEPTION 'slot_in_past' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM therapist_profiles
+    WHERE user_id = therapist_uuid AND is_approved = true
+  ) THEN
+    RAISE EXCEPTION 'therapist_unavailable' USING ERRCODE = 'P0002';
+  END IF;
+
+  requested_period := appointment_period(scheduled_start, duration_minutes);
+
+  -- Serialize concurrent bookings for the same therapist or client; lock in a fixed order to avoid deadlocks
+  PERFORM pg_advisory_xact_lock(hashtextextended(LEAST(therapist_uuid, client_uuid)::text, 0));
+  PERFORM pg_advisory_xact_lock(hashtextextended(GREATEST(therapist_uuid, client_uuid)::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE therapist_id = therapist_uuid
+    AND status = 'booked'
+    AND appointment_period(scheduled_at, duration) && requested_period
+  ) THEN
+    RAISE EXCEPTION 'slot_taken' USING ERRCODE = '23P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE client_id = client_uuid
+    AND status = 'booked'
+    AND appointment_period(scheduled_at, duration) && requested_period
+  ) THEN
+    RAISE EXCEPTION 'client_double_booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO appointments (client_id, therapist_id, scheduled_at, duration, status, notes)
+  VALUES (client_uuid, therapist_uuid, scheduled_start, duration_minutes, 'booked', NULLIF(btrim(appointment_notes), ''))
+  RETURNING * INTO new_appointment;
+
+  RETURN new_appointment;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    GET STACKED DIAGNOSTICS violated_constraint = CONSTRAINT_NAME;
+    -- Our own checks above raise with no constraint name; pass those through unchanged
+    IF violated_constraint IS NULL OR violated_constraint = '' THEN
+      RAISE;
+    ELSIF violated_constraint = 'appointments_no_client_overlap' THEN
+      RAISE EXCEPTION 'client_double_booked' USING ERRCODE = '23P01';
+    ELSE
+      RAISE EXCEPTION 'slot_taken' USING ERRCODE = '23P01';
+    END IF;
+END;
+$$;
+
+-- Books for any client, so only other database functions may call it
+REVOKE EXECUTE ON FUNCTION create_booked_appointment(uuid, uuid, timestamptz, integer, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  therapist_uuid uuid,
+  scheduled_start timestamptz,
+  duration_minutes integer DEFAULT 60,
+  appointment_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM create_booked_appointment(auth.uid(), therapist_uuid, scheduled_start, duration_minutes, appointment_notes);
+$$;
+
+CREATE OR REPLACE FUNCTION send_appointment_request(
+  conversation_uuid uuid,
+  slots timestamptz[],
+  duration_minutes integer DEFAULT 60,
+  note text DEFAULT NULL,
+  reply_to uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation conversations%ROWTYPE;
+  answered appointment_requests%ROWTYPE;
+  new_message_id uuid;
+BEGIN
+  SELECT * INTO conversation
+  FROM conversations
+  WHERE id = conversation_uuid
+    AND auth.uid() IN (therapist_id, client_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF slots IS NULL
+    OR cardinality(slots) NOT BETWEEN 1 AND 5
+    OR EXISTS (SELECT 1 FROM unnest(slots) slot WHERE slot IS NULL OR slot <= now())
+    OR duration_minutes IS NULL
+    OR duration_minutes NOT IN (30, 60, 90) THEN
+    RAISE EXCEPTION 'invalid_request' USING ERRCODE = '22023';
+  END IF;
+
+  IF reply_to IS NOT NULL THEN
+    SELECT * INTO answered
+    FROM appointment_requests
+    WHERE id = reply_to AND conversation_id = conversation_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR answered.requested_by = auth.uid() THEN
+      RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+    END IF;
+
+    IF answered.status <> 'pending' THEN
+      RAISE EXCEPTION 'request_closed' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE appointment_requests
+    SET status = 'countered', responded_at = now()
+    WHERE id = reply_to;
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, receiver_id, message, message_type)
+  VALUES (
+    conversation.id,
+    auth.uid(),
+    CASE WHEN conversation.therapist_id = auth.uid() THEN conversation.client_id ELSE conversation.therapist_id END,
+    COALESCE(btrim(note), ''),
+    'appointment_request'
+  )
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO appointment_requests (message_id, conversation_id, requested_by, proposed_slots, duration, in_reply_to)
+  VALUES (
+    new_message_id,
+    conversation.id,
+    auth.uid(),
+    ARRAY(SELECT DISTINCT slot FROM unnest(slots) slot ORDER BY slot),
+    duration_minutes,
+    reply_to
+  );
+
+  RETURN new_message_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_appointment_request(
+  request_uuid uuid,
+  accept boolean,
+  slot timestamptz DEFAULT NULL
+)
+RETURNS appointment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request appointment_requests%ROWTYPE;
+  conversation conversations%ROWTYPE;
+  new_appointment appointments;
+  client_zone text;
+  therapist_zone text;
+  confirmed_time text;
+BEGIN
+  SELECT * INTO request
+  FROM appointment_requests
+  WHERE id = request_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO conversation FROM conversations WHERE id = request.conversation_id;
+
+  IF auth.uid() NOT IN (conversation.therapist_id, conversation.client_id) OR request.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'request_closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT accept THEN
+    UPDATE appointment_requests
+    SET status = 'declined', responded_at = now()
+    WHERE id = request.id
+    RETURNING * INTO request;
+
+    RETURN request;
+  END IF;
+
+  IF slot IS NULL OR NOT slot = ANY(request.proposed_slots) THEN
+    RAISE EXCEPTION 'slot_not_offered' USING ERRCODE = '22023';
+  END IF;
+
+  new_appointment := create_booked_appointment(
+    conversation.client_id,
+    conversation.therapist_id,
+    slot,
+    request.duration,
+    NULL
+  );
+
+  UPDATE appointment_requests
+  SET status = 'accepted', accepted_slot = slot, appointment_id = new_appointment.id, responded_at = now()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  SELECT COALESCE(timezone, 'UTC') INTO client_zone FROM users WHERE id = conversation.client_id;
+  SELECT COALESCE(timezone, 'UTC') INTO therapist_zone FROM users WHERE id = conversation.therapist_id;
+
+  -- Zones that read the same clock time share one reading
+  IF client_zone = therapist_zone THEN
+    confirmed_time := to_char(slot AT TIME ZONE client_zone, 'FMDy FMDD Mon YYYY, HH24:MI') || ' (' || client_zone || ')';
+  ELSIF (slot AT TIME ZONE client_zone) = (slot AT TIME ZONE therapist_zone) THEN
+    confirmed_time := to_char(slot AT TIME ZONE client_zone, 'FMDy FMDD Mon YYYY, HH24:MI')
+      || ' (' || client_zone || ', ' || therapist_zone || ')';
+  ELSE
+    confirmed_time := to_char(slot AT TIME ZONE client_zone, 'FMDy FMDD Mon YYYY, HH24:MI') || ' (' || client_zone || ') / '
+      || to_char(slot AT TIME ZONE therapist_zone, 'FMDy FMDD Mon YYYY, HH24:MI') || ' (' || therapist_zone || ')';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, receiver_id, message, message_type, is_system_message)
+  VALUES (
+    conversation.id,
+    auth.uid(),
+    request.requested_by,
+    'Appointment confirmed for ' || confirmed_time || ', ' || request.duration || ' minutes',
+    'text',
+    true
+  );
+
+  RETURN request;
+END;
+$$;
+
+-- Lets open chats update request cards as they are answered
+ALTER PUBLICATION supabase_realtime ADD TABLE appointment_requests;
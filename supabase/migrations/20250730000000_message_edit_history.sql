@@ -0,0 +1,223 @@
+/*
+  # Message Edit History
+
+  1. New Tables
+    - `message_revisions` - the text a message had before each edit or removal, with who changed it
+      and when. It is the practice's audit record of clinical conversations: app users cannot read or
+      change it, only the service role can.
+
+  2. Changes
+    - `messages.deleted_at` marks a message removed by its sender. The row stays (so replies and
+      read receipts still make sense) but its text is cleared; the original is kept in `message_revisions`.
+    - A trigger records a revision whenever a message's text changes or it is removed, however the
+      update is made
+
+  3. Database Functions
+    - `message_edit_window` is how long after sending a message can be edited (15 minutes)
+    - `edit_message` replaces the text of one of the caller's messages and stamps `edited_at`
+    - `delete_message` soft-deletes one of the caller's messages
+
+  4. Security
+    - App users may now only update `read` and `read_at` on messages, and only on messages they
+      received; edits and removals go through the functions above
+    - Attachments of removed messages are no longer readable, and neither are their Storage objects.
+      The objects are kept for the audit record. A participant can read an object only while a message
+      that is not removed links to it, and the uploader can also read their own objects that no message
+      links to yet, so a failed send can clean them up.
+
+  5. Error codes
+    - `not_permitted`        (42501) the message was not sent by the caller
+    - `message_removed`      (22023) the message was already removed
+    - `not_editable`         (22023) system messages and appointment requests cannot be changed
+    - `edit_window_passed`   (22023) the message is older than the edit window
+    - `empty_message`        (22023) the new text is empty
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('edited', 'removed')),
+  previous_message text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions (message_id, created_at);
+
+-- No policies: only the service role reads the audit record
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION record_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    INSERT INTO message_revisions (message_id, change_type, previous_message, changed_by)
+    VALUES (OLD.id, 'removed', OLD.message, auth.uid());
+  ELSIF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO message_revisions (message_id, change_type, previous_message, changed_by)
+    VALUES (OLD.id, 'edited', OLD.message, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_revision BEFORE UPDATE ON messages FOR EACH ROW EXECUTE FUNCTION record_message_revision();
+
+DROP POLICY IF EXISTS "Users can update own messages" ON messages;
+
+CREATE POLICY "Receivers can mark messages read"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (receiver_id = auth.uid())
+  WITH CHECK (receiver_id = auth.uid());
+
+REVOKE UPDATE ON messages FROM anon, authenticated;
+GRANT UPDATE (read, read_at) ON messages TO authenticated;
+
+DROP POLICY IF EXISTS "Users can read attachments from own conversations" ON message_attachments;
+
+CREATE POLICY "Users can read attachments from own conversations"
+  ON message_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      WHERE m.id = message_attachments.message_id
+      AND m.deleted_at IS NULL
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_file_url ON message_attachments (file_url);
+
+DROP POLICY IF EXISTS "Participants can read conversation attachments" ON storage.objects;
+
+CREATE POLICY "Participants can read conversation attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id::text = (storage.foldername(name))[1]
+      AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    ) AND (
+      EXISTS (
+        SELECT 1 FROM public.message_attachments a
+        JOIN public.messages m ON m.id = a.message_id
+        WHERE a.file_url = objects.name
+        AND m.deleted_at IS NULL
+      ) OR (
+        owner = auth.uid() AND
+        NOT EXISTS (SELECT 1 FROM public.message_attachments a WHERE a.file_url = objects.name)
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION message_edit_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '15 minutes';
+$$;
+
+-- Shared checks for edit_message and delete_message; returns the locked message
+CREATE OR REPLACE FUNCTION lock_own_message(message_uuid uuid)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM messages
+  WHERE id = message_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR target.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'message_removed' USING ERRCODE = '22023';
+  END IF;
+
+  IF target.is_system_message OR target.message_type = 'appointment_request' THEN
+    RAISE EXCEPTION 'not_editable' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_own_message(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION edit_message(
+  message_uuid uuid,
+  new_message text
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+BEGIN
+  target := lock_own_message(message_uuid);
+
+  IF target.created_at < now() - message_edit_window() THEN
+    RAISE EXCEPTION 'edit_window_passed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Attachment messages may have their caption cleared; text messages need some text
+  IF btrim(COALESCE(new_message, '')) = '' AND target.message_type = 'text' THEN
+    RAISE EXCEPTION 'empty_message' USING ERRCODE = '22023';
+  END IF;
+
+  IF btrim(COALESCE(new_message, '')) = target.message THEN
+    RETURN target;
+  END IF;
+
+  UPDATE messages
+  SET message = btrim(COALESCE(new_message, '')), edited_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_message(message_uuid uuid)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+BEGIN
+  target := lock_own_message(message_uuid);
+
+  UPDATE messages
+  SET message = '', deleted_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
@@ -0,0 +1,170 @@
+/*
+  # Message Search
+
+  1. Indexes
+    - GIN index on the English text-search vector of `messages.message`, skipping removed messages
+
+  2. Database Functions
+    - `conversation_counterpart` returns the other participant's profile for a conversation the
+      caller takes part in (and nothing otherwise). `users` rows of clients are not readable by
+      their therapists, so search results read the counterpart through it.
+    - `search_messages` returns one page of the caller's messages matching a web-search style query
+      ("exercise link", "breathing -video", quoted phrases), newest first, each with a snippet whose
+      matches are wrapped in chr(2) ... chr(3). It runs with the caller's rights, so the messages RLS
+      policies limit it to the caller's conversations. Removed messages are never returned.
+    - `get_conversation_inbox` gains `only_conversation` to fetch the inbox row of a single
+      conversation, e.g. one opened from a search result that is not in the loaded inbox pages,
+      and `last_message_deleted_at` so a removed last message previews as removed
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_search
+  ON messages USING gin (to_tsvector('english', message))
+  WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION conversation_counterpart(conversation_uuid uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  photo_url text,
+  role user_role
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.name, u.photo_url, u.role
+  FROM conversations c
+    JOIN users u ON u.id = CASE WHEN c.therapist_id = auth.uid() THEN c.client_id ELSE c.therapist_id END
+  WHERE c.id = conversation_uuid
+    AND (c.therapist_id = auth.uid() OR c.client_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query text,
+  page_size integer DEFAULT 20,
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  message_type message_type,
+  created_at timestamptz,
+  snippet text,
+  counterpart_id uuid,
+  counterpart_name text,
+  counterpart_photo_url text,
+  counterpart_role user_role
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', COALESCE(search_query, '')) AS q
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.message_type,
+    m.created_at,
+    ts_headline(
+      'english',
+      m.message,
+      query.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "', chr(2), chr(3))
+    ),
+    cp.id,
+    cp.name,
+    cp.photo_url,
+    cp.role
+  FROM query, messages m
+    LEFT JOIN LATERAL conversation_counterpart(m.conversation_id) cp ON true
+  WHERE numnode(query.q) > 0
+    AND m.deleted_at IS NULL
+    AND to_tsvector('english', m.message) @@ query.q
+    AND (
+      before_created_at IS NULL
+      OR (m.created_at, m.id) < (before_created_at, before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 50);
+$$;
+
+DROP FUNCTION IF EXISTS get_conversation_inbox(integer, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION get_conversation_inbox(
+  page_size integer DEFAULT 20,
+  before_last_message_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  only_conversation uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  therapist_id uuid,
+  client_id uuid,
+  is_active boolean,
+  last_message_at timestamptz,
+  counterpart_id uuid,
+  counterpart_name text,
+  counterpart_photo_url text,
+  counterpart_role user_role,
+  last_message_id uuid,
+  last_message text,
+  last_message_type message_type,
+  last_message_sender_id uuid,
+  last_message_created_at timestamptz,
+  last_message_deleted_at timestamptz,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.therapist_id,
+    c.client_id,
+    c.is_active,
+    c.last_message_at,
+    u.id,
+    u.name,
+    u.photo_url,
+    u.role,
+    lm.id,
+    lm.message,
+    lm.message_type,
+    lm.sender_id,
+    lm.created_at,
+    lm.deleted_at,
+    COALESCE(unread.total, 0)::integer
+  FROM conversations c
+    JOIN users u ON u.id = CASE WHEN c.therapist_id = auth.uid() THEN c.client_id ELSE c.therapist_id END
+    LEFT JOIN LATERAL (
+      SELECT m.id, m.message, m.message_type, m.sender_id, m.created_at, m.deleted_at
+      FROM messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT 1
+    ) lm ON true
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS total
+      FROM messages m
+      WHERE m.conversation_id = c.id
+        AND m.receiver_id = auth.uid()
+        AND m.read = false
+    ) unread ON true
+  WHERE (c.therapist_id = auth.uid() OR c.client_id = auth.uid())
+    AND (only_conversation IS NULL OR c.id = only_conversation)
+    AND (
+      before_last_message_at IS NULL
+      OR (c.last_message_at, c.id) < (before_last_message_at, before_id)
+    )
+  ORDER BY c.last_message_at DESC, c.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
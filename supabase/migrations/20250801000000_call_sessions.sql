@@ -0,0 +1,241 @@
+/*
+  # Call Sessions
+
+  1. New Tables
+    - `call_sessions` - one audio or video call between two users, from ringing to hang-up.
+      `status` moves from `pending` to `active` (answered), `declined` or `missed`, and from
+      `pending` or `active` to `ended`. A call ended while still `pending` was cancelled by the caller.
+
+  2. Database Functions
+    - `start_call` rings another participant of one of the caller's conversations
+    - `accept_call` and `decline_call` answer a ringing call; only the callee may
+    - `end_call` hangs up (or cancels) a call; either participant may
+    - `get_call_sessions` returns the caller's calls, newest first, with both participants' profiles.
+      Clients' `users` rows are not readable by their therapists, so profiles are read here.
+
+  3. Security
+    - Participants can read their own calls; every write goes through the functions above
+
+  4. Error codes
+    - `not_permitted`   (42501) not a participant, calling someone outside one's conversations,
+                                or answering a call one placed
+    - `invalid_call`    (22023) unknown call type
+    - `call_closed`     (22023) the call already moved past the state the action needs
+*/
+
+CREATE TABLE IF NOT EXISTS call_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_name text NOT NULL UNIQUE,
+  caller_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  callee_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'ended', 'declined', 'missed')),
+  call_type text NOT NULL DEFAULT 'video' CHECK (call_type IN ('video', 'audio')),
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  ended_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  CHECK (caller_id <> callee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_caller ON call_sessions (caller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_call_sessions_callee ON call_sessions (callee_id, created_at DESC);
+
+ALTER TABLE call_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read own calls"
+  ON call_sessions
+  FOR SELECT
+  TO authenticated
+  USING (caller_id = auth.uid() OR callee_id = auth.uid());
+
+CREATE TRIGGER update_call_sessions_updated_at BEFORE UPDATE ON call_sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION start_call(
+  callee_uuid uuid,
+  session_type text DEFAULT 'video'
+)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_session call_sessions%ROWTYPE;
+BEGIN
+  IF session_type IS NULL OR session_type NOT IN ('video', 'audio') THEN
+    RAISE EXCEPTION 'invalid_call' USING ERRCODE = '22023';
+  END IF;
+
+  IF callee_uuid IS NULL OR callee_uuid = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE (c.therapist_id = auth.uid() AND c.client_id = callee_uuid)
+       OR (c.client_id = auth.uid() AND c.therapist_id = callee_uuid)
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO call_sessions (channel_name, caller_id, callee_id, call_type)
+  VALUES ('call_' || replace(gen_random_uuid()::text, '-', ''), auth.uid(), callee_uuid, session_type)
+  RETURNING * INTO new_session;
+
+  RETURN new_session;
+END;
+$$;
+
+-- Locks a call the current user takes part in; shared by the answer and hang-up functions
+CREATE OR REPLACE FUNCTION lock_own_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM call_sessions
+  WHERE id = session_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (target.caller_id, target.callee_id) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_own_call(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION accept_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  IF target.callee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF target.status <> 'pending' THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'active', started_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  IF target.callee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF target.status <> 'pending' THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'declined', ended_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION end_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  -- Only the caller can take back a call that is still ringing; the callee declines it instead
+  IF target.status NOT IN ('pending', 'active')
+    OR (target.status = 'pending' AND target.caller_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'ended', ended_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_call_sessions(
+  page_size integer DEFAULT 50,
+  only_session uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  channel_name text,
+  caller_id uuid,
+  callee_id uuid,
+  status text,
+  call_type text,
+  created_at timestamptz,
+  started_at timestamptz,
+  ended_at timestamptz,
+  caller_name text,
+  caller_role user_role,
+  caller_photo_url text,
+  callee_name text,
+  callee_role user_role,
+  callee_photo_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.channel_name,
+    s.caller_id,
+    s.callee_id,
+    s.status,
+    s.call_type,
+    s.created_at,
+    s.started_at,
+    s.ended_at,
+    caller.name,
+    caller.role,
+    caller.photo_url,
+    callee.name,
+    callee.role,
+    callee.photo_url
+  FROM call_sessions s
+    JOIN users caller ON caller.id = s.caller_id
+    JOIN users callee ON callee.id = s.callee_id
+  WHERE (s.caller_id = auth.uid() OR s.callee_id = auth.uid())
+    AND (only_session IS NULL OR s.id = only_session)
+  ORDER BY s.created_at DESC, s.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
@@ -0,0 +1,10 @@
+/*
+  # Call Session Realtime
+
+  1. Realtime
+    - `call_sessions` is added to the `supabase_realtime` publication, so a callee's devices ring when a
+      call starts and every participant's devices follow it as it is answered, declined or ended.
+      Changes are delivered only to the call's participants through the existing read policy.
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE call_sessions;
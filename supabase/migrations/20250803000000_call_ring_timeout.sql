@@ -0,0 +1,323 @@
+/*
+  # Call Ring Timeout
+
+  1. Changes
+    - `call_sessions.ring_expires_at` - when a ringing call stops ringing, 30 seconds after it starts.
+      The database decides when a call is missed; clients only ask it to check.
+    - `message_type` gains `missed_call`, a system message from the caller to the callee in their
+      conversation, posted when a call is missed
+
+  2. Database Functions
+    - `mark_call_missed` marks a ringing call `missed` and posts the missed-call message. It is not
+      callable by app users.
+    - `expire_call` lets either participant have an unanswered call marked `missed` once its ring time
+      is up; before then it returns the call unchanged
+    - `expire_unanswered_calls` marks every unanswered call past its ring time `missed`, or only those
+      of one user. It runs every 30 seconds through pg_cron, for calls neither side is still watching.
+      It is not callable by app users.
+    - `start_call` first expires the unanswered calls of both participants, and `get_call_sessions`
+      those of the caller, so neither depends on the pg_cron sweep having run
+    - `accept_call` and `decline_call` no longer answer a call whose ring time is up
+    - `end_call` on a ringing call whose ring time is up marks it `missed` instead of `ended`
+    - `get_call_sessions` also returns `ring_expires_at`
+
+  3. Extensions
+    - `pg_cron` 1.5 or later is required; earlier versions cannot schedule jobs in seconds. The
+      migration creates the extension and stops with an error when the installed version is older.
+*/
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS ring_expires_at timestamptz NOT NULL DEFAULT now() + interval '30 seconds';
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_ringing ON call_sessions (ring_expires_at) WHERE status = 'pending';
+
+ALTER TYPE message_type ADD VALUE IF NOT EXISTS 'missed_call';
+
+CREATE OR REPLACE FUNCTION mark_call_missed(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+  shared_conversation uuid;
+BEGIN
+  UPDATE call_sessions
+  SET status = 'missed', ended_at = now()
+  WHERE id = session_uuid AND status = 'pending'
+  RETURNING * INTO target;
+
+  IF NOT FOUND THEN
+    SELECT * INTO target FROM call_sessions WHERE id = session_uuid;
+    RETURN target;
+  END IF;
+
+  SELECT c.id INTO shared_conversation
+  FROM conversations c
+  WHERE (c.therapist_id = target.caller_id AND c.client_id = target.callee_id)
+     OR (c.client_id = target.caller_id AND c.therapist_id = target.callee_id)
+  LIMIT 1;
+
+  IF shared_conversation IS NOT NULL THEN
+    INSERT INTO messages (conversation_id, sender_id, receiver_id, message, message_type, is_system_message)
+    VALUES (
+      shared_conversation,
+      target.caller_id,
+      target.callee_id,
+      'Missed ' || target.call_type || ' call',
+      'missed_call',
+      true
+    );
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_call_missed(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION expire_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  IF target.status = 'pending' AND target.ring_expires_at <= now() THEN
+    target := mark_call_missed(target.id);
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_unanswered_calls(only_user uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired uuid;
+  expired_count integer := 0;
+BEGIN
+  FOR expired IN
+    SELECT id FROM call_sessions
+    WHERE status = 'pending' AND ring_expires_at <= now()
+      AND (only_user IS NULL OR only_user IN (caller_id, callee_id))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM mark_call_missed(expired);
+    expired_count := expired_count + 1;
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_unanswered_calls(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+DECLARE
+  cron_version text;
+BEGIN
+  SELECT extversion INTO cron_version FROM pg_extension WHERE extname = 'pg_cron';
+
+  IF string_to_array(cron_version, '.')::int[] < ARRAY[1, 5] THEN
+    RAISE EXCEPTION 'pg_cron % is installed, but the unanswered-call sweep needs pg_cron 1.5 or later', cron_version;
+  END IF;
+
+  PERFORM cron.schedule('expire-unanswered-calls', '30 seconds', 'SELECT expire_unanswered_calls()');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_call(
+  callee_uuid uuid,
+  session_type text DEFAULT 'video'
+)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_session call_sessions%ROWTYPE;
+BEGIN
+  IF session_type IS NULL OR session_type NOT IN ('video', 'audio') THEN
+    RAISE EXCEPTION 'invalid_call' USING ERRCODE = '22023';
+  END IF;
+
+  IF callee_uuid IS NULL OR callee_uuid = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE (c.therapist_id = auth.uid() AND c.client_id = callee_uuid)
+       OR (c.client_id = auth.uid() AND c.therapist_id = callee_uuid)
+  ) THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  -- Calls still ringing past their time would otherwise wait for the sweep
+  PERFORM expire_unanswered_calls(auth.uid());
+  PERFORM expire_unanswered_calls(callee_uuid);
+
+  INSERT INTO call_sessions (channel_name, caller_id, callee_id, call_type)
+  VALUES ('call_' || replace(gen_random_uuid()::text, '-', ''), auth.uid(), callee_uuid, session_type)
+  RETURNING * INTO new_session;
+
+  RETURN new_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  IF target.callee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF target.status <> 'pending' OR target.ring_expires_at <= now() THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'active', started_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  IF target.callee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not_permitted' USING ERRCODE = '42501';
+  END IF;
+
+  IF target.status <> 'pending' OR target.ring_expires_at <= now() THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'declined', ended_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION end_call(session_uuid uuid)
+RETURNS call_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target call_sessions%ROWTYPE;
+BEGIN
+  target := lock_own_call(session_uuid);
+
+  -- Only the caller can take back a call that is still ringing; the callee declines it instead
+  IF target.status NOT IN ('pending', 'active')
+    OR (target.status = 'pending' AND target.caller_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'call_closed' USING ERRCODE = '22023';
+  END IF;
+
+  -- Hanging up after the ring time is up still leaves the callee a missed call
+  IF target.status = 'pending' AND target.ring_expires_at <= now() THEN
+    RETURN mark_call_missed(target.id);
+  END IF;
+
+  UPDATE call_sessions
+  SET status = 'ended', ended_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+-- The result columns change, so the function is recreated rather than replaced
+DROP FUNCTION IF EXISTS get_call_sessions(integer, uuid);
+
+CREATE FUNCTION get_call_sessions(
+  page_size integer DEFAULT 50,
+  only_session uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  channel_name text,
+  caller_id uuid,
+  callee_id uuid,
+  status text,
+  call_type text,
+  created_at timestamptz,
+  started_at timestamptz,
+  ended_at timestamptz,
+  ring_expires_at timestamptz,
+  caller_name text,
+  caller_role user_role,
+  caller_photo_url text,
+  callee_name text,
+  callee_role user_role,
+  callee_photo_url text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- History never shows a call as ringing after its ring time is up
+  PERFORM expire_unanswered_calls(auth.uid());
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.channel_name,
+    s.caller_id,
+    s.callee_id,
+    s.status,
+    s.call_type,
+    s.created_at,
+    s.started_at,
+    s.ended_at,
+    s.ring_expires_at,
+    caller.name,
+    caller.role,
+    caller.photo_url,
+    callee.name,
+    callee.role,
+    callee.photo_url
+  FROM call_sessions s
+    JOIN users caller ON caller.id = s.caller_id
+    JOIN users callee ON callee.id = s.callee_id
+  WHERE (s.caller_id = auth.uid() OR s.callee_id = auth.uid())
+    AND (only_session IS NULL OR s.id = only_session)
+  ORDER BY s.created_at DESC, s.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
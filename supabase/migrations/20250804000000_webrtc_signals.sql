@@ -0,0 +1,81 @@
+/*
+  # WebRTC Signals
+
+  1. New Tables
+    - `webrtc_signals` - the SDP offers and answers and ICE candidates two participants exchange to
+      set up the peer-to-peer media of an answered call. Signals are kept until the call closes, so a
+      participant who opens the call screen late still receives the ones already sent.
+
+  2. Triggers
+    - `clear_call_signals` deletes a call's signals once it is ended, declined or missed
+
+  3. Security
+    - Participants can read the signals of their calls
+    - Participants can send signals only as themselves and only while the call is `active`
+
+  4. Realtime
+    - `webrtc_signals` is added to the `supabase_realtime` publication so signals arrive as they are sent
+*/
+
+CREATE TABLE IF NOT EXISTS webrtc_signals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('offer', 'answer', 'candidate')),
+  payload jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webrtc_signals_session ON webrtc_signals (session_id, created_at);
+
+ALTER TABLE webrtc_signals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read call signals"
+  ON webrtc_signals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM call_sessions s
+      WHERE s.id = webrtc_signals.session_id
+      AND (s.caller_id = auth.uid() OR s.callee_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Participants can signal on answered calls"
+  ON webrtc_signals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM call_sessions s
+      WHERE s.id = webrtc_signals.session_id
+      AND s.status = 'active'
+      AND (s.caller_id = auth.uid() OR s.callee_id = auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION clear_call_signals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('ended', 'declined', 'missed') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    DELETE FROM webrtc_signals WHERE session_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION clear_call_signals() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER clear_call_signals_on_close
+  AFTER UPDATE OF status ON call_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_call_signals();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE webrtc_signals;
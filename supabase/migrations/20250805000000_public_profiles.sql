@@ -0,0 +1,52 @@
+/*
+  # Public Profiles
+
+  1. Security
+    - Drops "Authenticated users can read approved therapists". It let any signed-in user read every
+      column of an approved therapist's `users` row, including email, phone, condition, timezone
+      and last-seen. `users` rows are again readable only by their owner.
+
+  2. Database Functions
+    - `get_public_profiles` returns the public columns (name, role, photo, location, timezone) of the
+      given users the caller may see: themselves, approved therapists, and anyone they share a
+      conversation or an appointment with. The therapist profile, booking and appointment screens
+      read other people's details through it.
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can read approved therapists" ON users;
+
+CREATE OR REPLACE FUNCTION get_public_profiles(user_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  role user_role,
+  photo_url text,
+  location text,
+  timezone text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.name, u.role, u.photo_url, u.location, u.timezone
+  FROM users u
+  WHERE u.id = ANY(user_ids)
+    AND (
+      u.id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM therapist_profiles tp
+        WHERE tp.user_id = u.id AND tp.is_approved = true
+      )
+      OR EXISTS (
+        SELECT 1 FROM conversations c
+        WHERE (c.therapist_id = auth.uid() AND c.client_id = u.id)
+           OR (c.client_id = auth.uid() AND c.therapist_id = u.id)
+      )
+      OR EXISTS (
+        SELECT 1 FROM appointments a
+        WHERE (a.therapist_id = auth.uid() AND a.client_id = u.id)
+           OR (a.client_id = auth.uid() AND a.therapist_id = u.id)
+      )
+    );
+$$;
@@ -1,3 +1,42 @@
+// Day of week as returned by Date.getDay(): 0 = Sunday ... 6 = Saturday
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type SessionLength = 30 | 60 | 90;
+
+// Wall-clock time in the therapist's schedule, 24-hour "HH:mm"
+export type TimeOfDay = string;
+
+export interface TimeRange {
+  start: TimeOfDay;
+  end: TimeOfDay;
+}
+
+export interface WorkingHours extends TimeRange {
+  // Session lengths that may be booked inside this block
+  session_lengths: SessionLength[];
+}
+
+export interface WeeklySchedule {
+  day: Weekday;
+  working_hours: WorkingHours[];
+  breaks: TimeRange[];
+}
+
+export interface TimeOffRange {
+  // Calendar dates ("YYYY-MM-DD"), both inclusive
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}
+
+// Shape of the `therapist_profiles.availability` jsonb column
+export interface TherapistAvailability {
+  // IANA zone the weekly hours and time-off dates are written in; the viewer's zone when unset
+  timezone?: string;
+  weekly: WeeklySchedule[];
+  time_off: TimeOffRange[];
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -12,6 +51,9 @@ export interface Database {
           phone?: string;
           photo_url?: string;
           location?: string;
+          // IANA zone of the user's device, kept current on sign-in
+          timezone: string | null;
+          last_seen_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -25,6 +67,7 @@ export interface Database {
           phone?: string;
           photo_url?: string;
           location?: string;
+          timezone?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -38,6 +81,7 @@ export interface Database {
           phone?: string;
           photo_url?: string;
           location?: string;
+          timezone?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -50,9 +94,10 @@ export interface Database {
           specialties: string[];
           credentials: string;
           experience_years: number;
-          availability: any[];
+          availability: TherapistAvailability;
           hourly_rate?: number;
           is_approved: boolean;
+          cancellation_window_hours: number;
           created_at: string;
           updated_at: string;
         };
@@ -63,9 +108,10 @@ export interface Database {
           specialties: string[];
           credentials: string;
           experience_years: number;
-          availability?: any[];
+          availability?: TherapistAvailability;
           hourly_rate?: number;
           is_approved?: boolean;
+          cancellation_window_hours?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -76,9 +122,10 @@ export interface Database {
           specialties?: string[];
           credentials?: string;
           experience_years?: number;
-          availability?: any[];
+          availability?: TherapistAvailability;
           hourly_rate?: number;
           is_approved?: boolean;
+          cancellation_window_hours?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,6 +140,10 @@ export interface Database {
           status: 'booked' | 'completed' | 'cancelled' | 'no_show';
           notes?: string;
           meeting_link?: string;
+          series_id?: string | null;
+          cancellation_reason?: string | null;
+          cancelled_by?: string | null;
+          cancelled_at?: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -105,6 +156,10 @@ export interface Database {
           status?: 'booked' | 'completed' | 'cancelled' | 'no_show';
           notes?: string;
           meeting_link?: string;
+          series_id?: string | null;
+          cancellation_reason?: string | null;
+          cancelled_by?: string | null;
+          cancelled_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -117,35 +172,230 @@ export interface Database {
           status?: 'booked' | 'completed' | 'cancelled' | 'no_show';
           notes?: string;
           meeting_link?: string;
+          series_id?: string | null;
+          cancellation_reason?: string | null;
+          cancelled_by?: string | null;
+          cancelled_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      appointment_series: {
+        Row: {
+          id: string;
+          client_id: string;
+          therapist_id: string;
+          interval_weeks: number;
+          occurrence_count: number;
+          duration: number;
+          created_at: string;
+          updated_at: string;
+        };
+        // Created only by the book_appointment_series function
+        Insert: never;
+        Update: never;
+      };
+      appointment_events: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          actor_id: string | null;
+          event_type: 'created' | 'status_changed' | 'rescheduled';
+          old_status: 'booked' | 'completed' | 'cancelled' | 'no_show' | null;
+          new_status: 'booked' | 'completed' | 'cancelled' | 'no_show' | null;
+          reason: string | null;
+          old_scheduled_at: string | null;
+          new_scheduled_at: string | null;
+          created_at: string;
+        };
+        // Written only by the log_appointment_event trigger
+        Insert: never;
+        Update: never;
+      };
+      waitlist_entries: {
+        Row: {
+          id: string;
+          client_id: string;
+          therapist_id: string;
+          start_date: string;
+          end_date: string;
+          preferred_start: string | null;
+          preferred_end: string | null;
+          utc_offset_minutes: number;
+          duration: 30 | 60 | 90;
+          status: 'waiting' | 'fulfilled' | 'withdrawn';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          therapist_id: string;
+          start_date: string;
+          end_date: string;
+          preferred_start?: string | null;
+          preferred_end?: string | null;
+          utc_offset_minutes?: number;
+          duration?: 30 | 60 | 90;
+          status?: 'waiting';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'waiting' | 'withdrawn';
+          updated_at?: string;
+        };
+      };
+      waitlist_offers: {
+        Row: {
+          id: string;
+          entry_id: string;
+          client_id: string;
+          therapist_id: string;
+          slot_start: string;
+          duration: number;
+          expires_at: string;
+          status: 'pending' | 'claimed' | 'withdrawn';
+          appointment_id: string | null;
+          created_at: string;
+        };
+        // Written only by the offer_cancelled_slot trigger and claim_waitlist_offer
+        Insert: never;
+        Update: never;
+      };
+      conversations: {
+        Row: {
+          id: string;
+          therapist_id: string;
+          client_id: string;
+          is_active: boolean;
+          last_message_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        // Created through the get_or_create_conversation function
+        Insert: never;
+        Update: {
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
       messages: {
         Row: {
           id: string;
+          conversation_id: string;
           sender_id: string;
           receiver_id: string;
           message: string;
+          message_type: 'text' | 'image' | 'file' | 'appointment_request' | 'missed_call';
+          is_system_message: boolean;
           read: boolean;
+          read_at: string | null;
+          edited_at: string | null;
+          deleted_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
+          conversation_id: string;
           sender_id: string;
           receiver_id: string;
           message: string;
+          message_type?: 'text' | 'image' | 'file' | 'appointment_request';
+          is_system_message?: boolean;
           read?: boolean;
           created_at?: string;
         };
+        // Edits and removals go through the edit_message and delete_message functions
         Update: {
-          id?: string;
-          sender_id?: string;
-          receiver_id?: string;
-          message?: string;
           read?: boolean;
+          read_at?: string | null;
+        };
+      };
+      message_revisions: {
+        Row: {
+          id: string;
+          message_id: string;
+          change_type: 'edited' | 'removed';
+          previous_message: string;
+          changed_by: string | null;
+          created_at: string;
+        };
+        // Written by a trigger on messages and readable only by the service role
+        Insert: never;
+        Update: never;
+      };
+      message_attachments: {
+        Row: {
+          id: string;
+          message_id: string;
+          file_name: string;
+          // Object path in the private message-attachments bucket
+          file_url: string;
+          file_type: string;
+          file_size: number;
+          created_at: string;
+        };
+        // Created through the send_attachment_message function
+        Insert: never;
+        Update: never;
+      };
+      appointment_requests: {
+        Row: {
+          id: string;
+          message_id: string;
+          conversation_id: string;
+          requested_by: string;
+          proposed_slots: string[];
+          duration: 30 | 60 | 90;
+          status: 'pending' | 'accepted' | 'declined' | 'countered';
+          in_reply_to: string | null;
+          accepted_slot: string | null;
+          appointment_id: string | null;
+          responded_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        // Written only by send_appointment_request and respond_to_appointment_request
+        Insert: never;
+        Update: never;
+      };
+      call_sessions: {
+        Row: {
+          id: string;
+          channel_name: string;
+          caller_id: string;
+          callee_id: string;
+          status: 'pending' | 'active' | 'ended' | 'declined' | 'missed';
+          call_type: 'video' | 'audio';
+          created_at: string;
+          started_at: string | null;
+          ended_at: string | null;
+          ring_expires_at: string;
+          updated_at: string;
+        };
+        // Created and moved between states through the call functions
+        Insert: never;
+        Update: never;
+      };
+      webrtc_signals: {
+        Row: {
+          id: string;
+          session_id: string;
+          sender_id: string;
+          kind: 'offer' | 'answer' | 'candidate';
+          payload: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id: string;
+          sender_id: string;
+          kind: 'offer' | 'answer' | 'candidate';
+          payload: Record<string, unknown>;
           created_at?: string;
         };
+        Update: never;
       };
       educational_content: {
         Row: {
@@ -3,6 +3,7 @@ declare global {
     interface ProcessEnv {
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
+      EXPO_PUBLIC_WEBRTC_ICE_SERVERS?: string;
     }
   }
 }